@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from './modules/prisma/prisma.module';
 import { UsersModule } from './modules/users/users.module';
 import { CompanyModule } from './modules/company/company.module';
@@ -12,12 +13,24 @@ import { WorkloadModule } from './modules/workload/workload.module';
 import { PaymentScheduleModule } from './modules/payment-schedule/payment-schedule.module';
 import { AnalyticsModule } from './modules/analytics/analytics.module';
 import { LenconnectChatLogModule } from './modules/lenconnect-chat-log/lenconnect-chat-log.module';
+import { ProposalModule } from './modules/proposal/proposal.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { TrashModule } from './modules/trash/trash.module';
+import { MailModule } from './modules/mail/mail.module';
+import { TelegramModule } from './modules/telegram/telegram.module';
+import { NotificationModule } from './modules/notification/notification.module';
+import { ReminderModule } from './modules/reminder/reminder.module';
+import { AbsenceModule } from './modules/absence/absence.module';
+import { ProductionCalendarModule } from './modules/production-calendar/production-calendar.module';
+import { PeriodCloseModule } from './modules/period-close/period-close.module';
+import { ProjectAccessModule } from './modules/project-access/project-access.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
     UsersModule,
     CompanyModule,
@@ -30,6 +43,17 @@ import { LenconnectChatLogModule } from './modules/lenconnect-chat-log/lenconnec
     PaymentScheduleModule,
     AnalyticsModule,
     LenconnectChatLogModule,
+    ProposalModule,
+    AuditModule,
+    TrashModule,
+    MailModule,
+    TelegramModule,
+    NotificationModule,
+    ReminderModule,
+    AbsenceModule,
+    ProductionCalendarModule,
+    PeriodCloseModule,
+    ProjectAccessModule,
   ],
   controllers: [],
   providers: [],
@@ -1,2 +1,3 @@
 export * from './roles.decorator';
 export * from './current-user.decorator';
+export * from './project-permission.decorator';
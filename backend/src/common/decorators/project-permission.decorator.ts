@@ -0,0 +1,22 @@
+import { SetMetadata } from '@nestjs/common';
+
+export type ProjectPermission =
+  | 'ViewTeam'
+  | 'ManageTeam'
+  | 'ManageDocuments'
+  | 'EditConstructions'
+  | 'ViewPayments';
+
+// Entity whose :id route param points to the project being accessed
+export type ProjectScopedEntity = 'document' | 'construction' | 'paymentSchedule';
+
+export const PROJECT_PERMISSION_KEY = 'projectPermission';
+
+export interface ProjectPermissionMetadata {
+  permission: ProjectPermission;
+  entity?: ProjectScopedEntity;
+}
+
+// Without an entity the project is taken from the projectId route param, query or body
+export const RequireProjectPermission = (permission: ProjectPermission, entity?: ProjectScopedEntity) =>
+  SetMetadata(PROJECT_PERMISSION_KEY, { permission, entity } as ProjectPermissionMetadata);
@@ -0,0 +1,32 @@
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+// Rows of a list requested without page/limit
+export const MAX_UNPAGED_ROWS = 1000;
+
+// Shared list query. Sorting and search always apply; page/limit switch the endpoint to a paginated response
+export class PaginationQueryDto {
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  @IsOptional()
+  limit?: number;
+
+  @IsString()
+  @IsOptional()
+  sortBy?: string;
+
+  @IsIn(['asc', 'desc'])
+  @IsOptional()
+  sortOrder?: 'asc' | 'desc';
+
+  @IsString()
+  @IsOptional()
+  search?: string;
+}
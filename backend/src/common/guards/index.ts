@@ -1,2 +1,3 @@
 export * from './jwt-auth.guard';
 export * from './roles.guard';
+export * from './project-permission.guard';
@@ -0,0 +1,69 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  PROJECT_PERMISSION_KEY,
+  ProjectPermissionMetadata,
+  ProjectScopedEntity,
+} from '../decorators/project-permission.decorator';
+import { ProjectAccessService } from '../../modules/project-access/project-access.service';
+
+const ENTITY_NAMES: Record<ProjectScopedEntity, string> = {
+  document: 'Document',
+  construction: 'Construction',
+  paymentSchedule: 'Payment schedule',
+};
+
+// Project guard - the permission set with @RequireProjectPermission on the project of the request.
+// Multipart bodies are parsed after guards run, routes receiving files check the project themselves.
+@Injectable()
+export class ProjectPermissionGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private projectAccess: ProjectAccessService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const metadata = this.reflector.getAllAndOverride<ProjectPermissionMetadata>(PROJECT_PERMISSION_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!metadata) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    if (!request.user) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    // Global rights do not depend on the project, routes keep working without one
+    if (this.projectAccess.globalPermissions(request.user).includes(metadata.permission)) {
+      return true;
+    }
+
+    let projectId: string | null;
+    if (metadata.entity) {
+      projectId = await this.projectAccess.resolveProjectId(metadata.entity, request.params.id);
+      if (!projectId) {
+        throw new NotFoundException(`${ENTITY_NAMES[metadata.entity]} not found`);
+      }
+    } else {
+      projectId = request.params?.projectId || request.query?.projectId || request.body?.projectId || null;
+    }
+
+    if (!projectId) {
+      throw new BadRequestException('Project ID is required');
+    }
+
+    await this.projectAccess.assertPermission(request.user, projectId, metadata.permission);
+    return true;
+  }
+}
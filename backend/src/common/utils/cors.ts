@@ -0,0 +1,31 @@
+// Origins allowed to call the API and open the notification socket, shared by main.ts and the gateway
+export function corsOrigin(
+  origin: string | undefined,
+  callback: (err: Error | null, allow?: boolean) => void,
+) {
+  // Allow requests with no origin (like mobile apps or curl requests)
+  if (!origin) return callback(null, true);
+
+  // Allow all localhost origins (development)
+  if (origin.startsWith('http://localhost:')) {
+    return callback(null, true);
+  }
+
+  // Allow configured frontend URL
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  if (origin === frontendUrl) {
+    return callback(null, true);
+  }
+
+  // Allow production server IP
+  if (origin === 'http://45.131.42.199' || origin === 'http://45.131.42.199:80') {
+    return callback(null, true);
+  }
+
+  // Allow production domain
+  if (origin === 'https://lencondb.ru' || origin === 'https://www.lencondb.ru') {
+    return callback(null, true);
+  }
+
+  callback(new Error('Not allowed by CORS'));
+}
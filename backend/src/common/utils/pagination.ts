@@ -0,0 +1,81 @@
+import { BadRequestException } from '@nestjs/common';
+import { DEFAULT_PAGE_SIZE, MAX_UNPAGED_ROWS, PaginationQueryDto } from '../dto/pagination.dto';
+
+export interface PaginatedResult<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Builds the Prisma orderBy from sortBy/sortOrder, with the id as tiebreaker so pages never overlap.
+// sortableFields maps public sort keys to model paths, e.g. { customer: 'customer.name' }
+export function buildOrderBy(
+  query: PaginationQueryDto,
+  sortableFields: Record<string, string>,
+  defaultOrderBy: Record<string, any>,
+) {
+  if (!query.sortBy) return [defaultOrderBy, { id: 'asc' as const }];
+
+  const fieldPath = sortableFields[query.sortBy];
+  if (!fieldPath) {
+    throw new BadRequestException(
+      `sortBy must be one of: ${Object.keys(sortableFields).join(', ')}`,
+    );
+  }
+
+  const orderBy = fieldPath
+    .split('.')
+    .reduceRight<any>((nested, field) => ({ [field]: nested }), query.sortOrder ?? 'asc');
+  return [orderBy, { id: 'asc' as const }];
+}
+
+// Case-insensitive "contains" filter over several fields, nested paths are allowed ('user.lastName')
+export function buildSearchFilter(search: string | undefined, fieldPaths: string[]) {
+  const term = search?.trim();
+  if (!term) return undefined;
+
+  return fieldPaths.map((fieldPath) =>
+    fieldPath
+      .split('.')
+      .reduceRight<any>((filter, field) => ({ [field]: filter }), {
+        contains: term,
+        mode: 'insensitive',
+      }),
+  );
+}
+
+// Without page/limit a plain list is returned, for dropdowns. A list longer than MAX_UNPAGED_ROWS
+// is refused rather than cut, the caller has to page through it
+export async function paginate<T>(
+  query: PaginationQueryDto,
+  findMany: (args: { skip?: number; take?: number }) => Promise<T[]>,
+  count: () => Promise<number>,
+): Promise<T[] | PaginatedResult<T>> {
+  if (query.page === undefined && query.limit === undefined) {
+    const rows = await findMany({ take: MAX_UNPAGED_ROWS + 1 });
+    if (rows.length > MAX_UNPAGED_ROWS) {
+      throw new BadRequestException(
+        `The list has more than ${MAX_UNPAGED_ROWS} rows, request it with page and limit`,
+      );
+    }
+    return rows;
+  }
+
+  const page = query.page ?? 1;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+  const [data, total] = await Promise.all([
+    findMany({ skip: (page - 1) * limit, take: limit }),
+    count(),
+  ]);
+
+  return {
+    data,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+}
@@ -1,39 +1,18 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
+import { corsOrigin } from './common/utils/cors';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Behind nginx the client address comes from X-Forwarded-For, login throttling relies on it
+  app.set('trust proxy', process.env.TRUST_PROXY || 'loopback, uniquelocal');
 
   // Enable CORS
   app.enableCors({
-    origin: (origin: string | undefined, callback: (err: Error | null, allow?: boolean) => void) => {
-      // Allow requests with no origin (like mobile apps or curl requests)
-      if (!origin) return callback(null, true);
-
-      // Allow all localhost origins (development)
-      if (origin.startsWith('http://localhost:')) {
-        return callback(null, true);
-      }
-
-      // Allow configured frontend URL
-      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
-      if (origin === frontendUrl) {
-        return callback(null, true);
-      }
-
-      // Allow production server IP
-      if (origin === 'http://45.131.42.199' || origin === 'http://45.131.42.199:80') {
-        return callback(null, true);
-      }
-
-      // Allow production domain
-      if (origin === 'https://lencondb.ru' || origin === 'https://www.lencondb.ru') {
-        return callback(null, true);
-      }
-
-      callback(new Error('Not allowed by CORS'));
-    },
+    origin: corsOrigin,
     credentials: true,
   });
 
@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AbsenceService } from './absence.service';
+import { AbsenceQueryDto, CreateAbsenceDto, ReviewAbsenceDto } from './dto/absence.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ManagerGuard, NotTrialGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller('absence')
+@UseGuards(JwtAuthGuard)
+export class AbsenceController {
+  constructor(private readonly absenceService: AbsenceService) {}
+
+  // Managers and Admins see everyone, other users only their own absences
+  @Get()
+  async findAll(
+    @Query() query: AbsenceQueryDto,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.absenceService.findAll(query, user);
+  }
+
+  @Post()
+  @UseGuards(NotTrialGuard)
+  async create(
+    @Body() dto: CreateAbsenceDto,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.absenceService.create(dto, user);
+  }
+
+  @Patch(':id/review')
+  @UseGuards(ManagerGuard)
+  async review(
+    @Param('id') id: string,
+    @Body() dto: ReviewAbsenceDto,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.absenceService.review(id, dto, user);
+  }
+
+  @Delete(':id')
+  @UseGuards(NotTrialGuard)
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.absenceService.delete(id, user);
+  }
+}
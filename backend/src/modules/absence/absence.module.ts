@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AbsenceController } from './absence.controller';
+import { AbsenceService } from './absence.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [AbsenceController],
+  providers: [AbsenceService],
+  exports: [AbsenceService],
+})
+export class AbsenceModule {}
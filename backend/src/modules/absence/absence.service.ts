@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { AbsenceQueryDto, CreateAbsenceDto, ReviewAbsenceDto } from './dto/absence.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { AbsenceStatus, AuditAction, NotificationType, ProjectStatus, UserRole } from '@prisma/client';
+
+// Public sort keys of the absence list
+const ABSENCE_SORT_FIELDS = {
+  startDate: 'startDate',
+  endDate: 'endDate',
+  type: 'type',
+  status: 'status',
+  createdAt: 'createdAt',
+};
+
+const ABSENCE_INCLUDE = {
+  user: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  reviewedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+};
+
+interface Actor {
+  sub: string;
+  role: string;
+}
+
+@Injectable()
+export class AbsenceService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationService: NotificationService,
+  ) {}
+
+  // Employees only see their own absences
+  async findAll(query: AbsenceQueryDto, actor: Actor) {
+    const where: any = {};
+
+    where.userId = this.isReviewer(actor) ? query.userId : actor.sub;
+    if (query.type) where.type = query.type;
+    if (query.status) where.status = query.status;
+    if (query.startDate) where.endDate = { gte: this.toDate(query.startDate) };
+    if (query.endDate) where.startDate = { lte: this.toDate(query.endDate) };
+
+    const search = buildSearchFilter(query.search, ['user.firstName', 'user.lastName', 'comment']);
+    if (search) where.OR = search;
+
+    const orderBy = buildOrderBy(query, ABSENCE_SORT_FIELDS, { startDate: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.absence.findMany({
+          where,
+          include: ABSENCE_INCLUDE,
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.absence.count({ where }),
+    );
+  }
+
+  async create(dto: CreateAbsenceDto, actor: Actor) {
+    const reviewer = this.isReviewer(actor);
+    const userId = dto.userId ?? actor.sub;
+
+    if (userId !== actor.sub && !reviewer) {
+      throw new ForbiddenException('You can only request absences for yourself');
+    }
+
+    const startDate = this.toDate(dto.startDate);
+    const endDate = this.toDate(dto.endDate);
+    if (endDate < startDate) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const overlapping = await this.prisma.absence.findFirst({
+      where: {
+        userId,
+        status: { not: AbsenceStatus.Rejected },
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    });
+    if (overlapping) {
+      throw new ConflictException('The user already has an absence in this period');
+    }
+
+    // An absence a Manager or Admin records for someone else needs no further approval,
+    // a Manager's own goes through review like anyone's
+    const approved = reviewer && (userId !== actor.sub || actor.role === UserRole.Admin);
+    const absence = await this.prisma.absence.create({
+      data: {
+        userId,
+        type: dto.type,
+        startDate,
+        endDate,
+        comment: dto.comment,
+        status: approved ? AbsenceStatus.Approved : AbsenceStatus.Pending,
+        reviewedById: approved ? actor.sub : undefined,
+        reviewedAt: approved ? new Date() : undefined,
+      },
+      include: ABSENCE_INCLUDE,
+    });
+
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'Absence',
+      entityId: absence.id,
+      action: AuditAction.Create,
+      after: absence,
+    });
+
+    if (approved) {
+      await this.notifyReviewed(absence, actor.sub);
+    } else {
+      await this.notifyReviewers(absence);
+    }
+
+    return { ...absence, conflictingPlans: approved ? await this.findConflictingPlans(absence) : [] };
+  }
+
+  async review(id: string, dto: ReviewAbsenceDto, actor: Actor) {
+    const actorId = actor.sub;
+    const absence = await this.prisma.absence.findUnique({ where: { id } });
+    if (!absence) {
+      throw new NotFoundException('Absence not found');
+    }
+
+    if (absence.userId === actorId && actor.role !== UserRole.Admin) {
+      throw new ForbiddenException('You cannot review your own absence');
+    }
+
+    if (absence.status !== AbsenceStatus.Pending) {
+      throw new BadRequestException('Only pending absences can be reviewed');
+    }
+
+    const updated = await this.prisma.absence.update({
+      where: { id },
+      data: {
+        status: dto.status,
+        reviewComment: dto.comment,
+        reviewedById: actorId,
+        reviewedAt: new Date(),
+      },
+      include: ABSENCE_INCLUDE,
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Absence',
+      entityId: id,
+      action: AuditAction.Update,
+      before: absence,
+      after: updated,
+    });
+
+    await this.notifyReviewed(updated, actorId);
+
+    // Plans made before the approval stay, the manager decides what to move
+    const conflictingPlans =
+      updated.status === AbsenceStatus.Approved ? await this.findConflictingPlans(updated) : [];
+
+    return { ...updated, conflictingPlans };
+  }
+
+  // Employees may withdraw their own pending requests, Managers and Admins any absence
+  async delete(id: string, actor: Actor) {
+    const absence = await this.prisma.absence.findUnique({ where: { id } });
+    if (!absence) {
+      throw new NotFoundException('Absence not found');
+    }
+
+    if (!this.isReviewer(actor) && (absence.userId !== actor.sub || absence.status !== AbsenceStatus.Pending)) {
+      throw new ForbiddenException('Only pending requests can be withdrawn');
+    }
+
+    await this.prisma.absence.delete({ where: { id } });
+
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'Absence',
+      entityId: id,
+      action: AuditAction.Delete,
+      before: absence,
+    });
+
+    return { message: 'Absence deleted successfully' };
+  }
+
+  // Approved absence days per user within the period, as YYYY-MM-DD keys
+  async getApprovedDays(userIds: string[], from: Date, to: Date) {
+    const absences = await this.prisma.absence.findMany({
+      where: {
+        userId: { in: userIds },
+        status: AbsenceStatus.Approved,
+        startDate: { lte: to },
+        endDate: { gte: from },
+      },
+    });
+
+    const days = new Map<string, Set<string>>();
+    for (const absence of absences) {
+      const userDays = days.get(absence.userId) || new Set<string>();
+      for (
+        let day = dayjs(this.toKey(absence.startDate));
+        !day.isAfter(dayjs(this.toKey(absence.endDate)));
+        day = day.add(1, 'day')
+      ) {
+        userDays.add(day.format('YYYY-MM-DD'));
+      }
+      days.set(absence.userId, userDays);
+    }
+
+    return days;
+  }
+
+  async assertNotAbsent(userId: string, date: Date | string) {
+    const day = this.toDate(new Date(date).toISOString());
+    const absence = await this.prisma.absence.findFirst({
+      where: {
+        userId,
+        status: AbsenceStatus.Approved,
+        startDate: { lte: day },
+        endDate: { gte: day },
+      },
+    });
+
+    if (absence) {
+      throw new ConflictException('The employee is absent on this date');
+    }
+  }
+
+  private async findConflictingPlans(absence: { userId: string; startDate: Date; endDate: Date }) {
+    return this.prisma.workloadPlan.findMany({
+      where: {
+        userId: absence.userId,
+        date: { gte: absence.startDate, lte: absence.endDate },
+      },
+      include: {
+        project: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  // Admins and the managers of the employee's active projects
+  private async notifyReviewers(absence: {
+    id: string;
+    userId: string;
+    type: string;
+    startDate: Date;
+    endDate: Date;
+    user: { firstName: string; lastName: string };
+  }) {
+    const [admins, assignments] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { role: UserRole.Admin },
+        select: { id: true },
+      }),
+      this.prisma.projectUser.findMany({
+        where: {
+          userId: absence.userId,
+          project: { deletedAt: null, status: ProjectStatus.Active },
+        },
+        select: { project: { select: { managerId: true } } },
+      }),
+    ]);
+
+    const recipients = [
+      ...admins.map((admin) => admin.id),
+      ...assignments.map((assignment) => assignment.project.managerId),
+    ].filter((userId): userId is string => !!userId && userId !== absence.userId);
+
+    await this.notificationService.notifyMany(recipients, {
+      type: NotificationType.AbsenceRequested,
+      data: {
+        absenceId: absence.id,
+        absenceType: absence.type,
+        employeeName: `${absence.user.firstName} ${absence.user.lastName}`,
+        startDate: absence.startDate,
+        endDate: absence.endDate,
+      },
+      link: '/absences',
+    });
+  }
+
+  private async notifyReviewed(
+    absence: { id: string; userId: string; type: string; status: AbsenceStatus; startDate: Date; endDate: Date },
+    actorId: string,
+  ) {
+    if (absence.userId === actorId) return;
+
+    await this.notificationService.notify({
+      userId: absence.userId,
+      type: NotificationType.AbsenceReviewed,
+      data: {
+        absenceId: absence.id,
+        absenceType: absence.type,
+        status: absence.status,
+        startDate: absence.startDate,
+        endDate: absence.endDate,
+      },
+      link: '/absences',
+    });
+  }
+
+  private isReviewer(actor: Actor) {
+    return actor.role === UserRole.Admin || actor.role === UserRole.Manager;
+  }
+
+  // Absence dates are stored as UTC midnight of the calendar day, like plan dates
+  private toDate(value: string) {
+    return new Date(value.slice(0, 10));
+  }
+
+  private toKey(date: Date) {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,57 @@
+import { IsDateString, IsEnum, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { AbsenceStatus, AbsenceType } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+
+export class CreateAbsenceDto {
+  // Managers and Admins may record an absence for another user, it is approved right away
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsEnum(AbsenceType)
+  type: AbsenceType;
+
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  comment?: string;
+}
+
+export class ReviewAbsenceDto {
+  @IsIn([AbsenceStatus.Approved, AbsenceStatus.Rejected])
+  status: AbsenceStatus;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  comment?: string;
+}
+
+export class AbsenceQueryDto extends PaginationQueryDto {
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsEnum(AbsenceType)
+  @IsOptional()
+  type?: AbsenceType;
+
+  @IsEnum(AbsenceStatus)
+  @IsOptional()
+  status?: AbsenceStatus;
+
+  // Absences overlapping the period
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+}
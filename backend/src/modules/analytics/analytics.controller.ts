@@ -1,8 +1,10 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
 import { AnalyticsService } from './analytics.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ProjectActor } from '../project-access/project-access.service';
 
 @Controller('analytics')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -14,8 +16,9 @@ export class AnalyticsController {
   async getProjectsWorkload(
     @Query('date') date?: string,
     @Query('compareDate') compareDate?: string,
+    @Query('approvedOnly') approvedOnly?: string,
   ) {
-    return this.analyticsService.getProjectsWorkload(date, compareDate);
+    return this.analyticsService.getProjectsWorkload(date, compareDate, approvedOnly === 'true');
   }
 
   @Get('employee-work-hours')
@@ -23,7 +26,42 @@ export class AnalyticsController {
   async getEmployeeWorkHours(
     @Query('startDate') startDate?: string,
     @Query('endDate') endDate?: string,
+    @Query('approvedOnly') approvedOnly?: string,
   ) {
-    return this.analyticsService.getEmployeeWorkHours(startDate, endDate);
+    return this.analyticsService.getEmployeeWorkHours(startDate, endDate, approvedOnly === 'true');
+  }
+
+  @Get('cash-flow')
+  @Roles('Manager', 'Admin', 'Trial')
+  async getCashFlow(
+    @CurrentUser() user: ProjectActor,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.analyticsService.getCashFlow(user, startDate, endDate);
+  }
+
+  @Get('as-of-close')
+  @Roles('Manager', 'Admin', 'Trial')
+  async getFiguresAsOfClose(
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.analyticsService.getFiguresAsOfClose(startDate, endDate);
+  }
+
+  @Get('profitability')
+  @Roles('Admin')
+  async getProjectsProfitability(@Query('approvedOnly') approvedOnly?: string) {
+    return this.analyticsService.getProjectsProfitability(approvedOnly === 'true');
+  }
+
+  @Get('profitability/:projectId')
+  @Roles('Admin')
+  async getProjectProfitability(
+    @Param('projectId') projectId: string,
+    @Query('approvedOnly') approvedOnly?: string,
+  ) {
+    return this.analyticsService.getProjectProfitability(projectId, approvedOnly === 'true');
   }
 }
@@ -3,9 +3,12 @@ import { AnalyticsController } from './analytics.controller';
 import { AnalyticsService } from './analytics.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { UsersModule } from '../users/users.module';
+import { AbsenceModule } from '../absence/absence.module';
+import { ProductionCalendarModule } from '../production-calendar/production-calendar.module';
+import { PeriodCloseModule } from '../period-close/period-close.module';
 
 @Module({
-  imports: [PrismaModule, UsersModule],
+  imports: [PrismaModule, UsersModule, AbsenceModule, ProductionCalendarModule, PeriodCloseModule],
   controllers: [AnalyticsController],
   providers: [AnalyticsService],
 })
@@ -1,15 +1,36 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { UserRole } from '@prisma/client';
+import { AbsenceService } from '../absence/absence.service';
+import { ProductionCalendarService } from '../production-calendar/production-calendar.service';
+import { PeriodCloseService, PeriodSnapshot } from '../period-close/period-close.service';
+import { ProjectAccessService, ProjectActor } from '../project-access/project-access.service';
+import { TimesheetStatus, UserRole } from '@prisma/client';
 
 export interface ProjectWorkloadData {
   id: string;
   name: string;
   status: string;
+  customerName: string;
+  managerName: string;
   totalPlannedDays: number;
+  totalPlannedHours: number; // sum of the project allocations, days may be split between projects
   totalActualHours: number;
   employeeCount: number;
   progress: number; // percentage
+  contractDate: Date;
+  expirationDate: Date;
+}
+
+// Change of project figures between the compare date and the snapshot date
+export interface ProjectWorkloadDelta {
+  id: string;
+  name: string;
+  totalActualHours: number;
+  totalActualHoursPercentage: number | null;
+  totalPlannedDays: number;
+  totalPlannedHours: number;
+  employeeCount: number;
+  progress: number;
 }
 
 export interface EmployeeWorkHoursData {
@@ -19,92 +40,154 @@ export interface EmployeeWorkHoursData {
   email: string;
   totalHoursWorked: number;
   expectedHours: number;
+  absenceDays: number; // approved absence days falling on working days of the period
   deviation: number; // hours difference from expected
   deviationPercentage: number;
 }
 
-@Injectable()
-export class AnalyticsService {
-  constructor(private prisma: PrismaService) {}
+export interface CashFlowMonth {
+  month: string; // YYYY-MM
+  expected: number;
+  actual: number;
+  expectedPaid: number; // part of the expected amount that has already been received
+}
 
-  async getProjectsWorkload(date?: string, compareDate?: string) {
-    // Get all active projects with their workload data
-    const projects = await this.prisma.project.findMany({
-      include: {
-        customer: true,
-        manager: true,
-        workloadPlans: true,
-        workloadDistributions: {
-          include: {
-            workloadActual: true,
-          },
-        },
-        projectUsers: true,
-      },
-    });
+export interface OverduePaymentData {
+  id: string;
+  name: string;
+  type: string;
+  amount: number;
+  expectedDate: Date;
+  daysOverdue: number;
+  projectId: string;
+  projectName: string;
+  customerId: string | null;
+  customerName: string;
+}
 
-    const projectsData: ProjectWorkloadData[] = projects.map((project) => {
-      // Count unique planned days
-      const uniquePlannedDates = new Set(
-        project.workloadPlans.map((wp) => wp.date.toISOString().split('T')[0])
-      );
-      const totalPlannedDays = uniquePlannedDates.size;
+export interface CustomerCashFlowData {
+  customerId: string | null;
+  customerName: string;
+  expected: number;
+  received: number;
+  outstanding: number;
+  overdue: number;
+  paymentsCount: number;
+}
 
-      // Sum all actual hours from distributions
-      const totalActualHours = project.workloadDistributions.reduce(
-        (sum, dist) => sum + dist.hours,
-        0
-      );
+export interface ProjectProfitabilityData {
+  id: string;
+  name: string;
+  status: string;
+  customerName: string;
+  cost: number | null;
+  hours: number;
+  laborCost: number;
+  received: number;
+  margin: number | null; // cost minus labor cost
+  marginPercentage: number | null;
+  unratedHours: number; // hours of employees without a salary, not included in labor cost
+}
 
-      // Count unique employees who have submitted workload reports for this project
-      const uniqueEmployeeIds = new Set(
-        project.workloadDistributions
-          .filter((dist) => dist.workloadActual?.userId)
-          .map((dist) => dist.workloadActual.userId)
-      );
-      const employeeCount = uniqueEmployeeIds.size;
+export interface ProfitabilityMonth {
+  month: string; // YYYY-MM
+  hours: number;
+  laborCost: number;
+  received: number;
+  cumulativeLaborCost: number;
+  cumulativeReceived: number;
+  margin: number | null; // cost minus cumulative labor cost
+  cashMargin: number; // cumulative received minus cumulative labor cost
+}
 
-      // Calculate progress (assuming 8 hours per planned day)
-      const expectedHours = totalPlannedDays * 8;
-      const progress =
-        expectedHours > 0
-          ? Math.min(100, Math.round((totalActualHours / expectedHours) * 100))
-          : 0;
+export interface EmployeeLaborCostData {
+  id: string;
+  firstName: string;
+  lastName: string;
+  hours: number;
+  averageHourlyRate: number | null;
+  laborCost: number;
+}
 
-      return {
-        id: project.id,
-        name: project.name,
-        status: project.status,
-        customerName: project.customer?.name || 'N/A',
-        managerName: project.manager ? `${project.manager.firstName} ${project.manager.lastName}` : 'N/A',
-        totalPlannedDays,
-        totalActualHours: Math.round(totalActualHours * 10) / 10,
-        employeeCount,
-        progress,
-        contractDate: project.contractDate,
-        expirationDate: project.expirationDate,
-      };
-    });
+// Figures of a month as they were frozen at its last close
+export interface ClosedMonthData {
+  month: string; // YYYY-MM
+  status: 'Closed' | 'Reopened'; // Reopened figures may differ from the live ones
+  closedAt: Date;
+  hoursWorked: number;
+  approvedHours: number;
+  plannedHours: number;
+  pendingReview: number;
+}
+
+// Distribution row with what is needed to price it
+type PricedDistribution = {
+  hours: number;
+  workloadActual: {
+    date: Date;
+    user: {
+      id: string;
+      firstName: string;
+      lastName: string;
+      salary: number | null;
+    };
+  };
+};
+
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private prisma: PrismaService,
+    private absenceService: AbsenceService,
+    private calendarService: ProductionCalendarService,
+    private periodCloseService: PeriodCloseService,
+    private projectAccess: ProjectAccessService,
+  ) {}
+
+  // With approvedOnly only hours signed off by the project managers are counted
+  async getProjectsWorkload(date?: string, compareDate?: string, approvedOnly = false) {
+    // Snapshot is taken at the end of the requested day (defaults to now)
+    const snapshotDate = date ? this.endOfDay(date) : new Date();
+    const projectsData = await this.getProjectsSnapshot(snapshotDate, approvedOnly);
+    const comparisonDate = compareDate ? this.endOfDay(compareDate) : null;
+
+    // If compareDate is provided, build the same snapshot as of that date
+    let comparisonData: ProjectWorkloadData[] | null = null;
+    let deltas: ProjectWorkloadDelta[] | null = null;
+    if (comparisonDate) {
+      comparisonData = await this.getProjectsSnapshot(comparisonDate, approvedOnly);
 
-    // If compareDate is provided, get comparison data
-    let comparisonData = null;
-    if (compareDate) {
-      // This would calculate data up to the comparison date
-      // For simplicity, we return the same structure with slightly different values
-      comparisonData = projectsData.map((p) => ({
-        ...p,
-        totalActualHours: Math.round(p.totalActualHours * 0.8 * 10) / 10, // Example: 80% of current
-        progress: Math.round(p.progress * 0.8),
-      }));
+      const comparisonById = new Map(comparisonData.map((p) => [p.id, p]));
+      deltas = projectsData.map((current) => {
+        const previous = comparisonById.get(current.id);
+        const previousHours = previous?.totalActualHours ?? 0;
+        const hoursDelta = Math.round((current.totalActualHours - previousHours) * 10) / 10;
+
+        return {
+          id: current.id,
+          name: current.name,
+          totalActualHours: hoursDelta,
+          totalActualHoursPercentage:
+            previousHours > 0 ? Math.round((hoursDelta / previousHours) * 100) : null,
+          totalPlannedDays: current.totalPlannedDays - (previous?.totalPlannedDays ?? 0),
+          totalPlannedHours:
+            Math.round((current.totalPlannedHours - (previous?.totalPlannedHours ?? 0)) * 10) / 10,
+          employeeCount: current.employeeCount - (previous?.employeeCount ?? 0),
+          progress: current.progress - (previous?.progress ?? 0),
+        };
+      });
     }
 
     return {
+      date: snapshotDate.toISOString(),
+      compareDate: comparisonDate ? comparisonDate.toISOString() : null,
       projects: projectsData,
       comparison: comparisonData,
+      deltas,
       summary: {
-        totalProjects: projects.length,
-        activeProjects: projects.filter((p) => p.status === 'Active').length,
-        completedProjects: projects.filter((p) => p.status === 'Completed')
+        totalProjects: projectsData.length,
+        activeProjects: projectsData.filter((p) => p.status === 'Active').length,
+        completedProjects: projectsData.filter((p) => p.status === 'Completed')
           .length,
         totalHoursWorked: projectsData.reduce(
           (sum, p) => sum + p.totalActualHours,
@@ -114,7 +197,7 @@ export class AnalyticsService {
     };
   }
 
-  async getEmployeeWorkHours(startDate?: string, endDate?: string) {
+  async getEmployeeWorkHours(startDate?: string, endDate?: string, approvedOnly = false) {
     // Get date range - default to current month
     const now = new Date();
     const start = startDate
@@ -124,18 +207,11 @@ export class AnalyticsService {
       ? new Date(endDate)
       : new Date(now.getFullYear(), now.getMonth() + 1, 0);
 
-    // Calculate working days in the period (excluding weekends)
-    let workingDays = 0;
-    const current = new Date(start);
-    while (current <= end) {
-      const dayOfWeek = current.getDay();
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-        workingDays++;
-      }
-      current.setDate(current.getDate() + 1);
-    }
+    // Working days and their hours come from the production calendar
+    const workingDayList = (await this.calendarService.getDays(start, end)).filter((day) => day.hours > 0);
+    const workingDays = workingDayList.length;
 
-    const expectedHoursPerEmployee = workingDays * 8;
+    const expectedHoursPerEmployee = workingDayList.reduce((sum, day) => sum + day.hours, 0);
 
     // Get all employees (not Admin or Trial)
     const employees = await this.prisma.user.findMany({
@@ -152,20 +228,43 @@ export class AnalyticsService {
               lte: end,
             },
           },
+          include: {
+            distributions: {
+              where: this.distributionFilter(approvedOnly),
+              select: { hours: true },
+            },
+          },
         },
       },
     });
 
+    // Approved absences lower the expected hours of the employee
+    const absences = await this.absenceService.getApprovedDays(
+      employees.map((e) => e.id),
+      start,
+      end,
+    );
+
     const employeesData: EmployeeWorkHoursData[] = employees.map((employee) => {
+      // Approved hours exist only as project distributions
       const totalHoursWorked = employee.workloadActuals.reduce(
-        (sum, wa) => sum + wa.hoursWorked,
+        (sum, wa) =>
+          sum + (approvedOnly ? wa.distributions.reduce((hours, d) => hours + d.hours, 0) : wa.hoursWorked),
         0
       );
 
-      const deviation = totalHoursWorked - expectedHoursPerEmployee;
+      const absentDays = absences.get(employee.id);
+      const absentWorkingDays = absentDays
+        ? workingDayList.filter((day) => absentDays.has(day.date))
+        : [];
+      const absenceDays = absentWorkingDays.length;
+      const expectedHours =
+        expectedHoursPerEmployee - absentWorkingDays.reduce((sum, day) => sum + day.hours, 0);
+
+      const deviation = totalHoursWorked - expectedHours;
       const deviationPercentage =
-        expectedHoursPerEmployee > 0
-          ? Math.round((deviation / expectedHoursPerEmployee) * 100)
+        expectedHours > 0
+          ? Math.round((deviation / expectedHours) * 100)
           : 0;
 
       return {
@@ -174,7 +273,8 @@ export class AnalyticsService {
         lastName: employee.lastName,
         email: employee.email,
         totalHoursWorked: Math.round(totalHoursWorked * 10) / 10,
-        expectedHours: expectedHoursPerEmployee,
+        expectedHours,
+        absenceDays,
         deviation: Math.round(deviation * 10) / 10,
         deviationPercentage,
       };
@@ -208,4 +308,500 @@ export class AnalyticsService {
       },
     };
   }
+
+  // Only payments of the projects whose payments the actor may view
+  async getCashFlow(actor: ProjectActor, startDate?: string, endDate?: string) {
+    // Get date range - default to current year
+    const now = new Date();
+    const start = startDate ? new Date(startDate) : new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+    const end = endDate
+      ? this.endOfDay(endDate)
+      : new Date(Date.UTC(now.getUTCFullYear(), 11, 31, 23, 59, 59, 999));
+
+    const projectSelect = {
+      select: {
+        id: true,
+        name: true,
+        customer: {
+          select: { id: true, name: true },
+        },
+      },
+    };
+
+    const projectIds = await this.projectAccess.projectIdsWithPermission(actor, 'ViewPayments');
+    const projectWhere = projectIds ? { deletedAt: null, id: { in: projectIds } } : { deletedAt: null };
+
+    // Payments expected in the period, plus payments received in the period regardless of their plan date
+    const payments = await this.prisma.paymentSchedule.findMany({
+      where: {
+        project: projectWhere,
+        OR: [
+          { expectedDate: { gte: start, lte: end } },
+          { isPaid: true, actualDate: { gte: start, lte: end } },
+        ],
+      },
+      include: { project: projectSelect },
+    });
+
+    // Overdue list is not limited by the period: an old debt is still a debt
+    const overduePayments = await this.prisma.paymentSchedule.findMany({
+      where: {
+        isPaid: false,
+        expectedDate: { lt: now },
+        project: projectWhere,
+      },
+      include: { project: projectSelect },
+      orderBy: { expectedDate: 'asc' },
+    });
+
+    const months = new Map<string, CashFlowMonth>();
+    const cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+    while (cursor <= end) {
+      const month = this.monthKey(cursor);
+      months.set(month, { month, expected: 0, actual: 0, expectedPaid: 0 });
+      cursor.setMonth(cursor.getMonth() + 1);
+    }
+
+    const customers = new Map<string, CustomerCashFlowData>();
+    const isInPeriod = (date: Date | null) => !!date && date >= start && date <= end;
+
+    for (const payment of payments) {
+      const expectedInPeriod = isInPeriod(payment.expectedDate);
+      const receivedInPeriod = payment.isPaid && isInPeriod(payment.actualDate);
+
+      if (expectedInPeriod) {
+        const month = months.get(this.monthKey(payment.expectedDate));
+        if (month) {
+          month.expected += payment.amount;
+          if (payment.isPaid) month.expectedPaid += payment.amount;
+        }
+      }
+      if (receivedInPeriod) {
+        const month = months.get(this.monthKey(payment.actualDate!));
+        if (month) month.actual += payment.amount;
+      }
+
+      const customer = payment.project.customer;
+      const key = customer?.id || 'none';
+      if (!customers.has(key)) {
+        customers.set(key, {
+          customerId: customer?.id || null,
+          customerName: customer?.name || 'N/A',
+          expected: 0,
+          received: 0,
+          outstanding: 0,
+          overdue: 0,
+          paymentsCount: 0,
+        });
+      }
+      const totals = customers.get(key)!;
+      totals.paymentsCount++;
+      if (expectedInPeriod) {
+        totals.expected += payment.amount;
+        if (!payment.isPaid) {
+          totals.outstanding += payment.amount;
+          if (payment.expectedDate < now) totals.overdue += payment.amount;
+        }
+      }
+      if (receivedInPeriod) totals.received += payment.amount;
+    }
+
+    const overdue: OverduePaymentData[] = overduePayments.map((payment) => ({
+      id: payment.id,
+      name: payment.name,
+      type: payment.type,
+      amount: payment.amount,
+      expectedDate: payment.expectedDate,
+      daysOverdue: Math.floor((now.getTime() - payment.expectedDate.getTime()) / (1000 * 60 * 60 * 24)),
+      projectId: payment.project.id,
+      projectName: payment.project.name,
+      customerId: payment.project.customer?.id || null,
+      customerName: payment.project.customer?.name || 'N/A',
+    }));
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const monthly = Array.from(months.values()).map((m) => ({
+      ...m,
+      expected: round(m.expected),
+      actual: round(m.actual),
+      expectedPaid: round(m.expectedPaid),
+    }));
+    const byCustomer = Array.from(customers.values())
+      .map((c) => ({
+        ...c,
+        expected: round(c.expected),
+        received: round(c.received),
+        outstanding: round(c.outstanding),
+        overdue: round(c.overdue),
+      }))
+      .sort((a, b) => b.expected - a.expected);
+
+    return {
+      period: {
+        startDate: start,
+        endDate: end,
+      },
+      monthly,
+      overdue,
+      byCustomer,
+      summary: {
+        totalExpected: round(monthly.reduce((sum, m) => sum + m.expected, 0)),
+        totalReceived: round(monthly.reduce((sum, m) => sum + m.actual, 0)),
+        totalOverdue: round(overdue.reduce((sum, p) => sum + p.amount, 0)),
+        overdueCount: overdue.length,
+      },
+    };
+  }
+
+  // Profitability summary for every project (Admin only)
+  async getProjectsProfitability(approvedOnly = false) {
+    const projects = await this.prisma.project.findMany({
+      where: { deletedAt: null },
+      include: {
+        customer: {
+          select: { name: true },
+        },
+        workloadDistributions: {
+          where: this.distributionFilter(approvedOnly),
+          select: this.pricedDistributionSelect(),
+        },
+        paymentSchedules: {
+          where: { isPaid: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const workingHours = await this.getMonthlyWorkingHours(
+      projects.flatMap((project) => project.workloadDistributions.map((d) => d.workloadActual.date)),
+    );
+    const projectsData: ProjectProfitabilityData[] = projects.map((project) => {
+      const { summary } = this.calculateProfitability(
+        project,
+        project.workloadDistributions,
+        project.paymentSchedules,
+        workingHours,
+      );
+      return summary;
+    });
+
+    const totalCost = projectsData.reduce((sum, p) => sum + (p.cost || 0), 0);
+    const totalLaborCost = projectsData.reduce((sum, p) => sum + p.laborCost, 0);
+
+    return {
+      projects: projectsData,
+      summary: {
+        totalCost: Math.round(totalCost * 100) / 100,
+        totalLaborCost: Math.round(totalLaborCost * 100) / 100,
+        totalReceived: Math.round(projectsData.reduce((sum, p) => sum + p.received, 0) * 100) / 100,
+        totalMargin: Math.round((totalCost - totalLaborCost) * 100) / 100,
+      },
+    };
+  }
+
+  // Profitability of a single project with the monthly trend and per-employee labor cost (Admin only)
+  async getProjectProfitability(projectId: string, approvedOnly = false) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId, deletedAt: null },
+      include: {
+        customer: {
+          select: { name: true },
+        },
+        workloadDistributions: {
+          where: this.distributionFilter(approvedOnly),
+          select: this.pricedDistributionSelect(),
+        },
+        paymentSchedules: {
+          where: { isPaid: true },
+        },
+      },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const workingHours = await this.getMonthlyWorkingHours(
+      project.workloadDistributions.map((d) => d.workloadActual.date),
+    );
+
+    return this.calculateProfitability(
+      project,
+      project.workloadDistributions,
+      project.paymentSchedules,
+      workingHours,
+    );
+  }
+
+  // Point-in-time project figures built only from plans and reports dated on or before the given moment
+  private async getProjectsSnapshot(snapshotDate: Date, approvedOnly: boolean): Promise<ProjectWorkloadData[]> {
+    const projects = await this.prisma.project.findMany({
+      where: { deletedAt: null },
+      include: {
+        customer: true,
+        manager: true,
+        workloadPlans: {
+          where: { date: { lte: snapshotDate } },
+        },
+        workloadDistributions: {
+          where: { workloadActual: { date: { lte: snapshotDate } }, ...this.distributionFilter(approvedOnly) },
+          include: {
+            workloadActual: true,
+          },
+        },
+      },
+    });
+
+    return projects.map((project) => {
+      // Count unique planned days
+      const uniquePlannedDates = new Set(
+        project.workloadPlans.map((wp) => wp.date.toISOString().split('T')[0])
+      );
+      const totalPlannedDays = uniquePlannedDates.size;
+      const totalPlannedHours = project.workloadPlans.reduce((sum, wp) => sum + wp.hours, 0);
+
+      // Sum all actual hours from distributions
+      const totalActualHours = project.workloadDistributions.reduce(
+        (sum, dist) => sum + dist.hours,
+        0
+      );
+
+      // Count unique employees who have submitted workload reports for this project
+      const uniqueEmployeeIds = new Set(
+        project.workloadDistributions
+          .filter((dist) => dist.workloadActual?.userId)
+          .map((dist) => dist.workloadActual.userId)
+      );
+      const employeeCount = uniqueEmployeeIds.size;
+
+      // Calculate progress against the planned hours of the allocations
+      const progress =
+        totalPlannedHours > 0
+          ? Math.min(100, Math.round((totalActualHours / totalPlannedHours) * 100))
+          : 0;
+
+      return {
+        id: project.id,
+        name: project.name,
+        status: project.status,
+        customerName: project.customer?.name || 'N/A',
+        managerName: project.manager ? `${project.manager.firstName} ${project.manager.lastName}` : 'N/A',
+        totalPlannedDays,
+        totalPlannedHours: Math.round(totalPlannedHours * 10) / 10,
+        totalActualHours: Math.round(totalActualHours * 10) / 10,
+        employeeCount,
+        progress,
+        contractDate: project.contractDate,
+        expirationDate: project.expirationDate,
+      };
+    });
+  }
+
+  private distributionFilter(approvedOnly: boolean) {
+    return approvedOnly ? { status: TimesheetStatus.Approved } : {};
+  }
+
+  private pricedDistributionSelect() {
+    return {
+      hours: true,
+      workloadActual: {
+        select: {
+          date: true,
+          user: {
+            select: { id: true, firstName: true, lastName: true, salary: true },
+          },
+        },
+      },
+    } as const;
+  }
+
+  private calculateProfitability(
+    project: {
+      id: string;
+      name: string;
+      status: string;
+      cost: number | null;
+      customer: { name: string } | null;
+    },
+    distributions: PricedDistribution[],
+    paidPayments: { amount: number; actualDate: Date | null; expectedDate: Date }[],
+    monthlyWorkingHours: Map<string, number>,
+  ) {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const months = new Map<string, { hours: number; laborCost: number; received: number }>();
+    const employees = new Map<string, EmployeeLaborCostData & { ratedHours: number }>();
+    const monthOf = (month: string) => {
+      if (!months.has(month)) months.set(month, { hours: 0, laborCost: 0, received: 0 });
+      return months.get(month)!;
+    };
+
+    let unratedHours = 0;
+    for (const distribution of distributions) {
+      const { date, user } = distribution.workloadActual;
+      const month = this.monthKey(date);
+
+      // Monthly salary spread over the working hours of the month the work was done in
+      const workingHours = monthlyWorkingHours.get(month) ?? 0;
+      const hourlyRate = user.salary && workingHours > 0 ? user.salary / workingHours : null;
+      const laborCost = hourlyRate !== null ? distribution.hours * hourlyRate : 0;
+      if (hourlyRate === null) unratedHours += distribution.hours;
+
+      const monthData = monthOf(month);
+      monthData.hours += distribution.hours;
+      monthData.laborCost += laborCost;
+
+      if (!employees.has(user.id)) {
+        employees.set(user.id, {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          hours: 0,
+          ratedHours: 0,
+          averageHourlyRate: null,
+          laborCost: 0,
+        });
+      }
+      const employee = employees.get(user.id)!;
+      employee.hours += distribution.hours;
+      employee.laborCost += laborCost;
+      if (hourlyRate !== null) employee.ratedHours += distribution.hours;
+    }
+
+    for (const payment of paidPayments) {
+      monthOf(this.monthKey(payment.actualDate || payment.expectedDate)).received += payment.amount;
+    }
+
+    let cumulativeLaborCost = 0;
+    let cumulativeReceived = 0;
+    const monthly: ProfitabilityMonth[] = Array.from(months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, data]) => {
+        cumulativeLaborCost += data.laborCost;
+        cumulativeReceived += data.received;
+        return {
+          month,
+          hours: Math.round(data.hours * 10) / 10,
+          laborCost: round(data.laborCost),
+          received: round(data.received),
+          cumulativeLaborCost: round(cumulativeLaborCost),
+          cumulativeReceived: round(cumulativeReceived),
+          margin: project.cost !== null ? round(project.cost - cumulativeLaborCost) : null,
+          cashMargin: round(cumulativeReceived - cumulativeLaborCost),
+        };
+      });
+
+    const totalHours = monthly.reduce((sum, m) => sum + m.hours, 0);
+    const margin = project.cost !== null ? round(project.cost - cumulativeLaborCost) : null;
+
+    const summary: ProjectProfitabilityData = {
+      id: project.id,
+      name: project.name,
+      status: project.status,
+      customerName: project.customer?.name || 'N/A',
+      cost: project.cost,
+      hours: Math.round(totalHours * 10) / 10,
+      laborCost: round(cumulativeLaborCost),
+      received: round(cumulativeReceived),
+      margin,
+      marginPercentage:
+        margin !== null && project.cost ? Math.round((margin / project.cost) * 1000) / 10 : null,
+      unratedHours: Math.round(unratedHours * 10) / 10,
+    };
+
+    const employeesData: EmployeeLaborCostData[] = Array.from(employees.values())
+      .map(({ ratedHours, ...employee }) => ({
+        ...employee,
+        hours: Math.round(employee.hours * 10) / 10,
+        averageHourlyRate: ratedHours > 0 ? round(employee.laborCost / ratedHours) : null,
+        laborCost: round(employee.laborCost),
+      }))
+      .sort((a, b) => b.laborCost - a.laborCost);
+
+    return { summary, monthly, employees: employeesData };
+  }
+
+  // Figures of the closed months of the period taken from their close snapshots instead of live data
+  async getFiguresAsOfClose(startDate?: string, endDate?: string) {
+    // Get date range - default to current year
+    const now = new Date();
+    const start = startDate ? new Date(startDate) : new Date(Date.UTC(now.getFullYear(), 0, 1));
+    const end = endDate ? new Date(endDate) : new Date(Date.UTC(now.getFullYear(), 11, 31));
+
+    const periods = await this.periodCloseService.getSnapshots(start, end);
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    const months: ClosedMonthData[] = periods.map((period) => ({
+      month: `${period.year}-${String(period.month).padStart(2, '0')}`,
+      status: period.closed ? 'Closed' : 'Reopened',
+      closedAt: period.closedAt,
+      hoursWorked: period.snapshot.hoursWorked,
+      approvedHours: period.snapshot.approvedHours,
+      plannedHours: period.snapshot.plannedHours,
+      pendingReview: period.snapshot.pendingReview,
+    }));
+
+    const projects = new Map<string, PeriodSnapshot['projects'][number]>();
+    const employees = new Map<string, PeriodSnapshot['employees'][number]>();
+    for (const { snapshot } of periods) {
+      for (const project of snapshot.projects) {
+        const total = projects.get(project.id) ?? { ...project, hours: 0, approvedHours: 0, plannedHours: 0 };
+        total.hours += project.hours;
+        total.approvedHours += project.approvedHours;
+        total.plannedHours += project.plannedHours;
+        projects.set(project.id, total);
+      }
+      for (const employee of snapshot.employees) {
+        const total = employees.get(employee.id) ?? { ...employee, hoursWorked: 0, approvedHours: 0 };
+        total.hoursWorked += employee.hoursWorked;
+        total.approvedHours += employee.approvedHours;
+        employees.set(employee.id, total);
+      }
+    }
+
+    return {
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      months,
+      projects: Array.from(projects.values())
+        .map((p) => ({ ...p, hours: round(p.hours), approvedHours: round(p.approvedHours), plannedHours: round(p.plannedHours) }))
+        .sort((a, b) => b.hours - a.hours),
+      employees: Array.from(employees.values())
+        .map((e) => ({ ...e, hoursWorked: round(e.hoursWorked), approvedHours: round(e.approvedHours) }))
+        .sort((a, b) => b.hoursWorked - a.hoursWorked),
+      summary: {
+        closedMonths: months.filter((m) => m.status === 'Closed').length,
+        reopenedMonths: months.filter((m) => m.status === 'Reopened').length,
+        hoursWorked: round(months.reduce((sum, m) => sum + m.hoursWorked, 0)),
+        approvedHours: round(months.reduce((sum, m) => sum + m.approvedHours, 0)),
+        plannedHours: round(months.reduce((sum, m) => sum + m.plannedHours, 0)),
+      },
+    };
+  }
+
+  // Production calendar hours of every month the dates fall in, keyed by monthKey
+  private async getMonthlyWorkingHours(dates: Date[]) {
+    const result = new Map<string, number>();
+    for (const date of dates) {
+      const key = this.monthKey(date);
+      if (result.has(key)) continue;
+
+      const days = await this.calendarService.getDays(
+        new Date(date.getFullYear(), date.getMonth(), 1),
+        new Date(date.getFullYear(), date.getMonth() + 1, 0),
+      );
+      result.set(key, days.reduce((sum, day) => sum + day.hours, 0));
+    }
+    return result;
+  }
+
+  // Dates are stored as UTC midnight, so the day ends in UTC whatever the server's time zone
+  private endOfDay(date: string) {
+    const result = new Date(date);
+    result.setUTCHours(23, 59, 59, 999);
+    return result;
+  }
+
+  private monthKey(date: Date) {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
 }
@@ -0,0 +1,32 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { AdminGuard } from '../../common/guards/roles.guard';
+import { AuditAction } from '@prisma/client';
+
+@Controller('audit')
+@UseGuards(JwtAuthGuard, AdminGuard) // Audit log is Admin only
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  async findAll(
+    @Query('entityType') entityType?: string,
+    @Query('entityId') entityId?: string,
+    @Query('projectId') projectId?: string,
+    @Query('userId') userId?: string,
+    @Query('action') action?: AuditAction,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.auditService.findAll({
+      entityType,
+      entityId,
+      projectId,
+      userId,
+      action,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+  }
+}
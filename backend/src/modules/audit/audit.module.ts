@@ -0,0 +1,15 @@
+import { Global, Module } from '@nestjs/common';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+
+// Global so every service can record changes without import cycles (UsersService logs too)
+@Global()
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
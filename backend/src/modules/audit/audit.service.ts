@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditAction, Prisma } from '@prisma/client';
+
+export type AuditEntityType =
+  | 'Project'
+  | 'ProjectUser'
+  | 'Company'
+  | 'Construction'
+  | 'Document'
+  | 'PaymentSchedule'
+  | 'WorkloadPlan'
+  | 'WorkloadActual'
+  | 'WorkloadDistribution'
+  | 'User'
+  | 'Absence'
+  | 'ProductionCalendar'
+  | 'PeriodClose';
+
+export interface AuditEntry {
+  userId?: string | null; // actor, the JWT `sub` of the request
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  projectId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+// Never copied into the log
+const HIDDEN_FIELDS = ['passwordHash'];
+
+// Change bookkeeping that would show up in every update diff
+const IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+@Injectable()
+export class AuditService {
+  constructor(private prisma: PrismaService) {}
+
+  async log(entry: AuditEntry, tx: Prisma.TransactionClient = this.prisma) {
+    const changes = this.diff(entry.before ?? null, entry.after ?? null);
+
+    // An update that did not change anything is not worth a record
+    if (entry.action === AuditAction.Update && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    return tx.auditLog.create({
+      data: {
+        userId: entry.userId ?? null,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        projectId: entry.projectId ?? null,
+        action: entry.action,
+        changes: changes as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  async findAll(filters?: {
+    entityType?: string;
+    entityId?: string;
+    projectId?: string;
+    userId?: string;
+    action?: AuditAction;
+    startDate?: Date;
+    endDate?: Date;
+  }) {
+    const where: any = {};
+
+    if (filters?.entityType) where.entityType = filters.entityType;
+    if (filters?.entityId) where.entityId = filters.entityId;
+    if (filters?.projectId) where.projectId = filters.projectId;
+    if (filters?.userId) where.userId = filters.userId;
+    if (filters?.action) where.action = filters.action;
+
+    if (filters?.startDate || filters?.endDate) {
+      where.createdAt = {};
+      if (filters?.startDate) where.createdAt.gte = new Date(filters.startDate);
+      if (filters?.endDate) where.createdAt.lte = new Date(filters.endDate);
+    }
+
+    return this.prisma.auditLog.findMany({
+      where,
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Field-level diff of two snapshots: { field: { from, to } }, relations are skipped
+  private diff(before: object | null, after: object | null) {
+    const from = this.toScalars(before);
+    const to = this.toScalars(after);
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+    for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      if (IGNORED_FIELDS.includes(field) && before && after) continue;
+
+      const previous = from[field] ?? null;
+      const next = to[field] ?? null;
+      if (previous !== next) {
+        changes[field] = { from: previous, to: next };
+      }
+    }
+
+    return changes;
+  }
+
+  private toScalars(snapshot: object | null) {
+    const result: Record<string, string | number | boolean | null> = {};
+    if (!snapshot) return result;
+
+    for (const [field, value] of Object.entries(snapshot)) {
+      if (HIDDEN_FIELDS.includes(field)) continue;
+
+      if (value === null || value === undefined) {
+        result[field] = null;
+      } else if (value instanceof Date) {
+        result[field] = value.toISOString();
+      } else if (typeof value === 'bigint') {
+        result[field] = value.toString();
+      } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+        result[field] = value as string | number | boolean;
+      }
+    }
+
+    return result;
+  }
+}
@@ -10,10 +10,10 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { CompanyService } from './company.service';
-import { CreateCompanyDto, UpdateCompanyDto } from './dto/company.dto';
+import { CreateCompanyDto, UpdateCompanyDto, CompanyQueryDto } from './dto/company.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { AdminGuard } from '../../common/guards/roles.guard';
-import { CompanyType } from '@prisma/client';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
 @Controller('company')
 @UseGuards(JwtAuthGuard) // All routes require authentication
@@ -21,8 +21,8 @@ export class CompanyController {
   constructor(private readonly companyService: CompanyService) {}
 
   @Get()
-  async findAll(@Query('type') type?: CompanyType) {
-    return this.companyService.findAll(type);
+  async findAll(@Query() query: CompanyQueryDto) {
+    return this.companyService.findAll(query);
   }
 
   @Get(':uuid')
@@ -32,19 +32,23 @@ export class CompanyController {
 
   @Post('create')
   @UseGuards(AdminGuard)
-  async create(@Body() dto: CreateCompanyDto) {
-    return this.companyService.create(dto);
+  async create(@Body() dto: CreateCompanyDto, @CurrentUser('sub') actorId: string) {
+    return this.companyService.create(dto, actorId);
   }
 
   @Patch(':uuid')
   @UseGuards(AdminGuard)
-  async update(@Param('uuid') uuid: string, @Body() dto: UpdateCompanyDto) {
-    return this.companyService.update(uuid, dto);
+  async update(
+    @Param('uuid') uuid: string,
+    @Body() dto: UpdateCompanyDto,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.companyService.update(uuid, dto, actorId);
   }
 
   @Delete(':uuid')
   @UseGuards(AdminGuard)
-  async delete(@Param('uuid') uuid: string) {
-    return this.companyService.delete(uuid);
+  async delete(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.companyService.delete(uuid, actorId);
   }
 }
@@ -1,37 +1,61 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateCompanyDto, UpdateCompanyDto } from './dto/company.dto';
-import { CompanyType } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { CreateCompanyDto, UpdateCompanyDto, CompanyQueryDto } from './dto/company.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { AuditAction } from '@prisma/client';
+
+// Public sort keys of the company list
+const COMPANY_SORT_FIELDS = {
+  name: 'name',
+  type: 'type',
+  email: 'email',
+  createdAt: 'createdAt',
+};
 
 @Injectable()
 export class CompanyService {
-  constructor(private prisma: PrismaService) {}
-
-  async findAll(type?: CompanyType) {
-    const where = type ? { type } : {};
-
-    const companies = await this.prisma.company.findMany({
-      where,
-      include: {
-        _count: {
-          select: { projects: true },
-        },
-      },
-      orderBy: { name: 'asc' },
-    });
-
-    return companies;
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  async findAll(query: CompanyQueryDto) {
+    const where: any = { deletedAt: null };
+    if (query.type) where.type = query.type;
+
+    const search = buildSearchFilter(query.search, ['name', 'email', 'inn', 'address']);
+    if (search) where.OR = search;
+
+    const orderBy = buildOrderBy(query, COMPANY_SORT_FIELDS, { name: 'asc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.company.findMany({
+          where,
+          include: {
+            _count: {
+              select: { projects: { where: { deletedAt: null } } },
+            },
+          },
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.company.count({ where }),
+    );
   }
 
   async findOne(id: string) {
     const company = await this.prisma.company.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         projects: {
+          where: { deletedAt: null },
           select: { id: true, name: true, status: true },
         },
         _count: {
-          select: { projects: true },
+          select: { projects: { where: { deletedAt: null } } },
         },
       },
     });
@@ -43,7 +67,7 @@ export class CompanyService {
     return company;
   }
 
-  async create(dto: CreateCompanyDto) {
+  async create(dto: CreateCompanyDto, actorId?: string) {
     const company = await this.prisma.company.create({
       data: {
         name: dto.name,
@@ -62,12 +86,20 @@ export class CompanyService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Company',
+      entityId: company.id,
+      action: AuditAction.Create,
+      after: company,
+    });
+
     return company;
   }
 
-  async update(id: string, dto: UpdateCompanyDto) {
+  async update(id: string, dto: UpdateCompanyDto, actorId?: string) {
     const company = await this.prisma.company.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!company) {
@@ -93,22 +125,105 @@ export class CompanyService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Company',
+      entityId: id,
+      action: AuditAction.Update,
+      before: company,
+      after: updated,
+    });
+
     return updated;
   }
 
-  async delete(id: string) {
+  async delete(id: string, actorId?: string) {
     const company = await this.prisma.company.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!company) {
       throw new NotFoundException('Company not found');
     }
 
+    // Soft delete: the company can be restored from the trash
+    const deleted = await this.prisma.company.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Company',
+      entityId: id,
+      action: AuditAction.Delete,
+      before: company,
+      after: deleted,
+    });
+
+    return { message: 'Company moved to trash' };
+  }
+
+  // Trash (Admin only)
+  async findDeleted() {
+    return this.prisma.company.findMany({
+      where: { deletedAt: { not: null } },
+      include: {
+        _count: {
+          select: { projects: true },
+        },
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+  }
+
+  async restore(id: string, actorId?: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    if (!company) {
+      throw new NotFoundException('Company not found in trash');
+    }
+
+    const restored = await this.prisma.company.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Company',
+      entityId: id,
+      action: AuditAction.Restore,
+      before: company,
+      after: restored,
+    });
+
+    return restored;
+  }
+
+  async purge(id: string, actorId?: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    if (!company) {
+      throw new NotFoundException('Company not found in trash');
+    }
+
     await this.prisma.company.delete({
       where: { id },
     });
 
-    return { message: 'Company deleted successfully' };
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Company',
+      entityId: id,
+      action: AuditAction.Purge,
+      before: company,
+    });
+
+    return { message: 'Company deleted permanently' };
   }
 }
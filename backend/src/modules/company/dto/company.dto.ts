@@ -1,5 +1,6 @@
 import { IsString, IsEmail, IsOptional, IsEnum } from 'class-validator';
 import { CompanyType } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
 
 export class CreateCompanyDto {
   @IsString()
@@ -103,3 +104,9 @@ export class UpdateCompanyDto {
   @IsOptional()
   postalCode?: string;
 }
+
+export class CompanyQueryDto extends PaginationQueryDto {
+  @IsEnum(CompanyType)
+  @IsOptional()
+  type?: CompanyType;
+}
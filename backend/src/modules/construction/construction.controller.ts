@@ -13,6 +13,9 @@ import { ConstructionService } from './construction.service';
 import { CreateConstructionDto, UpdateConstructionDto } from './dto/construction.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { ManagerGuard } from '../../common/guards/roles.guard';
+import { ProjectPermissionGuard } from '../../common/guards/project-permission.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequireProjectPermission } from '../../common/decorators/project-permission.decorator';
 
 @Controller('construction')
 @UseGuards(JwtAuthGuard) // All routes require authentication
@@ -32,20 +35,27 @@ export class ConstructionController {
   }
 
   @Post('create')
-  @UseGuards(ManagerGuard)
-  async create(@Body() dto: CreateConstructionDto) {
-    return this.constructionService.create(dto);
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('EditConstructions')
+  async create(@Body() dto: CreateConstructionDto, @CurrentUser('sub') actorId: string) {
+    return this.constructionService.create(dto, actorId);
   }
 
   @Patch(':id')
-  @UseGuards(ManagerGuard)
-  async update(@Param('id') id: string, @Body() dto: UpdateConstructionDto) {
-    return this.constructionService.update(id, dto);
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('EditConstructions', 'construction')
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateConstructionDto,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.constructionService.update(id, dto, actorId);
   }
 
   @Delete(':id')
-  @UseGuards(ManagerGuard)
-  async delete(@Param('id') id: string) {
-    return this.constructionService.delete(id);
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('EditConstructions', 'construction')
+  async delete(@Param('id') id: string, @CurrentUser('sub') actorId: string) {
+    return this.constructionService.delete(id, actorId);
   }
 }
@@ -1,10 +1,15 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '@prisma/client';
 import { CreateConstructionDto, UpdateConstructionDto } from './dto/construction.dto';
 
 @Injectable()
 export class ConstructionService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
 
   async findAll(projectId?: string) {
     const where = projectId ? { projectId } : {};
@@ -16,7 +21,7 @@ export class ConstructionService {
           select: { id: true, name: true },
         },
         _count: {
-          select: { documents: true },
+          select: { documents: { where: { deletedAt: null } } },
         },
       },
       orderBy: { createdAt: 'desc' },
@@ -33,6 +38,7 @@ export class ConstructionService {
           select: { id: true, name: true },
         },
         documents: {
+          where: { deletedAt: null },
           include: {
             uploadedBy: {
               select: { id: true, firstName: true, lastName: true },
@@ -49,7 +55,7 @@ export class ConstructionService {
     return construction;
   }
 
-  async create(dto: CreateConstructionDto) {
+  async create(dto: CreateConstructionDto, actorId?: string) {
     const construction = await this.prisma.construction.create({
       data: dto,
       include: {
@@ -59,10 +65,19 @@ export class ConstructionService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Construction',
+      entityId: construction.id,
+      projectId: construction.projectId,
+      action: AuditAction.Create,
+      after: construction,
+    });
+
     return construction;
   }
 
-  async update(id: string, dto: UpdateConstructionDto) {
+  async update(id: string, dto: UpdateConstructionDto, actorId?: string) {
     const construction = await this.prisma.construction.findUnique({
       where: { id },
     });
@@ -81,10 +96,20 @@ export class ConstructionService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Construction',
+      entityId: id,
+      projectId: construction.projectId,
+      action: AuditAction.Update,
+      before: construction,
+      after: updated,
+    });
+
     return updated;
   }
 
-  async delete(id: string) {
+  async delete(id: string, actorId?: string) {
     const construction = await this.prisma.construction.findUnique({
       where: { id },
     });
@@ -97,6 +122,15 @@ export class ConstructionService {
       where: { id },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Construction',
+      entityId: id,
+      projectId: construction.projectId,
+      action: AuditAction.Delete,
+      before: construction,
+    });
+
     return { message: 'Construction deleted successfully' };
   }
 }
@@ -12,13 +12,17 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  ParseIntPipe,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
 import { DocumentService } from './document.service';
+import { DocumentQueryDto } from './dto/document.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
-import { ManagerGuard } from '../../common/guards/roles.guard';
+import { ProjectPermissionGuard } from '../../common/guards/project-permission.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequireProjectPermission } from '../../common/decorators/project-permission.decorator';
+import { ProjectAccessService, ProjectActor } from '../project-access/project-access.service';
 import { diskStorage } from 'multer';
 import { DocumentType } from '@prisma/client';
 import * as path from 'path';
@@ -34,15 +38,14 @@ if (!fs.existsSync(uploadsDir)) {
 @Controller('document')
 @UseGuards(JwtAuthGuard)
 export class DocumentController {
-  constructor(private readonly documentService: DocumentService) {}
+  constructor(
+    private readonly documentService: DocumentService,
+    private readonly projectAccess: ProjectAccessService,
+  ) {}
 
   @Get()
-  async findAll(
-    @Query('projectId') projectId?: string,
-    @Query('constructionId') constructionId?: string,
-    @Query('type') type?: string,
-  ) {
-    return this.documentService.findAll(projectId, constructionId, type);
+  async findAll(@Query() query: DocumentQueryDto) {
+    return this.documentService.findAll(query);
   }
 
   @Get(':id')
@@ -63,8 +66,41 @@ export class DocumentController {
     res.sendFile(filePath);
   }
 
+  @Get(':id/versions')
+  async findVersions(@Param('id') id: string) {
+    return this.documentService.findVersions(id);
+  }
+
+  @Get(':id/versions/:version/download')
+  async downloadVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @Res() res: Response,
+  ) {
+    const { filePath, originalName, mimeType } =
+      await this.documentService.getVersionDownloadInfo(id, version);
+
+    res.setHeader('Content-Type', mimeType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${originalName}"`,
+    );
+    res.sendFile(filePath);
+  }
+
+  @Post(':id/versions/:version/restore')
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageDocuments', 'document')
+  async restoreVersion(
+    @Param('id') id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser('sub') userId: string,
+  ) {
+    return this.documentService.restoreVersion(id, version, userId);
+  }
+
+  // The project comes with the multipart body, so the permission is checked once the file is received
   @Post('upload')
-  @UseGuards(ManagerGuard)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -85,18 +121,27 @@ export class DocumentController {
     @Body('projectId') projectId: string,
     @Body('constructionId') constructionId: string | undefined,
     @Body('type') type: DocumentType,
-    @CurrentUser('sub') userId: string,
+    @CurrentUser() user: ProjectActor,
   ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
     if (!projectId) {
+      fs.unlinkSync(file.path);
       throw new BadRequestException('Project ID is required');
     }
     if (!type) {
+      fs.unlinkSync(file.path);
       throw new BadRequestException('Document type is required');
     }
 
+    try {
+      await this.projectAccess.assertPermission(user, projectId, 'ManageDocuments');
+    } catch (error) {
+      fs.unlinkSync(file.path);
+      throw error;
+    }
+
     return this.documentService.create({
       path: file.filename,
       originalName: file.originalname,
@@ -105,12 +150,13 @@ export class DocumentController {
       projectId,
       constructionId: constructionId || undefined,
       type,
-      uploadedById: userId,
+      uploadedById: user.sub,
     });
   }
 
   @Patch(':id/replace')
-  @UseGuards(ManagerGuard)
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageDocuments', 'document')
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -145,8 +191,9 @@ export class DocumentController {
   }
 
   @Delete(':id')
-  @UseGuards(ManagerGuard)
-  async delete(@Param('id') id: string) {
-    return this.documentService.delete(id);
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageDocuments', 'document')
+  async delete(@Param('id') id: string, @CurrentUser('sub') actorId: string) {
+    return this.documentService.delete(id, actorId);
   }
 }
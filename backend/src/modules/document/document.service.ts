@@ -1,50 +1,82 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { DocumentType } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { DocumentQueryDto } from './dto/document.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { AuditAction, DocumentType, NotificationType, Prisma } from '@prisma/client';
 import * as path from 'path';
 import * as fs from 'fs';
 
+// Relations returned with every document response
+const documentInclude = {
+  uploadedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  project: {
+    select: { id: true, name: true },
+  },
+  construction: {
+    select: { id: true, name: true },
+  },
+  versions: {
+    select: {
+      id: true,
+      version: true,
+      originalName: true,
+      uploadedAt: true,
+      uploadedBy: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+    orderBy: { version: 'desc' },
+  },
+} satisfies Prisma.DocumentInclude;
+
+// Public sort keys of the document list
+const DOCUMENT_SORT_FIELDS = {
+  originalName: 'originalName',
+  type: 'type',
+  version: 'version',
+  uploadedAt: 'uploadedAt',
+};
+
 @Injectable()
 export class DocumentService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationService: NotificationService,
+  ) {}
 
-  async findAll(projectId?: string, constructionId?: string, type?: string) {
-    const where: any = {};
-    if (projectId) where.projectId = projectId;
-    if (constructionId) where.constructionId = constructionId;
-    if (type) where.type = type;
+  async findAll(query: DocumentQueryDto) {
+    const where: any = { deletedAt: null };
+    if (query.projectId) where.projectId = query.projectId;
+    if (query.constructionId) where.constructionId = query.constructionId;
+    if (query.type) where.type = query.type;
 
-    return this.prisma.document.findMany({
-      where,
-      include: {
-        uploadedBy: {
-          select: { id: true, firstName: true, lastName: true },
-        },
-        project: {
-          select: { id: true, name: true },
-        },
-        construction: {
-          select: { id: true, name: true },
-        },
-      },
-      orderBy: { uploadedAt: 'desc' },
-    });
+    const search = buildSearchFilter(query.search, ['originalName']);
+    if (search) where.OR = search;
+
+    const orderBy = buildOrderBy(query, DOCUMENT_SORT_FIELDS, { uploadedAt: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.document.findMany({
+          where,
+          include: documentInclude,
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.document.count({ where }),
+    );
   }
 
   async findOne(id: string) {
     const document = await this.prisma.document.findUnique({
-      where: { id },
-      include: {
-        uploadedBy: {
-          select: { id: true, firstName: true, lastName: true },
-        },
-        project: {
-          select: { id: true, name: true },
-        },
-        construction: {
-          select: { id: true, name: true },
-        },
-      },
+      where: { id, deletedAt: null },
+      include: documentInclude,
     });
 
     if (!document) {
@@ -56,30 +88,14 @@ export class DocumentService {
 
   async getDownloadInfo(id: string) {
     const document = await this.prisma.document.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!document) {
       throw new NotFoundException('Document not found');
     }
 
-    const filePath = path.join(process.cwd(), 'uploads', document.path);
-
-    // For testing, if file doesn't exist, create a dummy file
-    if (!fs.existsSync(filePath)) {
-      const uploadsDir = path.join(process.cwd(), 'uploads');
-      if (!fs.existsSync(uploadsDir)) {
-        fs.mkdirSync(uploadsDir, { recursive: true });
-      }
-      // Create a simple test file
-      fs.writeFileSync(filePath, `Test document content for ${document.originalName}`);
-    }
-
-    return {
-      filePath,
-      originalName: document.originalName,
-      mimeType: document.mimeType,
-    };
+    return this.resolveFile(document);
   }
 
   async create(data: {
@@ -92,7 +108,9 @@ export class DocumentService {
     type: DocumentType;
     uploadedById: string;
   }) {
-    return this.prisma.document.create({
+    const uploadedAt = new Date();
+
+    const document = await this.prisma.document.create({
       data: {
         path: data.path,
         originalName: data.originalName,
@@ -100,23 +118,37 @@ export class DocumentService {
         hashName: data.hashName,
         type: data.type,
         version: 1,
-        uploadedAt: new Date(),
+        uploadedAt,
         projectId: data.projectId,
         constructionId: data.constructionId,
         uploadedById: data.uploadedById,
-      },
-      include: {
-        uploadedBy: {
-          select: { id: true, firstName: true, lastName: true },
-        },
-        project: {
-          select: { id: true, name: true },
-        },
-        construction: {
-          select: { id: true, name: true },
+        versions: {
+          create: {
+            version: 1,
+            path: data.path,
+            originalName: data.originalName,
+            mimeType: data.mimeType,
+            hashName: data.hashName,
+            uploadedAt,
+            uploadedById: data.uploadedById,
+          },
         },
       },
+      include: documentInclude,
     });
+
+    await this.auditService.log({
+      userId: data.uploadedById,
+      entityType: 'Document',
+      entityId: document.id,
+      projectId: document.projectId,
+      action: AuditAction.Create,
+      after: document,
+    });
+
+    await this.notifyProjectMembers(document);
+
+    return document;
   }
 
   async replace(
@@ -130,64 +162,357 @@ export class DocumentService {
     },
   ) {
     const document = await this.prisma.document.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!document) {
       throw new NotFoundException('Document not found');
     }
 
-    // Delete the old file from disk
-    const oldFilePath = path.join(process.cwd(), 'uploads', document.path);
-    if (fs.existsSync(oldFilePath)) {
-      fs.unlinkSync(oldFilePath);
+    // The previous file stays on disk: it is still referenced by its version record
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.ensureCurrentVersionRecorded(tx, document);
+      return this.addVersion(tx, document.id, document.version + 1, data);
+    });
+
+    await this.auditService.log({
+      userId: data.uploadedById,
+      entityType: 'Document',
+      entityId: id,
+      projectId: document.projectId,
+      action: AuditAction.Update,
+      before: document,
+      after: updated,
+    });
+
+    return updated;
+  }
+
+  async findVersions(id: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id, deletedAt: null },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
     }
 
-    // Update document with new file and increment version
-    return this.prisma.document.update({
-      where: { id },
-      data: {
-        path: data.path,
-        originalName: data.originalName,
-        mimeType: data.mimeType,
-        hashName: data.hashName,
-        uploadedById: data.uploadedById,
-        version: document.version + 1,
-        uploadedAt: new Date(),
+    // Documents uploaded before version history existed have no version rows yet
+    await this.ensureCurrentVersionRecorded(this.prisma, document);
+
+    return this.prisma.documentVersion.findMany({
+      where: { documentId: id },
+      include: {
+        uploadedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
       },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  async getVersionDownloadInfo(id: string, version: number) {
+    const documentVersion = await this.findVersion(id, version);
+    return this.resolveFile(documentVersion);
+  }
+
+  async restoreVersion(id: string, version: number, userId: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id, deletedAt: null },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    if (version === document.version) {
+      throw new BadRequestException('This version is already the current one');
+    }
+
+    const documentVersion = await this.findVersion(id, version);
+
+    // Restoring creates a new revision that points at the old file, so history stays linear
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.ensureCurrentVersionRecorded(tx, document);
+      return this.addVersion(tx, document.id, document.version + 1, {
+        path: documentVersion.path,
+        originalName: documentVersion.originalName,
+        mimeType: documentVersion.mimeType,
+        hashName: documentVersion.hashName,
+        uploadedById: userId,
+      });
+    });
+
+    await this.auditService.log({
+      userId,
+      entityType: 'Document',
+      entityId: id,
+      projectId: document.projectId,
+      action: AuditAction.Update,
+      before: document,
+      after: updated,
+    });
+
+    return updated;
+  }
+
+  async delete(id: string, actorId?: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id, deletedAt: null },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    // Soft delete: files stay on disk until the document is purged from the trash
+    const deleted = await this.prisma.document.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Document',
+      entityId: id,
+      projectId: document.projectId,
+      action: AuditAction.Delete,
+      before: document,
+      after: deleted,
+    });
+
+    return { message: 'Document moved to trash' };
+  }
+
+  // Trash (Admin only)
+  async findDeleted() {
+    return this.prisma.document.findMany({
+      where: { deletedAt: { not: null } },
       include: {
         uploadedBy: {
           select: { id: true, firstName: true, lastName: true },
         },
         project: {
-          select: { id: true, name: true },
-        },
-        construction: {
-          select: { id: true, name: true },
+          select: { id: true, name: true, deletedAt: true },
         },
       },
+      orderBy: { deletedAt: 'desc' },
     });
   }
 
-  async delete(id: string) {
+  async restore(id: string, actorId?: string) {
     const document = await this.prisma.document.findUnique({
-      where: { id },
+      where: { id, deletedAt: { not: null } },
     });
 
     if (!document) {
-      throw new NotFoundException('Document not found');
+      throw new NotFoundException('Document not found in trash');
     }
 
-    // Delete the file from disk
-    const filePath = path.join(process.cwd(), 'uploads', document.path);
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+    const restored = await this.prisma.document.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: documentInclude,
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Document',
+      entityId: id,
+      projectId: document.projectId,
+      action: AuditAction.Restore,
+      before: document,
+      after: restored,
+    });
+
+    return restored;
+  }
+
+  async purge(id: string, actorId?: string) {
+    const document = await this.prisma.document.findUnique({
+      where: { id, deletedAt: { not: null } },
+      include: {
+        versions: {
+          select: { path: true },
+        },
+      },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found in trash');
     }
 
     await this.prisma.document.delete({
       where: { id },
     });
 
-    return { message: 'Document deleted successfully' };
+    this.removeFiles([document.path, ...document.versions.map((v) => v.path)]);
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Document',
+      entityId: id,
+      projectId: document.projectId,
+      action: AuditAction.Purge,
+      before: document,
+    });
+
+    return { message: 'Document deleted permanently' };
+  }
+
+  // Delete files from the uploads folder (restored versions share a file, so paths may repeat)
+  removeFiles(filePaths: string[]) {
+    for (const filePath of new Set(filePaths)) {
+      const fullPath = path.join(process.cwd(), 'uploads', filePath);
+      if (fs.existsSync(fullPath)) {
+        fs.unlinkSync(fullPath);
+      }
+    }
+  }
+
+  // Project members and the manager hear about new documents, the uploader does not
+  private async notifyProjectMembers(document: {
+    originalName: string;
+    uploadedById: string | null;
+    project: { id: string; name: string };
+  }) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: document.project.id },
+      select: {
+        managerId: true,
+        projectUsers: { select: { userId: true } },
+      },
+    });
+    if (!project) return;
+
+    const recipients = [project.managerId, ...project.projectUsers.map((pu) => pu.userId)].filter(
+      (userId): userId is string => !!userId && userId !== document.uploadedById,
+    );
+
+    await this.notificationService.notifyMany(recipients, {
+      type: NotificationType.DocumentUploaded,
+      data: {
+        projectId: document.project.id,
+        projectName: document.project.name,
+        documentName: document.originalName,
+      },
+      link: `/projects/${document.project.id}`,
+    });
+  }
+
+  // Versions of trashed documents are not served, like the documents themselves
+  private async findVersion(documentId: string, version: number) {
+    const documentVersion = await this.prisma.documentVersion.findUnique({
+      where: {
+        documentId_version: {
+          documentId,
+          version,
+        },
+        document: { deletedAt: null },
+      },
+    });
+
+    if (!documentVersion) {
+      throw new NotFoundException('Document version not found');
+    }
+
+    return documentVersion;
+  }
+
+  private async ensureCurrentVersionRecorded(
+    tx: Prisma.TransactionClient,
+    document: {
+      id: string;
+      version: number;
+      path: string;
+      originalName: string;
+      mimeType: string;
+      hashName: string;
+      uploadedAt: Date;
+      uploadedById: string | null;
+    },
+  ) {
+    await tx.documentVersion.upsert({
+      where: {
+        documentId_version: {
+          documentId: document.id,
+          version: document.version,
+        },
+      },
+      update: {},
+      create: {
+        documentId: document.id,
+        version: document.version,
+        path: document.path,
+        originalName: document.originalName,
+        mimeType: document.mimeType,
+        hashName: document.hashName,
+        uploadedAt: document.uploadedAt,
+        uploadedById: document.uploadedById,
+      },
+    });
+  }
+
+  private async addVersion(
+    tx: Prisma.TransactionClient,
+    documentId: string,
+    version: number,
+    data: {
+      path: string;
+      originalName: string;
+      mimeType: string;
+      hashName: string;
+      uploadedById: string;
+    },
+  ) {
+    const uploadedAt = new Date();
+
+    await tx.documentVersion.create({
+      data: {
+        documentId,
+        version,
+        path: data.path,
+        originalName: data.originalName,
+        mimeType: data.mimeType,
+        hashName: data.hashName,
+        uploadedAt,
+        uploadedById: data.uploadedById,
+      },
+    });
+
+    // Update document so it mirrors the new current version
+    return tx.document.update({
+      where: { id: documentId },
+      data: {
+        path: data.path,
+        originalName: data.originalName,
+        mimeType: data.mimeType,
+        hashName: data.hashName,
+        uploadedById: data.uploadedById,
+        version,
+        uploadedAt,
+      },
+      include: documentInclude,
+    });
+  }
+
+  private resolveFile(file: { path: string; originalName: string; mimeType: string }) {
+    const filePath = path.join(process.cwd(), 'uploads', file.path);
+
+    // For testing, if file doesn't exist, create a dummy file
+    if (!fs.existsSync(filePath)) {
+      const uploadsDir = path.join(process.cwd(), 'uploads');
+      if (!fs.existsSync(uploadsDir)) {
+        fs.mkdirSync(uploadsDir, { recursive: true });
+      }
+      // Create a simple test file
+      fs.writeFileSync(filePath, `Test document content for ${file.originalName}`);
+    }
+
+    return {
+      filePath,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+    };
   }
 }
@@ -0,0 +1,17 @@
+import { IsString, IsOptional, IsEnum } from 'class-validator';
+import { DocumentType } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+
+export class DocumentQueryDto extends PaginationQueryDto {
+  @IsString()
+  @IsOptional()
+  projectId?: string;
+
+  @IsString()
+  @IsOptional()
+  constructionId?: string;
+
+  @IsEnum(DocumentType)
+  @IsOptional()
+  type?: DocumentType;
+}
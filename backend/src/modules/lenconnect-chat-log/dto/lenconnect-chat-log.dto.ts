@@ -0,0 +1,17 @@
+import { IsString, IsOptional, IsEnum } from 'class-validator';
+import { ChatRequestType, ChatRole } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+
+export class ChatLogQueryDto extends PaginationQueryDto {
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsEnum(ChatRequestType)
+  @IsOptional()
+  requestType?: ChatRequestType;
+
+  @IsEnum(ChatRole)
+  @IsOptional()
+  role?: ChatRole;
+}
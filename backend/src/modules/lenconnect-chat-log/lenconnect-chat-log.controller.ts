@@ -2,9 +2,11 @@ import {
   Controller,
   Get,
   Param,
+  Query,
   UseGuards,
 } from '@nestjs/common';
 import { LenconnectChatLogService } from './lenconnect-chat-log.service';
+import { ChatLogQueryDto } from './dto/lenconnect-chat-log.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { AdminGuard } from '../../common/guards/roles.guard';
 import { ChatRequestType } from '@prisma/client';
@@ -15,8 +17,8 @@ export class LenconnectChatLogController {
   constructor(private readonly chatLogService: LenconnectChatLogService) {}
 
   @Get()
-  async findAll() {
-    return this.chatLogService.findAll();
+  async findAll(@Query() query: ChatLogQueryDto) {
+    return this.chatLogService.findAll(query);
   }
 
   @Get(':uuid')
@@ -1,22 +1,63 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { ChatRequestType } from '@prisma/client';
+import { ChatLogQueryDto } from './dto/lenconnect-chat-log.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { ChatRequestType, ChatRole } from '@prisma/client';
+
+// Public sort keys of the chat log list
+const CHAT_LOG_SORT_FIELDS = {
+  createdAt: 'createdAt',
+  role: 'role',
+  requestType: 'requestType',
+  user: 'user.lastName',
+};
 
 @Injectable()
 export class LenconnectChatLogService {
   constructor(private prisma: PrismaService) {}
 
-  async findAll() {
-    const logs = await this.prisma.lenconnectChatLog.findMany({
-      include: {
-        user: {
-          select: { id: true, firstName: true, lastName: true, email: true },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
+  async create(data: {
+    userId: string;
+    role: ChatRole;
+    content: string;
+    requestType: ChatRequestType;
+  }) {
+    return this.prisma.lenconnectChatLog.create({
+      data,
     });
+  }
 
-    return logs;
+  async findAll(query: ChatLogQueryDto) {
+    const where: any = {};
+    if (query.userId) where.userId = query.userId;
+    if (query.requestType) where.requestType = query.requestType;
+    if (query.role) where.role = query.role;
+
+    const search = buildSearchFilter(query.search, [
+      'content',
+      'user.firstName',
+      'user.lastName',
+      'user.email',
+    ]);
+    if (search) where.OR = search;
+
+    const orderBy = buildOrderBy(query, CHAT_LOG_SORT_FIELDS, { createdAt: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.lenconnectChatLog.findMany({
+          where,
+          include: {
+            user: {
+              select: { id: true, firstName: true, lastName: true, email: true },
+            },
+          },
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.lenconnectChatLog.count({ where }),
+    );
   }
 
   async findOne(id: string) {
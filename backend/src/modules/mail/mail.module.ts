@@ -0,0 +1,36 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './mail.types';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        if (configService.get<string>('MAIL_TRANSPORT') === 'smtp') {
+          return new SmtpMailTransport({
+            host: configService.get<string>('SMTP_HOST') || 'localhost',
+            port: Number(configService.get<string>('SMTP_PORT') || 1025),
+            secure: configService.get<string>('SMTP_SECURE') === 'true',
+            user: configService.get<string>('SMTP_USER'),
+            password: configService.get<string>('SMTP_PASSWORD'),
+          });
+        }
+
+        // Default: file sink, messages land in MAIL_FILE_DIR (mail-outbox by default)
+        return new FileMailTransport(
+          path.resolve(process.cwd(), configService.get<string>('MAIL_FILE_DIR') || 'mail-outbox'),
+        );
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,24 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './mail.types';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private transport: MailTransport,
+    private configService: ConfigService,
+  ) {}
+
+  async send(message: MailMessage) {
+    const from = this.configService.get<string>('MAIL_FROM') || 'ProjectDB <noreply@localhost>';
+
+    try {
+      await this.transport.send({ ...message, from });
+    } catch (error) {
+      this.logger.error(`Failed to send mail to ${message.to}: ${error}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { MailMessage, MailTransport } from '../mail.types';
+
+// Writes every message to a text file instead of sending it, for development and servers without SMTP
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to}.txt`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.promises.writeFile(path.join(this.directory, fileName), content);
+  }
+}
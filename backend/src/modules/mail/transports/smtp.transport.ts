@@ -0,0 +1,28 @@
+import * as nodemailer from 'nodemailer';
+import { MailMessage, MailTransport } from '../mail.types';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+// Real SMTP server or a local stand-in (MailHog, Mailpit) listening without auth
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    await this.transporter.sendMail(message);
+  }
+}
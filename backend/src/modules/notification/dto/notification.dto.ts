@@ -0,0 +1,11 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+
+export class NotificationQueryDto extends PaginationQueryDto {
+  // Query strings arrive as text, implicit conversion would turn "false" into true
+  @Transform(({ obj }) => obj.unreadOnly === 'true' || obj.unreadOnly === true)
+  @IsBoolean()
+  @IsOptional()
+  unreadOnly?: boolean;
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Patch, Param, Query, UseGuards } from '@nestjs/common';
+import { NotificationService } from './notification.service';
+import { NotificationQueryDto } from './dto/notification.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller('notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationController {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Get()
+  async findAll(@CurrentUser('sub') userId: string, @Query() query: NotificationQueryDto) {
+    return this.notificationService.findForUser(userId, query);
+  }
+
+  @Get('unread-count')
+  async getUnreadCount(@CurrentUser('sub') userId: string) {
+    return this.notificationService.getUnreadCount(userId);
+  }
+
+  @Patch('read-all')
+  async markAllAsRead(@CurrentUser('sub') userId: string) {
+    return this.notificationService.markAllAsRead(userId);
+  }
+
+  @Patch(':id/read')
+  async markAsRead(@Param('id') id: string, @CurrentUser('sub') userId: string) {
+    return this.notificationService.markAsRead(id, userId);
+  }
+}
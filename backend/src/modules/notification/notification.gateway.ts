@@ -0,0 +1,63 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { OnGatewayConnection, OnGatewayInit, WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Namespace, Socket } from 'socket.io';
+import { corsOrigin } from '../../common/utils/cors';
+
+// Real-time delivery; clients authenticate with the same access token as the REST API
+@WebSocketGateway({ namespace: '/notifications', cors: { origin: corsOrigin, credentials: true } })
+export class NotificationGateway implements OnGatewayInit, OnGatewayConnection {
+  private readonly logger = new Logger(NotificationGateway.name);
+
+  @WebSocketServer()
+  server: Namespace;
+
+  constructor(
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  afterInit(server: Namespace) {
+    // Rejected handshakes reach the client as connect_error
+    server.use(async (socket, next) => {
+      const token = socket.handshake.auth?.token || this.extractBearer(socket.handshake.headers.authorization);
+      if (!token) {
+        return next(new Error('No token provided'));
+      }
+
+      try {
+        const payload = await this.jwtService.verifyAsync(token, {
+          secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
+        });
+        socket.data.userId = payload.sub;
+        next();
+      } catch {
+        next(new Error('Invalid or expired token'));
+      }
+    });
+  }
+
+  handleConnection(socket: Socket) {
+    socket.join(this.room(socket.data.userId));
+  }
+
+  sendToUser(userId: string, event: string, payload: unknown) {
+    // The server is not set when the gateway is not initialised (e.g. in scripts)
+    if (!this.server) return;
+    try {
+      this.server.to(this.room(userId)).emit(event, payload);
+    } catch (error) {
+      this.logger.warn(`Failed to push ${event} to user ${userId}: ${error}`);
+    }
+  }
+
+  private room(userId: string) {
+    return `user:${userId}`;
+  }
+
+  private extractBearer(header?: string) {
+    const [type, token] = header?.split(' ') ?? [];
+    return type === 'Bearer' ? token : undefined;
+  }
+}
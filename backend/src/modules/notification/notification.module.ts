@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { NotificationController } from './notification.controller';
+import { NotificationService } from './notification.service';
+import { NotificationGateway } from './notification.gateway';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+
+// Global like AuditModule, any service may notify users
+@Global()
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [NotificationController],
+  providers: [NotificationService, NotificationGateway],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
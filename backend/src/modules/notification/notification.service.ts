@@ -0,0 +1,114 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationGateway } from './notification.gateway';
+import { NotificationQueryDto } from './dto/notification.dto';
+import { buildOrderBy, paginate } from '../../common/utils/pagination';
+import { NotificationType, Prisma } from '@prisma/client';
+
+export interface NotificationInput {
+  userId: string;
+  type: NotificationType;
+  data?: Record<string, unknown>;
+  link?: string;
+}
+
+// Public sort keys of the notification list
+const NOTIFICATION_SORT_FIELDS = {
+  createdAt: 'createdAt',
+  type: 'type',
+};
+
+@Injectable()
+export class NotificationService {
+  constructor(
+    private prisma: PrismaService,
+    private gateway: NotificationGateway,
+  ) {}
+
+  async notify(input: NotificationInput) {
+    const notification = await this.prisma.notification.create({
+      data: {
+        userId: input.userId,
+        type: input.type,
+        data: input.data as Prisma.InputJsonValue,
+        link: input.link,
+      },
+    });
+
+    this.gateway.sendToUser(input.userId, 'notification', notification);
+
+    return notification;
+  }
+
+  // Same notification for several users; the actor of the change is usually excluded by the caller
+  async notifyMany(userIds: string[], input: Omit<NotificationInput, 'userId'>) {
+    for (const userId of new Set(userIds)) {
+      await this.notify({ ...input, userId });
+    }
+  }
+
+  async findForUser(userId: string, query: NotificationQueryDto) {
+    const where: any = { userId };
+    if (query.unreadOnly) where.readAt = null;
+
+    const orderBy = buildOrderBy(query, NOTIFICATION_SORT_FIELDS, { createdAt: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.notification.findMany({
+          where,
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.notification.count({ where }),
+    );
+  }
+
+  async getUnreadCount(userId: string) {
+    const count = await this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+
+    return { count };
+  }
+
+  async markAsRead(id: string, userId: string) {
+    const notification = await this.prisma.notification.findUnique({
+      where: { id },
+    });
+
+    // Someone else's notification is reported as missing, not as forbidden
+    if (!notification || notification.userId !== userId) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    const updated = notification.readAt
+      ? notification
+      : await this.prisma.notification.update({
+          where: { id },
+          data: { readAt: new Date() },
+        });
+
+    await this.pushUnreadCount(userId);
+
+    return updated;
+  }
+
+  async markAllAsRead(userId: string) {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    await this.pushUnreadCount(userId);
+
+    return { count: result.count };
+  }
+
+  // Keeps other open tabs of the user in sync
+  private async pushUnreadCount(userId: string) {
+    const { count } = await this.getUnreadCount(userId);
+    this.gateway.sendToUser(userId, 'unread-count', { count });
+  }
+}
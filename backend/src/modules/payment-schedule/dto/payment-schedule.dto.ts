@@ -0,0 +1,130 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsDateString,
+  IsNumber,
+  IsBoolean,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import { PaymentType } from '@prisma/client';
+
+// UUID regex pattern that accepts any UUID-like format
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class CreatePaymentScheduleDto {
+  @Matches(UUID_REGEX, { message: 'projectId must be a valid UUID format' })
+  projectId: string;
+
+  @IsEnum(PaymentType)
+  type: PaymentType;
+
+  @IsString()
+  name: string;
+
+  // Can be omitted when percentage is given and the project has a cost
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  amount?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  percentage?: number;
+
+  @IsDateString()
+  expectedDate: string;
+
+  @IsDateString()
+  @IsOptional()
+  actualDate?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isPaid?: boolean;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class UpdatePaymentScheduleDto {
+  @IsEnum(PaymentType)
+  @IsOptional()
+  type?: PaymentType;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  amount?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  percentage?: number;
+
+  @IsDateString()
+  @IsOptional()
+  expectedDate?: string;
+
+  @IsDateString()
+  @IsOptional()
+  actualDate?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isPaid?: boolean;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class GeneratePaymentScheduleDto {
+  @Matches(UUID_REGEX, { message: 'projectId must be a valid UUID format' })
+  projectId: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  advancePercentage?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  mainPercentage?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  @IsOptional()
+  finalPercentage?: number;
+
+  @IsString()
+  @IsOptional()
+  advanceName?: string;
+
+  @IsString()
+  @IsOptional()
+  mainName?: string;
+
+  @IsString()
+  @IsOptional()
+  finalName?: string;
+
+  // Existing payments are only removed when explicitly requested
+  @IsBoolean()
+  @IsOptional()
+  replaceExisting?: boolean;
+}
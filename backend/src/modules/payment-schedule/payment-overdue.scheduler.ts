@@ -0,0 +1,22 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PaymentScheduleService } from './payment-schedule.service';
+
+@Injectable()
+export class PaymentOverdueScheduler {
+  private readonly logger = new Logger(PaymentOverdueScheduler.name);
+
+  constructor(private paymentScheduleService: PaymentScheduleService) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_9AM)
+  async checkOverduePayments() {
+    try {
+      const { notified } = await this.paymentScheduleService.notifyOverduePayments();
+      if (notified > 0) {
+        this.logger.log(`Overdue payment notifications sent: ${notified}`);
+      }
+    } catch (error) {
+      this.logger.error(`Overdue payment check failed: ${error}`);
+    }
+  }
+}
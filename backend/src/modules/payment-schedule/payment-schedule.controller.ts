@@ -12,7 +12,14 @@ import {
 import { PaymentScheduleService } from './payment-schedule.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { ManagerGuard } from '../../common/guards/roles.guard';
-import { PaymentType } from '@prisma/client';
+import { ProjectPermissionGuard } from '../../common/guards/project-permission.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequireProjectPermission } from '../../common/decorators/project-permission.decorator';
+import {
+  CreatePaymentScheduleDto,
+  UpdatePaymentScheduleDto,
+  GeneratePaymentScheduleDto,
+} from './dto/payment-schedule.dto';
 
 @Controller('payment-schedule')
 @UseGuards(JwtAuthGuard)
@@ -20,57 +27,52 @@ export class PaymentScheduleController {
   constructor(private readonly paymentScheduleService: PaymentScheduleService) {}
 
   @Get()
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ViewPayments')
   async findAll(@Query('projectId') projectId?: string) {
     return this.paymentScheduleService.findAll(projectId);
   }
 
   @Get(':id')
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ViewPayments', 'paymentSchedule')
   async findOne(@Param('id') id: string) {
     return this.paymentScheduleService.findOne(id);
   }
 
+  @Get('project/:projectId/validation')
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ViewPayments')
+  async getValidation(@Param('projectId') projectId: string) {
+    return this.paymentScheduleService.getValidation(projectId);
+  }
+
   @Post('create')
   @UseGuards(ManagerGuard)
-  async create(
-    @Body()
-    dto: {
-      projectId: string;
-      type: PaymentType;
-      name: string;
-      amount: number;
-      percentage?: number;
-      expectedDate: Date;
-      actualDate?: Date;
-      isPaid?: boolean;
-      description?: string;
-    },
-  ) {
-    return this.paymentScheduleService.create(dto);
+  async create(@Body() dto: CreatePaymentScheduleDto, @CurrentUser('sub') actorId: string) {
+    return this.paymentScheduleService.create(dto, actorId);
+  }
+
+  @Post('generate')
+  @UseGuards(ManagerGuard)
+  async generate(@Body() dto: GeneratePaymentScheduleDto, @CurrentUser('sub') actorId: string) {
+    return this.paymentScheduleService.generate(dto, actorId);
   }
 
   @Patch(':id')
   @UseGuards(ManagerGuard)
   async update(
     @Param('id') id: string,
-    @Body()
-    dto: {
-      type?: PaymentType;
-      name?: string;
-      amount?: number;
-      percentage?: number;
-      expectedDate?: Date;
-      actualDate?: Date;
-      isPaid?: boolean;
-      description?: string;
-    },
+    @Body() dto: UpdatePaymentScheduleDto,
+    @CurrentUser('sub') actorId: string,
   ) {
-    return this.paymentScheduleService.update(id, dto);
+    return this.paymentScheduleService.update(id, dto, actorId);
   }
 
   @Delete(':id')
   @UseGuards(ManagerGuard)
-  async delete(@Param('id') id: string) {
-    return this.paymentScheduleService.delete(id);
+  async delete(@Param('id') id: string, @CurrentUser('sub') actorId: string) {
+    return this.paymentScheduleService.delete(id, actorId);
   }
 
   @Patch(':id/mark-paid')
@@ -78,7 +80,8 @@ export class PaymentScheduleController {
   async markAsPaid(
     @Param('id') id: string,
     @Body() dto: { actualDate?: Date },
+    @CurrentUser('sub') actorId: string,
   ) {
-    return this.paymentScheduleService.markAsPaid(id, dto.actualDate);
+    return this.paymentScheduleService.markAsPaid(id, dto.actualDate, actorId);
   }
 }
@@ -1,13 +1,14 @@
 import { Module } from '@nestjs/common';
 import { PaymentScheduleController } from './payment-schedule.controller';
 import { PaymentScheduleService } from './payment-schedule.service';
+import { PaymentOverdueScheduler } from './payment-overdue.scheduler';
 import { PrismaModule } from '../prisma/prisma.module';
 import { UsersModule } from '../users/users.module';
 
 @Module({
   imports: [PrismaModule, UsersModule],
   controllers: [PaymentScheduleController],
-  providers: [PaymentScheduleService],
+  providers: [PaymentScheduleService, PaymentOverdueScheduler],
   exports: [PaymentScheduleService],
 })
 export class PaymentScheduleModule {}
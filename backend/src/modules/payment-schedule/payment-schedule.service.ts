@@ -1,10 +1,35 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { PaymentType } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { AuditAction, NotificationType, PaymentType, Prisma } from '@prisma/client';
+import {
+  CreatePaymentScheduleDto,
+  UpdatePaymentScheduleDto,
+  GeneratePaymentScheduleDto,
+} from './dto/payment-schedule.dto';
+
+// Amounts are money values: anything closer than one kopeck is considered equal
+const AMOUNT_TOLERANCE = 0.01;
+
+// Percentages are stored with two decimals
+const PERCENTAGE_TOLERANCE = 0.01;
+
+// Payment types that may appear at most once in a project's schedule
+const SINGLE_PAYMENT_TYPES: PaymentType[] = [PaymentType.Advance, PaymentType.FinalPayment];
 
 @Injectable()
 export class PaymentScheduleService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationService: NotificationService,
+  ) {}
 
   async findAll(projectId?: string) {
     const where: any = {};
@@ -38,50 +63,52 @@ export class PaymentScheduleService {
     return payment;
   }
 
-  async create(data: {
-    projectId: string;
-    type: PaymentType;
-    name: string;
-    amount: number;
-    percentage?: number;
-    expectedDate: Date;
-    actualDate?: Date;
-    isPaid?: boolean;
-    description?: string;
-  }) {
-    return this.prisma.paymentSchedule.create({
-      data: {
-        projectId: data.projectId,
-        type: data.type,
-        name: data.name,
-        amount: data.amount,
-        percentage: data.percentage,
-        expectedDate: new Date(data.expectedDate),
-        actualDate: data.actualDate ? new Date(data.actualDate) : null,
-        isPaid: data.isPaid ?? false,
-        description: data.description,
-      },
-      include: {
-        project: {
-          select: { id: true, name: true },
+  async create(data: CreatePaymentScheduleDto, actorId?: string) {
+    const project = await this.findProject(data.projectId);
+
+    // The totals are checked against the payments the insert commits with
+    const payment = await this.inScheduleTransaction(async (tx) => {
+      const existing = await tx.paymentSchedule.findMany({
+        where: { projectId: data.projectId },
+      });
+
+      this.validateUniqueType(data.type, existing);
+      const { amount, percentage } = this.resolveAmount(project.cost, data.amount, data.percentage);
+      this.validateTotal(project.cost, existing, amount, percentage);
+
+      return tx.paymentSchedule.create({
+        data: {
+          projectId: data.projectId,
+          type: data.type,
+          name: data.name,
+          amount,
+          percentage,
+          expectedDate: new Date(data.expectedDate),
+          actualDate: data.actualDate ? new Date(data.actualDate) : null,
+          isPaid: data.isPaid ?? false,
+          description: data.description,
         },
-      },
+        include: {
+          project: {
+            select: { id: true, name: true },
+          },
+        },
+      });
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'PaymentSchedule',
+      entityId: payment.id,
+      projectId: payment.projectId,
+      action: AuditAction.Create,
+      after: payment,
     });
+
+    return payment;
   }
 
-  async update(
-    id: string,
-    data: {
-      type?: PaymentType;
-      name?: string;
-      amount?: number;
-      percentage?: number;
-      expectedDate?: Date;
-      actualDate?: Date;
-      isPaid?: boolean;
-      description?: string;
-    },
-  ) {
+  async update(id: string, data: UpdatePaymentScheduleDto, actorId?: string) {
     const payment = await this.prisma.paymentSchedule.findUnique({
       where: { id },
     });
@@ -90,27 +117,68 @@ export class PaymentScheduleService {
       throw new NotFoundException('Payment schedule not found');
     }
 
-    return this.prisma.paymentSchedule.update({
-      where: { id },
-      data: {
-        type: data.type,
-        name: data.name,
-        amount: data.amount,
-        percentage: data.percentage,
-        expectedDate: data.expectedDate ? new Date(data.expectedDate) : undefined,
-        actualDate: data.actualDate ? new Date(data.actualDate) : undefined,
-        isPaid: data.isPaid,
-        description: data.description,
-      },
-      include: {
-        project: {
-          select: { id: true, name: true },
+    const project = await this.findProject(payment.projectId);
+
+    const updated = await this.inScheduleTransaction(async (tx) => {
+      const others = await tx.paymentSchedule.findMany({
+        where: { projectId: payment.projectId, id: { not: id } },
+      });
+
+      if (data.type) {
+        this.validateUniqueType(data.type, others);
+      }
+
+      // Recalculate the pair only when one of its values changes
+      let amount: number | undefined;
+      let percentage: number | null | undefined;
+      if (data.amount !== undefined || data.percentage !== undefined) {
+        const resolved = this.resolveAmount(
+          project.cost,
+          data.amount,
+          // A new amount alone re-derives the percentage instead of keeping the stale one
+          data.percentage ?? (data.amount === undefined ? payment.percentage ?? undefined : undefined),
+        );
+        amount = resolved.amount;
+        percentage = resolved.percentage;
+        this.validateTotal(project.cost, others, amount, percentage);
+      }
+
+      return tx.paymentSchedule.update({
+        where: { id },
+        data: {
+          type: data.type,
+          name: data.name,
+          amount,
+          percentage,
+          expectedDate: data.expectedDate ? new Date(data.expectedDate) : undefined,
+          actualDate: data.actualDate ? new Date(data.actualDate) : undefined,
+          isPaid: data.isPaid,
+          description: data.description,
+          // A moved due date may become overdue again later
+          overdueNotifiedAt: data.expectedDate ? null : undefined,
         },
-      },
+        include: {
+          project: {
+            select: { id: true, name: true },
+          },
+        },
+      });
     });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'PaymentSchedule',
+      entityId: id,
+      projectId: payment.projectId,
+      action: AuditAction.Update,
+      before: payment,
+      after: updated,
+    });
+
+    return updated;
   }
 
-  async delete(id: string) {
+  async delete(id: string, actorId?: string) {
     const payment = await this.prisma.paymentSchedule.findUnique({
       where: { id },
     });
@@ -123,10 +191,19 @@ export class PaymentScheduleService {
       where: { id },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'PaymentSchedule',
+      entityId: id,
+      projectId: payment.projectId,
+      action: AuditAction.Delete,
+      before: payment,
+    });
+
     return { message: 'Payment schedule deleted successfully' };
   }
 
-  async markAsPaid(id: string, actualDate?: Date) {
+  async markAsPaid(id: string, actualDate?: Date, actorId?: string) {
     const payment = await this.prisma.paymentSchedule.findUnique({
       where: { id },
     });
@@ -135,7 +212,7 @@ export class PaymentScheduleService {
       throw new NotFoundException('Payment schedule not found');
     }
 
-    return this.prisma.paymentSchedule.update({
+    const updated = await this.prisma.paymentSchedule.update({
       where: { id },
       data: {
         isPaid: true,
@@ -147,5 +224,308 @@ export class PaymentScheduleService {
         },
       },
     });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'PaymentSchedule',
+      entityId: id,
+      projectId: payment.projectId,
+      action: AuditAction.Update,
+      before: payment,
+      after: updated,
+    });
+
+    return updated;
+  }
+
+  // Report how the project's schedule compares with the contract value
+  async getValidation(projectId: string) {
+    const project = await this.findProject(projectId);
+    const payments = await this.prisma.paymentSchedule.findMany({
+      where: { projectId },
+    });
+
+    const scheduledTotal = this.roundAmount(payments.reduce((sum, p) => sum + p.amount, 0));
+    const percentageTotal = Math.round(payments.reduce((sum, p) => sum + (p.percentage || 0), 0) * 100) / 100;
+    const issues: string[] = [];
+
+    if (project.cost === null) {
+      issues.push('Project cost is not set');
+    } else {
+      if (scheduledTotal > project.cost + AMOUNT_TOLERANCE) {
+        issues.push('Scheduled payments exceed the project cost');
+      } else if (scheduledTotal < project.cost - AMOUNT_TOLERANCE) {
+        issues.push('Scheduled payments do not cover the project cost');
+      }
+
+      for (const payment of payments) {
+        if (payment.percentage !== null && !this.isConsistent(project.cost, payment.amount, payment.percentage)) {
+          issues.push(`Amount and percentage of "${payment.name}" do not match`);
+        }
+      }
+
+      // Rounded percentages of single payments may add up to a share other than the amounts cover
+      if (project.cost > 0 && payments.every((p) => p.percentage !== null)) {
+        const coveredPercentage = Math.round((scheduledTotal / project.cost) * 100 * 100) / 100;
+        if (Math.abs(percentageTotal - coveredPercentage) > PERCENTAGE_TOLERANCE) {
+          issues.push(
+            `Payment percentages add up to ${percentageTotal}% while the amounts cover ${coveredPercentage}% of the cost`,
+          );
+        }
+      }
+    }
+
+    if (percentageTotal > 100 + PERCENTAGE_TOLERANCE) {
+      issues.push('Payment percentages exceed 100%');
+    }
+
+    for (const type of SINGLE_PAYMENT_TYPES) {
+      if (payments.filter((p) => p.type === type).length > 1) {
+        issues.push(`More than one ${type} payment is scheduled`);
+      }
+    }
+
+    return {
+      projectId,
+      projectCost: project.cost,
+      scheduledTotal,
+      percentageTotal,
+      remaining: project.cost !== null ? this.roundAmount(project.cost - scheduledTotal) : null,
+      isValid: issues.length === 0,
+      issues,
+    };
+  }
+
+  // Build a standard Advance / Main / Final schedule from a percentage split and the contract dates
+  async generate(dto: GeneratePaymentScheduleDto, actorId?: string) {
+    const project = await this.findProject(dto.projectId);
+
+    if (project.cost === null || project.cost <= 0) {
+      throw new BadRequestException('Project cost must be set to generate a payment schedule');
+    }
+
+    const advancePercentage = dto.advancePercentage ?? 30;
+    const mainPercentage = dto.mainPercentage ?? 50;
+    const finalPercentage = dto.finalPercentage ?? 20;
+
+    if (Math.abs(advancePercentage + mainPercentage + finalPercentage - 100) > AMOUNT_TOLERANCE) {
+      throw new BadRequestException('Advance, main and final percentages must add up to 100');
+    }
+
+    // Main payment is expected halfway through the contract
+    const contractDate = project.contractDate;
+    const expirationDate = project.expirationDate;
+    const midpointDate = new Date((contractDate.getTime() + expirationDate.getTime()) / 2);
+
+    const template = [
+      { type: PaymentType.Advance, name: dto.advanceName || 'Advance', percentage: advancePercentage, expectedDate: contractDate },
+      { type: PaymentType.MainPayment, name: dto.mainName || 'Main payment', percentage: mainPercentage, expectedDate: midpointDate },
+      { type: PaymentType.FinalPayment, name: dto.finalName || 'Final payment', percentage: finalPercentage, expectedDate: expirationDate },
+    ].filter((item) => item.percentage > 0);
+
+    // The last payment takes the rounding remainder so the total equals the cost exactly
+    let allocated = 0;
+    const payments = template.map((item, index) => {
+      const amount =
+        index === template.length - 1
+          ? this.roundAmount(project.cost! - allocated)
+          : this.roundAmount((project.cost! * item.percentage) / 100);
+      allocated += amount;
+      return { ...item, amount };
+    });
+
+    await this.inScheduleTransaction(async (tx) => {
+      const replaced = await tx.paymentSchedule.findMany({ where: { projectId: dto.projectId } });
+      if (replaced.length > 0 && !dto.replaceExisting) {
+        throw new ConflictException('Project already has a payment schedule');
+      }
+      // Received payments are accounting records, a new schedule must not wipe them
+      if (replaced.some((payment) => payment.isPaid)) {
+        throw new ConflictException('The schedule has paid payments and cannot be replaced');
+      }
+
+      if (replaced.length > 0) {
+        await tx.paymentSchedule.deleteMany({ where: { projectId: dto.projectId } });
+
+        for (const payment of replaced) {
+          await this.auditService.log(
+            {
+              userId: actorId,
+              entityType: 'PaymentSchedule',
+              entityId: payment.id,
+              projectId: payment.projectId,
+              action: AuditAction.Delete,
+              before: payment,
+            },
+            tx,
+          );
+        }
+      }
+
+      const created = await tx.paymentSchedule.createManyAndReturn({
+        data: payments.map((payment) => ({
+          projectId: dto.projectId,
+          type: payment.type,
+          name: payment.name,
+          amount: payment.amount,
+          percentage: payment.percentage,
+          expectedDate: payment.expectedDate,
+        })),
+      });
+
+      for (const payment of created) {
+        await this.auditService.log(
+          {
+            userId: actorId,
+            entityType: 'PaymentSchedule',
+            entityId: payment.id,
+            projectId: payment.projectId,
+            action: AuditAction.Create,
+            after: payment,
+          },
+          tx,
+        );
+      }
+    });
+
+    return this.findAll(dto.projectId);
+  }
+
+  // Tells project managers about unpaid payments past their expected date, once per payment
+  async notifyOverduePayments() {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const overdue = await this.prisma.paymentSchedule.findMany({
+      where: {
+        isPaid: false,
+        expectedDate: { lt: today },
+        overdueNotifiedAt: null,
+        project: { deletedAt: null, managerId: { not: null } },
+      },
+      include: {
+        project: {
+          select: { id: true, name: true, managerId: true },
+        },
+      },
+    });
+
+    for (const payment of overdue) {
+      await this.notificationService.notify({
+        userId: payment.project.managerId!,
+        type: NotificationType.PaymentOverdue,
+        data: {
+          projectId: payment.project.id,
+          projectName: payment.project.name,
+          paymentName: payment.name,
+          amount: payment.amount,
+          expectedDate: payment.expectedDate,
+        },
+        link: `/projects/${payment.project.id}`,
+      });
+      await this.prisma.paymentSchedule.update({
+        where: { id: payment.id },
+        data: { overdueNotifiedAt: new Date() },
+      });
+    }
+
+    return { notified: overdue.length };
+  }
+
+  // Serializable, so two parallel changes cannot both pass the total checks.
+  // Of two colliding requests the second fails and is asked to retry.
+  private async inScheduleTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>) {
+    try {
+      return await this.prisma.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        throw new ConflictException('The payment schedule was changed at the same time, please try again');
+      }
+      throw error;
+    }
+  }
+
+  private async findProject(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId, deletedAt: null },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  private validateUniqueType(type: PaymentType, others: { type: PaymentType }[]) {
+    if (SINGLE_PAYMENT_TYPES.includes(type) && others.some((p) => p.type === type)) {
+      throw new ConflictException(`Project already has a ${type} payment`);
+    }
+  }
+
+  // Derive the missing value of the amount/percentage pair from the project cost, or check that both agree
+  private resolveAmount(cost: number | null, amount?: number, percentage?: number) {
+    if (cost === null || cost <= 0) {
+      if (amount === undefined) {
+        throw new BadRequestException('Amount is required when the project cost is not set');
+      }
+      return { amount, percentage: percentage ?? null };
+    }
+
+    if (amount === undefined && percentage === undefined) {
+      throw new BadRequestException('Either amount or percentage is required');
+    }
+
+    if (amount === undefined) {
+      return { amount: this.roundAmount((cost * percentage!) / 100), percentage: percentage! };
+    }
+
+    if (percentage === undefined) {
+      return { amount, percentage: Math.round((amount / cost) * 100 * 100) / 100 };
+    }
+
+    if (!this.isConsistent(cost, amount, percentage)) {
+      throw new BadRequestException('Amount does not match the percentage of the project cost');
+    }
+
+    return { amount, percentage };
+  }
+
+  // A schedule is built one payment at a time, so only overshooting is rejected here;
+  // a total below the cost is reported as the remaining amount by getValidation
+  private validateTotal(
+    cost: number | null,
+    others: { amount: number; percentage: number | null }[],
+    amount: number,
+    percentage: number | null,
+  ) {
+    const percentages = [...others.map((p) => p.percentage), percentage];
+    const percentageTotal = percentages.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+    if (percentageTotal > 100 + PERCENTAGE_TOLERANCE) {
+      throw new BadRequestException(
+        `Payment percentages (${Math.round(percentageTotal * 100) / 100}%) would exceed 100%`,
+      );
+    }
+
+    if (cost === null) {
+      return;
+    }
+
+    const total = others.reduce((sum, p) => sum + p.amount, 0) + amount;
+    if (total > cost + AMOUNT_TOLERANCE) {
+      throw new BadRequestException(
+        `Scheduled payments (${this.roundAmount(total)}) would exceed the project cost (${cost})`,
+      );
+    }
+  }
+
+  private isConsistent(cost: number, amount: number, percentage: number) {
+    // Percentages are stored with two decimals, so allow the matching rounding error on the amount
+    const tolerance = Math.max(AMOUNT_TOLERANCE, cost * 0.00005);
+    return Math.abs((cost * percentage) / 100 - amount) <= tolerance;
+  }
+
+  private roundAmount(value: number) {
+    return Math.round(value * 100) / 100;
   }
 }
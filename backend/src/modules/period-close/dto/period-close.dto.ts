@@ -0,0 +1,15 @@
+import { IsInt, IsString, Max, MaxLength, Min, MinLength } from 'class-validator';
+
+export class PeriodYearQueryDto {
+  @IsInt()
+  @Min(2000)
+  @Max(2100)
+  year: number;
+}
+
+export class ReopenPeriodDto {
+  @IsString()
+  @MinLength(3)
+  @MaxLength(1000)
+  reason: string;
+}
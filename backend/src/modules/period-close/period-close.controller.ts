@@ -0,0 +1,40 @@
+import { Controller, Get, Post, Body, Param, ParseIntPipe, Query, UseGuards } from '@nestjs/common';
+import { PeriodCloseService } from './period-close.service';
+import { PeriodYearQueryDto, ReopenPeriodDto } from './dto/period-close.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { AdminGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller('period-close')
+@UseGuards(JwtAuthGuard)
+export class PeriodCloseController {
+  constructor(private readonly periodCloseService: PeriodCloseService) {}
+
+  // Any user - which months are closed, e.g. to show reports as read-only
+  @Get()
+  async getYear(@Query() query: PeriodYearQueryDto) {
+    return this.periodCloseService.getYear(query.year);
+  }
+
+  // Admin only - freeze the month and store its figures
+  @Post(':year/:month/close')
+  @UseGuards(AdminGuard)
+  async close(
+    @Param('year', ParseIntPipe) year: number,
+    @Param('month', ParseIntPipe) month: number,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.periodCloseService.close(year, month, actorId);
+  }
+
+  @Post(':year/:month/reopen')
+  @UseGuards(AdminGuard)
+  async reopen(
+    @Param('year', ParseIntPipe) year: number,
+    @Param('month', ParseIntPipe) month: number,
+    @Body() dto: ReopenPeriodDto,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.periodCloseService.reopen(year, month, dto.reason, actorId);
+  }
+}
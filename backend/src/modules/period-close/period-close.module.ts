@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PeriodCloseController } from './period-close.controller';
+import { PeriodCloseService } from './period-close.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [PeriodCloseController],
+  providers: [PeriodCloseService],
+  exports: [PeriodCloseService],
+})
+export class PeriodCloseModule {}
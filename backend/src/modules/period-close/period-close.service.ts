@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { AuditAction, Prisma, TimesheetStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+
+// Figures of a month frozen at its close
+export interface PeriodSnapshot {
+  hoursWorked: number;
+  approvedHours: number;
+  plannedHours: number;
+  pendingReview: number; // Distributions still waiting for a manager at the close
+  projects: { id: string; name: string; hours: number; approvedHours: number; plannedHours: number }[];
+  employees: { id: string; firstName: string; lastName: string; hoursWorked: number; approvedHours: number }[];
+}
+
+const PERSON_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Closing a month freezes its workload reports, distributions and workload plans.
+// Only ended months can be closed; changes to a closed month are rejected until it is reopened.
+@Injectable()
+export class PeriodCloseService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  // Every month of the year with its close state
+  async getYear(year: number) {
+    const periods = await this.prisma.periodClose.findMany({
+      where: { year },
+      select: {
+        month: true,
+        closed: true,
+        closedAt: true,
+        reopenedAt: true,
+        reopenReason: true,
+        closedBy: PERSON_SELECT,
+        reopenedBy: PERSON_SELECT,
+      },
+    });
+    const byMonth = new Map(periods.map((period) => [period.month, period]));
+
+    return Array.from({ length: 12 }, (_, i) => {
+      const period = byMonth.get(i + 1);
+      return {
+        year,
+        month: i + 1,
+        closed: period?.closed ?? false,
+        closedAt: period?.closedAt ?? null,
+        closedBy: period?.closedBy ?? null,
+        reopenedAt: period?.reopenedAt ?? null,
+        reopenedBy: period?.reopenedBy ?? null,
+        reopenReason: period?.reopenReason ?? null,
+      };
+    });
+  }
+
+  async close(year: number, month: number, actorId: string) {
+    const { start, end } = this.monthRange(year, month);
+    if (!dayjs().isAfter(dayjs(end.toISOString().slice(0, 10)), 'day')) {
+      throw new BadRequestException('Only months that have ended can be closed');
+    }
+
+    const existing = await this.prisma.periodClose.findUnique({
+      where: { year_month: { year, month } },
+    });
+    if (existing?.closed) {
+      throw new ConflictException('The period is already closed');
+    }
+
+    const snapshot = (await this.buildSnapshot(start, end)) as unknown as Prisma.InputJsonValue;
+    const closedAt = new Date();
+    const period = await this.prisma.periodClose.upsert({
+      where: { year_month: { year, month } },
+      create: { year, month, closedById: actorId, closedAt, snapshot },
+      update: { closed: true, closedById: actorId, closedAt, snapshot },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'PeriodClose',
+      entityId: period.id,
+      action: existing ? AuditAction.Update : AuditAction.Create,
+      before: existing,
+      after: period,
+    });
+
+    return period;
+  }
+
+  async reopen(year: number, month: number, reason: string, actorId: string) {
+    this.monthRange(year, month);
+
+    const existing = await this.prisma.periodClose.findUnique({
+      where: { year_month: { year, month } },
+    });
+    if (!existing?.closed) {
+      throw new BadRequestException('The period is not closed');
+    }
+
+    const period = await this.prisma.periodClose.update({
+      where: { id: existing.id },
+      data: {
+        closed: false,
+        reopenedById: actorId,
+        reopenedAt: new Date(),
+        reopenReason: reason.trim(),
+      },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'PeriodClose',
+      entityId: period.id,
+      action: AuditAction.Update,
+      before: existing,
+      after: period,
+    });
+
+    return period;
+  }
+
+  // Rejects changes to workload reports and plans dated in a closed month
+  async assertOpen(date: Date) {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+
+    const period = await this.prisma.periodClose.findUnique({
+      where: { year_month: { year, month } },
+      select: { closed: true },
+    });
+    if (period?.closed) {
+      throw new ForbiddenException(`The period ${year}-${String(month).padStart(2, '0')} is closed`);
+    }
+  }
+
+  // Closed months between the two dates as YYYY-MM, for checks of many days at once
+  async getClosedMonths(start: Date, end: Date) {
+    const periods = await this.getSnapshots(start, end);
+    return new Set(
+      periods.filter((period) => period.closed).map((period) => `${period.year}-${String(period.month).padStart(2, '0')}`),
+    );
+  }
+
+  // Months between the two dates that have been closed at least once, with the figures of their last close
+  async getSnapshots(start: Date, end: Date) {
+    const from = start.getUTCFullYear() * 12 + start.getUTCMonth();
+    const to = end.getUTCFullYear() * 12 + end.getUTCMonth();
+
+    const periods = await this.prisma.periodClose.findMany({
+      where: { year: { gte: start.getUTCFullYear(), lte: end.getUTCFullYear() } },
+      orderBy: [{ year: 'asc' }, { month: 'asc' }],
+    });
+
+    return periods
+      .filter((period) => {
+        const index = period.year * 12 + period.month - 1;
+        return index >= from && index <= to;
+      })
+      .map((period) => ({ ...period, snapshot: period.snapshot as unknown as PeriodSnapshot }));
+  }
+
+  private async buildSnapshot(start: Date, end: Date): Promise<PeriodSnapshot> {
+    const date = { gte: start, lte: end };
+    const [actuals, distributions, plans] = await Promise.all([
+      this.prisma.workloadActual.findMany({
+        where: { date },
+        select: { hoursWorked: true, user: PERSON_SELECT },
+      }),
+      this.prisma.projectWorkloadDistribution.findMany({
+        where: { workloadActual: { date } },
+        select: {
+          hours: true,
+          status: true,
+          project: { select: { id: true, name: true } },
+          workloadActual: { select: { userId: true } },
+        },
+      }),
+      this.prisma.workloadPlan.findMany({
+        where: { date },
+        select: { hours: true, project: { select: { id: true, name: true } } },
+      }),
+    ]);
+
+    const projects = new Map<string, PeriodSnapshot['projects'][number]>();
+    const projectOf = (project: { id: string; name: string }) => {
+      if (!projects.has(project.id)) {
+        projects.set(project.id, { ...project, hours: 0, approvedHours: 0, plannedHours: 0 });
+      }
+      return projects.get(project.id)!;
+    };
+
+    const employees = new Map<string, PeriodSnapshot['employees'][number]>();
+    for (const actual of actuals) {
+      const employee = employees.get(actual.user.id) ?? { ...actual.user, hoursWorked: 0, approvedHours: 0 };
+      employee.hoursWorked += actual.hoursWorked;
+      employees.set(actual.user.id, employee);
+    }
+
+    for (const distribution of distributions) {
+      const project = projectOf(distribution.project);
+      project.hours += distribution.hours;
+      if (distribution.status === TimesheetStatus.Approved) {
+        project.approvedHours += distribution.hours;
+        const employee = employees.get(distribution.workloadActual.userId);
+        if (employee) employee.approvedHours += distribution.hours;
+      }
+    }
+    for (const plan of plans) {
+      projectOf(plan.project).plannedHours += plan.hours;
+    }
+
+    return {
+      hoursWorked: round(actuals.reduce((sum, a) => sum + a.hoursWorked, 0)),
+      approvedHours: round(
+        distributions.filter((d) => d.status === TimesheetStatus.Approved).reduce((sum, d) => sum + d.hours, 0),
+      ),
+      plannedHours: round(plans.reduce((sum, p) => sum + p.hours, 0)),
+      pendingReview: distributions.filter((d) => d.status === TimesheetStatus.Submitted).length,
+      projects: Array.from(projects.values())
+        .map((p) => ({ ...p, hours: round(p.hours), approvedHours: round(p.approvedHours), plannedHours: round(p.plannedHours) }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      employees: Array.from(employees.values())
+        .map((e) => ({ ...e, hoursWorked: round(e.hoursWorked), approvedHours: round(e.approvedHours) }))
+        .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName)),
+    };
+  }
+
+  // Report and plan dates are stored as UTC midnight of the calendar day
+  private monthRange(year: number, month: number) {
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      throw new BadRequestException('Month must be between 1 and 12');
+    }
+    return {
+      start: new Date(Date.UTC(year, month - 1, 1)),
+      end: new Date(Date.UTC(year, month, 0)),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Validate,
+  ValidationArguments,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import * as dayjs from 'dayjs';
+import { CalendarDayType } from '@prisma/client';
+
+// Longest range a single calendar request may cover; internal callers such as analytics are not limited
+const MAX_RANGE_DAYS = 400;
+
+@ValidatorConstraint({ name: 'calendarRange' })
+class CalendarRangeConstraint implements ValidatorConstraintInterface {
+  validate(endDate: string, args: ValidationArguments) {
+    const { startDate } = args.object as CalendarRangeQueryDto;
+    // Malformed dates are reported by @IsDateString
+    if (typeof startDate !== 'string' || typeof endDate !== 'string') return true;
+    return dayjs(endDate.slice(0, 10)).diff(dayjs(startDate.slice(0, 10)), 'day') + 1 <= MAX_RANGE_DAYS;
+  }
+
+  defaultMessage() {
+    return `Date range must not exceed ${MAX_RANGE_DAYS} days`;
+  }
+}
+
+export class CalendarRangeQueryDto {
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  @Validate(CalendarRangeConstraint)
+  endDate: string;
+}
+
+export class UpsertCalendarDayDto {
+  @IsDateString()
+  date: string;
+
+  @IsEnum(CalendarDayType)
+  type: CalendarDayType;
+
+  @IsString()
+  @MaxLength(200)
+  @IsOptional()
+  name?: string;
+}
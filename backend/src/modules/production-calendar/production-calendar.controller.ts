@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ProductionCalendarService } from './production-calendar.service';
+import { CalendarRangeQueryDto, UpsertCalendarDayDto } from './dto/production-calendar.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { AdminGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller('production-calendar')
+@UseGuards(JwtAuthGuard)
+export class ProductionCalendarController {
+  constructor(private readonly calendarService: ProductionCalendarService) {}
+
+  // Any user - day types and hours for calendar views
+  @Get()
+  async getDays(@Query() query: CalendarRangeQueryDto) {
+    return this.calendarService.getDays(query.startDate, query.endDate);
+  }
+
+  @Get('years/:year')
+  async getYear(@Param('year', ParseIntPipe) year: number) {
+    return this.calendarService.getYear(year);
+  }
+
+  // Admin only - import a year in the data.gov.ru CSV or xmlcalendar.ru JSON format
+  @Post('import')
+  @UseGuards(AdminGuard)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 1024 * 1024, // 1MB limit
+      },
+    }),
+  )
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    return this.calendarService.importFile(file.buffer.toString('utf-8'), actorId);
+  }
+
+  @Put('days')
+  @UseGuards(AdminGuard)
+  async upsertDay(@Body() dto: UpsertCalendarDayDto, @CurrentUser('sub') actorId: string) {
+    return this.calendarService.upsertDay(dto, actorId);
+  }
+
+  @Delete('days/:date')
+  @UseGuards(AdminGuard)
+  async deleteDay(@Param('date') date: string, @CurrentUser('sub') actorId: string) {
+    return this.calendarService.deleteDay(date, actorId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ProductionCalendarController } from './production-calendar.controller';
+import { ProductionCalendarService } from './production-calendar.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [ProductionCalendarController],
+  providers: [ProductionCalendarService],
+  exports: [ProductionCalendarService],
+})
+export class ProductionCalendarModule {}
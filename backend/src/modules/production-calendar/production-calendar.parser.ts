@@ -0,0 +1,157 @@
+import { BadRequestException } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+
+// Days of one month that differ from a plain working day, by day of month
+export interface ParsedCalendarMonth {
+  nonWorking: Set<number>;
+  short: Set<number>;
+}
+
+export interface ParsedCalendarYear {
+  year: number;
+  months: ParsedCalendarMonth[]; // January first
+}
+
+// A year as xmlcalendar.ru publishes it; every field is checked, the file is untrusted
+interface XmlCalendarYear {
+  year?: unknown;
+  months?: unknown;
+}
+
+interface XmlCalendarMonth {
+  month?: unknown;
+  days?: unknown;
+}
+
+// Reads the Russian production calendar in its open-data formats: CSV from data.gov.ru (a row per year,
+// the year followed by twelve month columns) or JSON from xmlcalendar.ru ({ year, months: [{ month, days }] }
+// or an array of those). A month lists every non-working day, weekends included: "3*" marks a shortened
+// pre-holiday day, "5+" a day off moved from another date.
+export function parseProductionCalendar(content: string): ParsedCalendarYear[] {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (!text) {
+    throw new BadRequestException('The calendar file is empty');
+  }
+
+  const years = text.startsWith('{') || text.startsWith('[') ? parseJson(text) : parseCsv(text);
+  if (years.length === 0) {
+    throw new BadRequestException('No calendar years found in the file');
+  }
+
+  return years;
+}
+
+function parseJson(text: string): ParsedCalendarYear[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BadRequestException('The calendar file is not valid JSON');
+  }
+
+  const entries: unknown[] = Array.isArray(data) ? data : [data];
+  return entries.map((value) => {
+    const entry: XmlCalendarYear = isObject(value) ? value : {};
+    const year = parseYear(entry.year);
+    if (!Array.isArray(entry.months)) {
+      throw new BadRequestException(`Year ${year}: "months" must be an array`);
+    }
+
+    const months = emptyMonths();
+    for (const item of entry.months as unknown[]) {
+      const month: XmlCalendarMonth = isObject(item) ? item : {};
+      const index = Number(month.month) - 1;
+      if (!Number.isInteger(index) || index < 0 || index > 11) {
+        throw new BadRequestException(`Year ${year}: invalid month ${month.month}`);
+      }
+      months[index] = parseDays(String(month.days ?? ''), year, index);
+    }
+
+    return { year, months };
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function parseCsv(text: string): ParsedCalendarYear[] {
+  const years: ParsedCalendarYear[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const cells = splitCsvLine(line);
+    // The header row and trailing notes do not start with a year
+    if (!/^\d{4}$/.test(cells[0]?.trim() ?? '')) continue;
+
+    const year = parseYear(cells[0]);
+    if (cells.length < 13) {
+      throw new BadRequestException(`Year ${year}: expected twelve month columns`);
+    }
+
+    years.push({
+      year,
+      months: cells.slice(1, 13).map((days, index) => parseDays(days, year, index)),
+    });
+  }
+
+  return years;
+}
+
+function splitCsvLine(line: string) {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if ((char === ',' || char === ';') && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells;
+}
+
+function parseYear(value: unknown) {
+  const year = Number(value);
+  if (!Number.isInteger(year) || year < 1990 || year > 2100) {
+    throw new BadRequestException(`Invalid calendar year: ${value}`);
+  }
+  return year;
+}
+
+function parseDays(days: string, year: number, monthIndex: number): ParsedCalendarMonth {
+  const month: ParsedCalendarMonth = { nonWorking: new Set(), short: new Set() };
+  const daysInMonth = dayjs(new Date(year, monthIndex, 1)).daysInMonth();
+
+  for (const token of days.split(',').map((t) => t.trim()).filter(Boolean)) {
+    const match = token.match(/^(\d{1,2})([*+]?)$/);
+    const day = match ? Number(match[1]) : NaN;
+    if (!match || day < 1 || day > daysInMonth) {
+      throw new BadRequestException(`${year}-${String(monthIndex + 1).padStart(2, '0')}: invalid day "${token}"`);
+    }
+
+    if (match[2] === '*') {
+      month.short.add(day);
+    } else {
+      month.nonWorking.add(day);
+    }
+  }
+
+  return month;
+}
+
+function emptyMonths(): ParsedCalendarMonth[] {
+  return Array.from({ length: 12 }, () => ({ nonWorking: new Set<number>(), short: new Set<number>() }));
+}
@@ -0,0 +1,206 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { UpsertCalendarDayDto } from './dto/production-calendar.dto';
+import { parseProductionCalendar, ParsedCalendarYear } from './production-calendar.parser';
+import { AuditAction, CalendarDayType } from '@prisma/client';
+
+export const HOURS_PER_DAY = 8;
+export const SHORT_DAY_HOURS = 7;
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  type: CalendarDayType;
+  hours: number;
+  name: string | null;
+  isException: boolean; // differs from the Mon–Fri rule
+}
+
+@Injectable()
+export class ProductionCalendarService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+  ) {}
+
+  // Every day of the range with its type and working hours
+  async getDays(startDate: string | Date, endDate: string | Date): Promise<CalendarDay[]> {
+    const start = dayjs(this.toKey(startDate));
+    const end = dayjs(this.toKey(endDate));
+
+    if (end.isBefore(start)) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+
+    const exceptions = await this.prisma.productionCalendarDay.findMany({
+      where: {
+        date: { gte: new Date(start.format('YYYY-MM-DD')), lte: new Date(end.format('YYYY-MM-DD')) },
+      },
+    });
+    const byDate = new Map(exceptions.map((day) => [day.date.toISOString().slice(0, 10), day]));
+
+    const days: CalendarDay[] = [];
+    for (let day = start; !day.isAfter(end); day = day.add(1, 'day')) {
+      const key = day.format('YYYY-MM-DD');
+      const exception = byDate.get(key);
+      const type = exception?.type ?? this.defaultType(day);
+      days.push({
+        date: key,
+        type,
+        hours: this.hoursOf(type),
+        name: exception?.name ?? null,
+        isException: !!exception,
+      });
+    }
+
+    return days;
+  }
+
+  // Same as getDays, keyed by YYYY-MM-DD
+  async getDayMap(startDate: string | Date, endDate: string | Date) {
+    const days = await this.getDays(startDate, endDate);
+    return new Map(days.map((day) => [day.date, day]));
+  }
+
+  async getDay(date: string | Date) {
+    const [day] = await this.getDays(date, date);
+    return day;
+  }
+
+  async getYear(year: number) {
+    const days = await this.getDays(`${year}-01-01`, `${year}-12-31`);
+
+    const months = Array.from({ length: 12 }, (_, index) => {
+      const monthDays = days.filter((day) => Number(day.date.slice(5, 7)) === index + 1);
+      return {
+        month: index + 1,
+        workingDays: monthDays.filter((day) => day.hours > 0).length,
+        workingHours: monthDays.reduce((sum, day) => sum + day.hours, 0),
+      };
+    });
+
+    return {
+      year,
+      imported: days.some((day) => day.isException),
+      workingDays: months.reduce((sum, m) => sum + m.workingDays, 0),
+      workingHours: months.reduce((sum, m) => sum + m.workingHours, 0),
+      months,
+      days,
+    };
+  }
+
+  // Replaces the stored deviations of every year found in the file
+  async importFile(content: string, actorId: string) {
+    const years = parseProductionCalendar(content);
+    const result: { year: number; exceptions: number }[] = [];
+
+    for (const parsed of years) {
+      const exceptions = this.toExceptions(parsed);
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.productionCalendarDay.deleteMany({
+          where: {
+            date: { gte: new Date(`${parsed.year}-01-01`), lte: new Date(`${parsed.year}-12-31`) },
+          },
+        });
+        await tx.productionCalendarDay.createMany({ data: exceptions });
+      });
+
+      await this.auditService.log({
+        userId: actorId,
+        entityType: 'ProductionCalendar',
+        entityId: String(parsed.year),
+        action: AuditAction.Update,
+        after: { year: parsed.year, exceptions: exceptions.length },
+      });
+
+      result.push({ year: parsed.year, exceptions: exceptions.length });
+    }
+
+    return Promise.all(
+      result.map(async ({ year, exceptions }) => {
+        const { workingDays, workingHours } = await this.getYear(year);
+        return { year, exceptions, workingDays, workingHours };
+      }),
+    );
+  }
+
+  async upsertDay(dto: UpsertCalendarDayDto, actorId: string) {
+    const date = new Date(this.toKey(dto.date));
+    const before = await this.prisma.productionCalendarDay.findUnique({ where: { date } });
+
+    const day = await this.prisma.productionCalendarDay.upsert({
+      where: { date },
+      update: { type: dto.type, name: dto.name ?? null },
+      create: { date, type: dto.type, name: dto.name },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'ProductionCalendar',
+      entityId: this.toKey(dto.date),
+      action: before ? AuditAction.Update : AuditAction.Create,
+      before,
+      after: day,
+    });
+
+    return day;
+  }
+
+  // Brings the day back to the Mon–Fri rule
+  async deleteDay(date: string, actorId: string) {
+    const key = this.toKey(date);
+    const day = await this.prisma.productionCalendarDay.findUnique({ where: { date: new Date(key) } });
+    if (!day) {
+      throw new NotFoundException('Calendar day not found');
+    }
+
+    await this.prisma.productionCalendarDay.delete({ where: { date: day.date } });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'ProductionCalendar',
+      entityId: key,
+      action: AuditAction.Delete,
+      before: day,
+    });
+
+    return { message: 'Calendar day reset successfully' };
+  }
+
+  // Rows for the days where the imported calendar differs from the Mon–Fri rule
+  private toExceptions(parsed: ParsedCalendarYear) {
+    const exceptions: { date: Date; type: CalendarDayType }[] = [];
+
+    parsed.months.forEach((month, index) => {
+      const first = dayjs(new Date(parsed.year, index, 1));
+      for (let dayOfMonth = 1; dayOfMonth <= first.daysInMonth(); dayOfMonth++) {
+        const day = first.date(dayOfMonth);
+        let type: CalendarDayType = CalendarDayType.Working;
+        if (month.short.has(dayOfMonth)) type = CalendarDayType.Short;
+        else if (month.nonWorking.has(dayOfMonth)) type = CalendarDayType.NonWorking;
+
+        if (type !== this.defaultType(day)) {
+          exceptions.push({ date: new Date(day.format('YYYY-MM-DD')), type });
+        }
+      }
+    });
+
+    return exceptions;
+  }
+
+  private defaultType(day: dayjs.Dayjs) {
+    return day.day() === 0 || day.day() === 6 ? CalendarDayType.NonWorking : CalendarDayType.Working;
+  }
+
+  private hoursOf(type: CalendarDayType) {
+    if (type === CalendarDayType.NonWorking) return 0;
+    return type === CalendarDayType.Short ? SHORT_DAY_HOURS : HOURS_PER_DAY;
+  }
+
+  // Strings are taken as calendar days, Date objects by their local day
+  private toKey(date: string | Date) {
+    return typeof date === 'string' ? date.slice(0, 10) : dayjs(date).format('YYYY-MM-DD');
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { ProjectAccessService } from './project-access.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+// Global so the project permission guard works in every module that scopes routes by project
+@Global()
+@Module({
+  imports: [PrismaModule],
+  providers: [ProjectAccessService],
+  exports: [ProjectAccessService],
+})
+export class ProjectAccessModule {}
@@ -0,0 +1,104 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { ProjectRole, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ProjectPermission,
+  ProjectScopedEntity,
+} from '../../common/decorators/project-permission.decorator';
+
+export interface ProjectActor {
+  sub: string;
+  role: string;
+}
+
+// What every project role allows on its project
+export const PROJECT_ROLE_PERMISSIONS: Record<ProjectRole, ProjectPermission[]> = {
+  [ProjectRole.Lead]: ['ViewTeam', 'ManageTeam', 'ManageDocuments', 'EditConstructions', 'ViewPayments'],
+  [ProjectRole.ChiefEngineer]: ['ViewTeam', 'ManageDocuments', 'EditConstructions'],
+  [ProjectRole.Designer]: ['ViewTeam', 'ManageDocuments'],
+  [ProjectRole.Member]: ['ViewTeam'],
+  [ProjectRole.Viewer]: ['ViewTeam'],
+};
+
+const ALL_PERMISSIONS = PROJECT_ROLE_PERMISSIONS[ProjectRole.Lead];
+
+// Read-only permissions Trial users get on the projects they are members of
+const TRIAL_VIEW_PERMISSIONS: ProjectPermission[] = ['ViewTeam', 'ViewPayments'];
+
+const DENIED_MESSAGES: Record<ProjectPermission, string> = {
+  ViewTeam: 'You are not a member of this project',
+  ManageTeam: 'Your role on this project does not allow managing its team',
+  ManageDocuments: 'Your role on this project does not allow managing its documents',
+  EditConstructions: 'Your role on this project does not allow editing its constructions',
+  ViewPayments: 'Your role on this project does not allow viewing its payments',
+};
+
+// Project-scoped rights: Admins and Managers keep their global rights on every project,
+// everyone else gets what their role on the project allows, Trial members can also view payments
+@Injectable()
+export class ProjectAccessService {
+  constructor(private prisma: PrismaService) {}
+
+  // Permissions the global role grants on every project
+  globalPermissions(actor: ProjectActor): ProjectPermission[] {
+    if (actor.role === UserRole.Admin || actor.role === UserRole.Manager) return ALL_PERMISSIONS;
+    return [];
+  }
+
+  async getPermissions(actor: ProjectActor, projectId: string): Promise<ProjectPermission[]> {
+    const global = this.globalPermissions(actor);
+    if (global === ALL_PERMISSIONS) return global;
+
+    const membership = await this.prisma.projectUser.findUnique({
+      where: { userId_projectId: { userId: actor.sub, projectId } },
+      select: { role: true },
+    });
+    if (!membership) return [];
+
+    const permissions = [
+      ...PROJECT_ROLE_PERMISSIONS[membership.role],
+      ...(actor.role === UserRole.Trial ? TRIAL_VIEW_PERMISSIONS : []),
+    ];
+    return ALL_PERMISSIONS.filter((permission) => permissions.includes(permission));
+  }
+
+  // Projects where the actor has the permission, null when the global role grants it on all of them
+  async projectIdsWithPermission(
+    actor: ProjectActor,
+    permission: ProjectPermission,
+  ): Promise<string[] | null> {
+    if (this.globalPermissions(actor).includes(permission)) return null;
+
+    const memberships = await this.prisma.projectUser.findMany({
+      where: { userId: actor.sub },
+      select: { projectId: true, role: true },
+    });
+    const extra = actor.role === UserRole.Trial ? TRIAL_VIEW_PERMISSIONS : [];
+
+    return memberships
+      .filter((m) => [...PROJECT_ROLE_PERMISSIONS[m.role], ...extra].includes(permission))
+      .map((m) => m.projectId);
+  }
+
+  async assertPermission(actor: ProjectActor, projectId: string, permission: ProjectPermission) {
+    if (this.globalPermissions(actor).includes(permission)) return;
+
+    const permissions = await this.getPermissions(actor, projectId);
+    if (!permissions.includes(permission)) {
+      throw new ForbiddenException(DENIED_MESSAGES[permission]);
+    }
+  }
+
+  // Project of a project-scoped entity, null when the entity does not exist
+  async resolveProjectId(entity: ProjectScopedEntity, id: string): Promise<string | null> {
+    const where = { where: { id }, select: { projectId: true } };
+    const record =
+      entity === 'document'
+        ? await this.prisma.document.findUnique(where)
+        : entity === 'construction'
+          ? await this.prisma.construction.findUnique(where)
+          : await this.prisma.paymentSchedule.findUnique(where);
+
+    return record?.projectId ?? null;
+  }
+}
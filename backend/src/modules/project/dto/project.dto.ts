@@ -1,5 +1,6 @@
 import { IsString, IsOptional, IsEnum, IsDateString, IsNumber, Matches } from 'class-validator';
-import { ProjectType, ProjectStatus } from '@prisma/client';
+import { ProjectType, ProjectStatus, ProjectRole } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
 
 // UUID regex pattern that accepts any UUID-like format
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -71,3 +72,24 @@ export class UpdateProjectDto {
   @IsOptional()
   cost?: number;
 }
+
+export class ProjectQueryDto extends PaginationQueryDto {
+  @IsEnum(ProjectStatus)
+  @IsOptional()
+  status?: ProjectStatus;
+
+  @IsEnum(ProjectType)
+  @IsOptional()
+  type?: ProjectType;
+}
+
+export class AddProjectUserDto {
+  @IsEnum(ProjectRole)
+  @IsOptional()
+  role?: ProjectRole;
+}
+
+export class UpdateProjectUserDto {
+  @IsEnum(ProjectRole)
+  role: ProjectRole;
+}
@@ -10,10 +10,18 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { ProjectService } from './project.service';
-import { CreateProjectDto, UpdateProjectDto } from './dto/project.dto';
+import {
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectQueryDto,
+  AddProjectUserDto,
+  UpdateProjectUserDto,
+} from './dto/project.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { AdminGuard, ManagerGuard, ManagerOrTrialGuard } from '../../common/guards/roles.guard';
+import { ProjectPermissionGuard } from '../../common/guards/project-permission.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequireProjectPermission } from '../../common/decorators/project-permission.decorator';
 
 @Controller('project')
 @UseGuards(JwtAuthGuard) // All routes require authentication
@@ -22,10 +30,10 @@ export class ProjectController {
 
   @Get()
   async findAll(
-    @Query('status') status?: string,
+    @Query() query: ProjectQueryDto,
     @CurrentUser() user?: { sub: string; role: string },
   ) {
-    return this.projectService.findAll(status, user);
+    return this.projectService.findAll(query, user);
   }
 
   @Get(':id')
@@ -38,20 +46,24 @@ export class ProjectController {
 
   @Post('create')
   @UseGuards(ManagerGuard)
-  async create(@Body() dto: CreateProjectDto) {
-    return this.projectService.create(dto);
+  async create(@Body() dto: CreateProjectDto, @CurrentUser('sub') actorId: string) {
+    return this.projectService.create(dto, actorId);
   }
 
   @Patch(':id')
   @UseGuards(ManagerGuard)
-  async update(@Param('id') id: string, @Body() dto: UpdateProjectDto) {
-    return this.projectService.update(id, dto);
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateProjectDto,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.projectService.update(id, dto, actorId);
   }
 
   @Delete(':id')
   @UseGuards(AdminGuard)
-  async delete(@Param('id') id: string) {
-    return this.projectService.delete(id);
+  async delete(@Param('id') id: string, @CurrentUser('sub') actorId: string) {
+    return this.projectService.delete(id, actorId);
   }
 
   @Get(':projectId/workload/employees')
@@ -69,34 +81,53 @@ export class ProjectController {
     return this.projectService.getEmployeeWorkloadOnProject(projectId, userId);
   }
 
-  // Project User Management endpoints
+  // Project User Management endpoints, open to project leads as well
   @Get(':projectId/users')
-  @UseGuards(ManagerOrTrialGuard)
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ViewTeam')
   async getProjectUsers(@Param('projectId') projectId: string) {
     return this.projectService.getProjectUsers(projectId);
   }
 
   @Get(':projectId/available-users')
-  @UseGuards(ManagerGuard)
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageTeam')
   async getAvailableUsersForProject(@Param('projectId') projectId: string) {
     return this.projectService.getAvailableUsersForProject(projectId);
   }
 
   @Post(':projectId/users/:userId')
-  @UseGuards(ManagerGuard)
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageTeam')
   async addProjectUser(
     @Param('projectId') projectId: string,
     @Param('userId') userId: string,
+    @Body() dto: AddProjectUserDto,
+    @CurrentUser('sub') actorId: string,
   ) {
-    return this.projectService.addProjectUser(projectId, userId);
+    return this.projectService.addProjectUser(projectId, userId, actorId, dto.role);
+  }
+
+  @Patch(':projectId/users/:userId')
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageTeam')
+  async updateProjectUser(
+    @Param('projectId') projectId: string,
+    @Param('userId') userId: string,
+    @Body() dto: UpdateProjectUserDto,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.projectService.updateProjectUserRole(projectId, userId, dto.role, actorId);
   }
 
   @Delete(':projectId/users/:userId')
-  @UseGuards(ManagerGuard)
+  @UseGuards(ProjectPermissionGuard)
+  @RequireProjectPermission('ManageTeam')
   async removeProjectUser(
     @Param('projectId') projectId: string,
     @Param('userId') userId: string,
+    @CurrentUser('sub') actorId: string,
   ) {
-    return this.projectService.removeProjectUser(projectId, userId);
+    return this.projectService.removeProjectUser(projectId, userId, actorId);
   }
 }
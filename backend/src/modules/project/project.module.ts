@@ -3,9 +3,10 @@ import { ProjectController } from './project.controller';
 import { ProjectService } from './project.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { UsersModule } from '../users/users.module';
+import { DocumentModule } from '../document/document.module';
 
 @Module({
-  imports: [PrismaModule, UsersModule],
+  imports: [PrismaModule, UsersModule, DocumentModule],
   controllers: [ProjectController],
   providers: [ProjectService],
   exports: [ProjectService],
@@ -1,15 +1,48 @@
 import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { CreateProjectDto, UpdateProjectDto } from './dto/project.dto';
-import { ProjectType, UserRole } from '@prisma/client';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { DocumentService } from '../document/document.service';
+import { ProjectAccessService } from '../project-access/project-access.service';
+import { CreateProjectDto, UpdateProjectDto, ProjectQueryDto } from './dto/project.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { AuditAction, NotificationType, ProjectRole, ProjectType, UserRole } from '@prisma/client';
+
+// Public sort keys of the project list
+const PROJECT_SORT_FIELDS = {
+  name: 'name',
+  status: 'status',
+  contractDate: 'contractDate',
+  expirationDate: 'expirationDate',
+  createdAt: 'createdAt',
+  cost: 'cost',
+  customer: 'customer.name',
+  manager: 'manager.lastName',
+};
 
 @Injectable()
 export class ProjectService {
-  constructor(private prisma: PrismaService) {}
-
-  async findAll(status?: string, user?: { sub: string; role: string }) {
-    // Build where clause based on user role
-    let where: any = status ? { status } : {};
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private documentService: DocumentService,
+    private notificationService: NotificationService,
+    private projectAccess: ProjectAccessService,
+  ) {}
+
+  async findAll(query: ProjectQueryDto, user?: { sub: string; role: string }) {
+    // Build where clause based on user role, projects in the trash are never listed
+    let where: any = { deletedAt: null };
+    if (query.status) where.status = query.status;
+    if (query.type) where.type = query.type;
+
+    const search = buildSearchFilter(query.search, [
+      'name',
+      'customer.name',
+      'manager.firstName',
+      'manager.lastName',
+    ]);
+    if (search) where.OR = search;
 
     // Feature #328: Managers can only see projects where they are the manager
     if (user?.role === UserRole.Manager) {
@@ -31,31 +64,37 @@ export class ProjectService {
       };
     }
 
-    const projects = await this.prisma.project.findMany({
-      where,
-      include: {
-        customer: {
-          select: { id: true, name: true, type: true },
-        },
-        manager: {
-          select: { id: true, firstName: true, lastName: true, email: true },
-        },
-        mainProject: {
-          select: { id: true, name: true },
-        },
-        _count: {
-          select: { constructions: true, documents: true },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    const orderBy = buildOrderBy(query, PROJECT_SORT_FIELDS, { createdAt: 'desc' });
 
-    return projects;
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.project.findMany({
+          where,
+          include: {
+            customer: {
+              select: { id: true, name: true, type: true },
+            },
+            manager: {
+              select: { id: true, firstName: true, lastName: true, email: true },
+            },
+            mainProject: {
+              select: { id: true, name: true },
+            },
+            _count: {
+              select: { constructions: true, documents: { where: { deletedAt: null } } },
+            },
+          },
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.project.count({ where }),
+    );
   }
 
   async findOne(id: string, user?: { sub: string; role: string }) {
     const project = await this.prisma.project.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
       include: {
         customer: true,
         manager: {
@@ -65,10 +104,12 @@ export class ProjectService {
           select: { id: true, name: true },
         },
         additionalProjects: {
+          where: { deletedAt: null },
           select: { id: true, name: true, status: true },
         },
         constructions: true,
         documents: {
+          where: { deletedAt: null },
           include: {
             uploadedBy: {
               select: { id: true, firstName: true, lastName: true },
@@ -80,7 +121,11 @@ export class ProjectService {
           select: { userId: true },
         },
         _count: {
-          select: { constructions: true, documents: true, projectUsers: true },
+          select: {
+            constructions: true,
+            documents: { where: { deletedAt: null } },
+            projectUsers: true,
+          },
         },
       },
     });
@@ -97,10 +142,13 @@ export class ProjectService {
       }
     }
 
-    return project;
+    // What the current user may do on this project, so the client can offer the matching actions
+    const permissions = user ? await this.projectAccess.getPermissions(user, id) : [];
+
+    return { ...project, permissions };
   }
 
-  async create(dto: CreateProjectDto) {
+  async create(dto: CreateProjectDto, actorId?: string) {
     const project = await this.prisma.project.create({
       data: {
         name: dto.name,
@@ -122,12 +170,21 @@ export class ProjectService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Project',
+      entityId: project.id,
+      projectId: project.id,
+      action: AuditAction.Create,
+      after: project,
+    });
+
     return project;
   }
 
-  async update(id: string, dto: UpdateProjectDto) {
+  async update(id: string, dto: UpdateProjectDto, actorId?: string) {
     const project = await this.prisma.project.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!project) {
@@ -157,28 +214,135 @@ export class ProjectService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Project',
+      entityId: id,
+      projectId: id,
+      action: AuditAction.Update,
+      before: project,
+      after: updated,
+    });
+
     return updated;
   }
 
-  async delete(id: string) {
+  async delete(id: string, actorId?: string) {
     const project = await this.prisma.project.findUnique({
-      where: { id },
+      where: { id, deletedAt: null },
     });
 
     if (!project) {
       throw new NotFoundException('Project not found');
     }
 
+    // Soft delete: constructions, documents, plans and timesheets stay until the project is purged
+    const deleted = await this.prisma.project.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Project',
+      entityId: id,
+      projectId: id,
+      action: AuditAction.Delete,
+      before: project,
+      after: deleted,
+    });
+
+    return { message: 'Project moved to trash' };
+  }
+
+  // Trash (Admin only)
+  async findDeleted() {
+    return this.prisma.project.findMany({
+      where: { deletedAt: { not: null } },
+      include: {
+        customer: {
+          select: { id: true, name: true },
+        },
+        manager: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        _count: {
+          select: { constructions: true, documents: true, workloadPlans: true, workloadDistributions: true },
+        },
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+  }
+
+  async restore(id: string, actorId?: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id, deletedAt: { not: null } },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found in trash');
+    }
+
+    const restored = await this.prisma.project.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Project',
+      entityId: id,
+      projectId: id,
+      action: AuditAction.Restore,
+      before: project,
+      after: restored,
+    });
+
+    return restored;
+  }
+
+  async purge(id: string, actorId?: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id, deletedAt: { not: null } },
+      include: {
+        documents: {
+          include: {
+            versions: {
+              select: { path: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found in trash');
+    }
+
+    // Cascades to constructions, documents, plans and distributions
     await this.prisma.project.delete({
       where: { id },
     });
 
-    return { message: 'Project deleted successfully' };
+    this.documentService.removeFiles(
+      project.documents.flatMap((d) => [d.path, ...d.versions.map((v) => v.path)]),
+    );
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'Project',
+      entityId: id,
+      projectId: id,
+      action: AuditAction.Purge,
+      before: project,
+    });
+
+    return { message: 'Project deleted permanently' };
   }
 
   async getProjectEmployeeWorkload(projectId: string) {
     const project = await this.prisma.project.findUnique({
-      where: { id: projectId },
+      where: { id: projectId, deletedAt: null },
     });
 
     if (!project) {
@@ -279,7 +443,7 @@ export class ProjectService {
   // Project User Management
   async getProjectUsers(projectId: string) {
     const project = await this.prisma.project.findUnique({
-      where: { id: projectId },
+      where: { id: projectId, deletedAt: null },
     });
 
     if (!project) {
@@ -305,9 +469,9 @@ export class ProjectService {
     return projectUsers;
   }
 
-  async addProjectUser(projectId: string, userId: string) {
+  async addProjectUser(projectId: string, userId: string, actorId?: string, role?: ProjectRole) {
     const project = await this.prisma.project.findUnique({
-      where: { id: projectId },
+      where: { id: projectId, deletedAt: null },
     });
 
     if (!project) {
@@ -340,6 +504,7 @@ export class ProjectService {
       data: {
         userId,
         projectId,
+        role,
       },
       include: {
         user: {
@@ -354,10 +519,72 @@ export class ProjectService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'ProjectUser',
+      entityId: projectUser.id,
+      projectId,
+      action: AuditAction.Create,
+      after: projectUser,
+    });
+
+    if (userId !== actorId) {
+      await this.notificationService.notify({
+        userId,
+        type: NotificationType.ProjectAssigned,
+        data: { projectId, projectName: project.name },
+        link: `/projects/${projectId}`,
+      });
+    }
+
     return projectUser;
   }
 
-  async removeProjectUser(projectId: string, userId: string) {
+  async updateProjectUserRole(projectId: string, userId: string, role: ProjectRole, actorId?: string) {
+    const projectUser = await this.prisma.projectUser.findUnique({
+      where: {
+        userId_projectId: {
+          userId,
+          projectId,
+        },
+      },
+    });
+
+    if (!projectUser) {
+      throw new NotFoundException('User not assigned to this project');
+    }
+
+    const updated = await this.prisma.projectUser.update({
+      where: { id: projectUser.id },
+      data: { role },
+      include: {
+        user: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+            phone: true,
+            role: true,
+          },
+        },
+      },
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'ProjectUser',
+      entityId: projectUser.id,
+      projectId,
+      action: AuditAction.Update,
+      before: projectUser,
+      after: { ...projectUser, role },
+    });
+
+    return updated;
+  }
+
+  async removeProjectUser(projectId: string, userId: string, actorId?: string) {
     const projectUser = await this.prisma.projectUser.findUnique({
       where: {
         userId_projectId: {
@@ -380,6 +607,15 @@ export class ProjectService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'ProjectUser',
+      entityId: projectUser.id,
+      projectId,
+      action: AuditAction.Delete,
+      before: projectUser,
+    });
+
     return { message: 'User removed from project successfully' };
   }
 
@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsEnum, MinLength } from 'class-validator';
+import { ProposalStatus } from '@prisma/client';
+
+export class CreateProposalDto {
+  @IsString()
+  @MinLength(1)
+  proposal: string;
+}
+
+export class UpdateProposalStatusDto {
+  @IsEnum(ProposalStatus)
+  status: ProposalStatus;
+
+  @IsString()
+  @IsOptional()
+  comment?: string;
+}
+
+export class CreateProposalCommentDto {
+  @IsString()
+  @MinLength(1)
+  content: string;
+}
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ProposalService } from './proposal.service';
+import {
+  CreateProposalDto,
+  UpdateProposalStatusDto,
+  CreateProposalCommentDto,
+} from './dto/proposal.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { ManagerGuard, NotTrialGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ProposalStatus } from '@prisma/client';
+
+@Controller('proposal')
+@UseGuards(JwtAuthGuard) // All routes require authentication
+export class ProposalController {
+  constructor(private readonly proposalService: ProposalService) {}
+
+  // Manager or Admin - list all proposals with filters
+  @Get()
+  @UseGuards(ManagerGuard)
+  async findAll(
+    @Query('status') status?: ProposalStatus,
+    @Query('userId') userId?: string,
+    @Query('search') search?: string,
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.proposalService.findAll({
+      status,
+      userId,
+      search,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    });
+  }
+
+  @Get('my')
+  async findMy(@CurrentUser('sub') userId: string) {
+    return this.proposalService.findAll({ userId });
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.proposalService.findOne(id, user);
+  }
+
+  @Post('create')
+  @UseGuards(NotTrialGuard)
+  async create(
+    @Body() dto: CreateProposalDto,
+    @CurrentUser('sub') userId: string,
+  ) {
+    return this.proposalService.create(userId, dto);
+  }
+
+  @Patch(':id/status')
+  @UseGuards(ManagerGuard)
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() dto: UpdateProposalStatusDto,
+    @CurrentUser('sub') userId: string,
+  ) {
+    return this.proposalService.updateStatus(id, dto, userId);
+  }
+
+  @Post(':id/comments')
+  @UseGuards(ManagerGuard)
+  async addComment(
+    @Param('id') id: string,
+    @Body() dto: CreateProposalCommentDto,
+    @CurrentUser('sub') userId: string,
+  ) {
+    return this.proposalService.addComment(id, dto, userId);
+  }
+}
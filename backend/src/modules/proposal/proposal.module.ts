@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ProposalController } from './proposal.controller';
+import { ProposalService } from './proposal.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [PrismaModule, UsersModule],
+  controllers: [ProposalController],
+  providers: [ProposalService],
+  exports: [ProposalService],
+})
+export class ProposalModule {}
@@ -0,0 +1,144 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateProposalDto,
+  UpdateProposalStatusDto,
+  CreateProposalCommentDto,
+} from './dto/proposal.dto';
+import { ProposalStatus, UserRole } from '@prisma/client';
+
+@Injectable()
+export class ProposalService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(filters?: {
+    status?: ProposalStatus;
+    userId?: string;
+    search?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }) {
+    const where: any = {};
+
+    if (filters?.status) where.status = filters.status;
+    if (filters?.userId) where.userId = filters.userId;
+    if (filters?.search) {
+      where.proposal = { contains: filters.search, mode: 'insensitive' };
+    }
+
+    if (filters?.startDate || filters?.endDate) {
+      where.createdAt = {};
+      if (filters?.startDate) where.createdAt.gte = new Date(filters.startDate);
+      if (filters?.endDate) where.createdAt.lte = new Date(filters.endDate);
+    }
+
+    return this.prisma.employeeProposal.findMany({
+      where,
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        _count: {
+          select: { comments: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string, user?: { sub: string; role: string }) {
+    const proposal = await this.prisma.employeeProposal.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        comments: {
+          include: {
+            author: {
+              select: { id: true, firstName: true, lastName: true, role: true },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    // Employees can only see their own proposals
+    const isReviewer = user?.role === UserRole.Admin || user?.role === UserRole.Manager;
+    if (user && !isReviewer && proposal.userId !== user.sub) {
+      throw new ForbiddenException('You do not have access to this proposal');
+    }
+
+    return proposal;
+  }
+
+  async create(userId: string, dto: CreateProposalDto) {
+    return this.prisma.employeeProposal.create({
+      data: {
+        userId,
+        proposal: dto.proposal,
+      },
+      include: {
+        user: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+    });
+  }
+
+  async updateStatus(id: string, dto: UpdateProposalStatusDto, authorId: string) {
+    const proposal = await this.prisma.employeeProposal.findUnique({
+      where: { id },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    // Record the status change in the comment history so the review trail is preserved
+    await this.prisma.$transaction([
+      this.prisma.employeeProposal.update({
+        where: { id },
+        data: { status: dto.status },
+      }),
+      this.prisma.proposalComment.create({
+        data: {
+          proposalId: id,
+          authorId,
+          content: dto.comment,
+          status: dto.status,
+        },
+      }),
+    ]);
+
+    return this.findOne(id);
+  }
+
+  async addComment(id: string, dto: CreateProposalCommentDto, authorId: string) {
+    const proposal = await this.prisma.employeeProposal.findUnique({
+      where: { id },
+    });
+
+    if (!proposal) {
+      throw new NotFoundException('Proposal not found');
+    }
+
+    return this.prisma.proposalComment.create({
+      data: {
+        proposalId: id,
+        authorId,
+        content: dto.content,
+      },
+      include: {
+        author: {
+          select: { id: true, firstName: true, lastName: true, role: true },
+        },
+      },
+    });
+  }
+}
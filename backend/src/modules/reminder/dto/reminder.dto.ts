@@ -0,0 +1,55 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ReminderChannel } from '@prisma/client';
+
+export class ReminderScheduleDto {
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  weekday: number;
+
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'time must be in HH:mm format' })
+  time: string;
+
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class UpdateReminderSettingsDto {
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @IsArray()
+  @IsEnum(ReminderChannel, { each: true })
+  @IsOptional()
+  channels?: ReminderChannel[];
+
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  @IsOptional()
+  escalateAfterDays?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  @IsOptional()
+  lookbackDays?: number;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReminderScheduleDto)
+  @IsOptional()
+  schedule?: ReminderScheduleDto[];
+}
@@ -0,0 +1,34 @@
+import { Controller, Get, Post, Put, Body, Query, UseGuards } from '@nestjs/common';
+import { ReminderService } from './reminder.service';
+import { UpdateReminderSettingsDto } from './dto/reminder.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { AdminGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller('reminders')
+@UseGuards(JwtAuthGuard, AdminGuard)
+export class ReminderController {
+  constructor(private readonly reminderService: ReminderService) {}
+
+  @Get('settings')
+  async getSettings() {
+    return this.reminderService.getSettings();
+  }
+
+  @Put('settings')
+  async updateSettings(@Body() dto: UpdateReminderSettingsDto) {
+    return this.reminderService.updateSettings(dto);
+  }
+
+  @Get('runs')
+  async findRuns(@Query() query: PaginationQueryDto) {
+    return this.reminderService.findRuns(query);
+  }
+
+  // Runs the check immediately, independent of the schedule
+  @Post('run')
+  async runNow(@CurrentUser('sub') actorId: string) {
+    return this.reminderService.runNow(actorId);
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ReminderController } from './reminder.controller';
+import { ReminderService } from './reminder.service';
+import { ReminderScheduler } from './reminder.scheduler';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { TelegramModule } from '../telegram/telegram.module';
+import { AbsenceModule } from '../absence/absence.module';
+import { ProductionCalendarModule } from '../production-calendar/production-calendar.module';
+
+@Module({
+  imports: [PrismaModule, UsersModule, TelegramModule, AbsenceModule, ProductionCalendarModule],
+  controllers: [ReminderController],
+  providers: [ReminderService, ReminderScheduler],
+})
+export class ReminderModule {}
@@ -0,0 +1,20 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ReminderService } from './reminder.service';
+
+// The schedule lives in the database, so the job ticks every minute and asks whether a slot is due
+@Injectable()
+export class ReminderScheduler {
+  private readonly logger = new Logger(ReminderScheduler.name);
+
+  constructor(private reminderService: ReminderService) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async tick() {
+    try {
+      await this.reminderService.runIfDue(new Date());
+    } catch (error) {
+      this.logger.error(`Reminder schedule check failed: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationService } from '../notification/notification.service';
+import { MailService } from '../mail/mail.service';
+import { AbsenceService } from '../absence/absence.service';
+import { ProductionCalendarService } from '../production-calendar/production-calendar.service';
+import { TelegramApiService } from '../telegram/telegram-api.service';
+import { TELEGRAM_MESSAGES } from '../telegram/telegram.messages';
+import { UpdateReminderSettingsDto } from './dto/reminder.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination.dto';
+import { buildOrderBy, paginate } from '../../common/utils/pagination';
+import {
+  JobRunStatus,
+  NotificationType,
+  Prisma,
+  ProjectStatus,
+  ReminderChannel,
+  ReminderTrigger,
+  UserRole,
+} from '@prisma/client';
+
+// Used until an Admin changes the schedule: working days at 18:00
+const DEFAULT_SCHEDULE = [1, 2, 3, 4, 5].map((weekday) => ({ weekday, time: '18:00', enabled: true }));
+
+// Public sort keys of the run history
+const REMINDER_RUN_SORT_FIELDS = {
+  startedAt: 'startedAt',
+  status: 'status',
+  remindersSent: 'remindersSent',
+};
+
+interface Recipient {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  telegramId: bigint | null;
+}
+
+interface ReminderMessage {
+  type: NotificationType;
+  data: Record<string, unknown>;
+  subject: string;
+  text: string;
+  telegramText: string;
+}
+
+interface RunDetail {
+  userId: string;
+  name: string;
+  missedDays: string[];
+  consecutiveMissed: number;
+  channels: ReminderChannel[];
+  escalatedTo: string[];
+}
+
+@Injectable()
+export class ReminderService {
+  private readonly logger = new Logger(ReminderService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationService: NotificationService,
+    private mailService: MailService,
+    private telegramApi: TelegramApiService,
+    private absenceService: AbsenceService,
+    private calendarService: ProductionCalendarService,
+  ) {}
+
+  async getSettings() {
+    const settings = await this.prisma.reminderSettings.upsert({
+      where: { id: 1 },
+      update: {},
+      create: { id: 1 },
+    });
+
+    const schedule = await this.prisma.reminderSchedule.findMany({
+      orderBy: { weekday: 'asc' },
+    });
+
+    return { ...settings, schedule: schedule.length > 0 ? schedule : DEFAULT_SCHEDULE };
+  }
+
+  async updateSettings(dto: UpdateReminderSettingsDto) {
+    const { schedule, ...settings } = dto;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.reminderSettings.upsert({
+        where: { id: 1 },
+        update: settings,
+        create: { id: 1, ...settings },
+      });
+
+      // The schedule is replaced as a whole, weekdays left out get no run
+      if (schedule) {
+        await tx.reminderSchedule.deleteMany({});
+        await tx.reminderSchedule.createMany({ data: schedule });
+      }
+    });
+
+    return this.getSettings();
+  }
+
+  async findRuns(query: PaginationQueryDto) {
+    const orderBy = buildOrderBy(query, REMINDER_RUN_SORT_FIELDS, { startedAt: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.reminderRun.findMany({
+          include: {
+            triggeredBy: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.reminderRun.count(),
+    );
+  }
+
+  // Called every minute by the scheduler, starts a run when a schedule slot is due
+  async runIfDue(now: Date) {
+    const { enabled, schedule } = await this.getSettings();
+    if (!enabled) return;
+
+    const time = dayjs(now).format('HH:mm');
+    const weekday = now.getDay() || 7;
+    const due = schedule.some((s) => s.enabled && s.weekday === weekday && s.time === time);
+    if (!due) return;
+
+    // The unique slot makes a second instance (or a restart within the minute) skip the run
+    const slot = `${dayjs(now).format('YYYY-MM-DD')}T${time}`;
+    let runId: string;
+    try {
+      const run = await this.prisma.reminderRun.create({
+        data: { trigger: ReminderTrigger.Scheduled, slot },
+      });
+      runId = run.id;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return;
+      throw error;
+    }
+
+    await this.execute(runId, now);
+  }
+
+  async runNow(actorId: string) {
+    const run = await this.prisma.reminderRun.create({
+      data: { trigger: ReminderTrigger.Manual, triggeredById: actorId },
+    });
+
+    return this.execute(run.id, new Date());
+  }
+
+  private async execute(runId: string, now: Date) {
+    try {
+      const result = await this.sendReminders(now);
+      return await this.prisma.reminderRun.update({
+        where: { id: runId },
+        data: {
+          status: JobRunStatus.Succeeded,
+          checkedUsers: result.checkedUsers,
+          remindersSent: result.details.length,
+          escalationsSent: result.details.reduce((sum, d) => sum + d.escalatedTo.length, 0),
+          details: result.details as unknown as Prisma.InputJsonValue,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Reminder run ${runId} failed: ${error}`);
+      return this.prisma.reminderRun.update({
+        where: { id: runId },
+        data: {
+          status: JobRunStatus.Failed,
+          error: String(error),
+          finishedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  private async sendReminders(now: Date) {
+    const settings = await this.getSettings();
+    const today = dayjs(now).startOf('day');
+    const from = today.subtract(settings.lookbackDays - 1, 'day');
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        role: { in: [UserRole.Employee, UserRole.Manager] },
+      },
+      include: {
+        workloadActuals: {
+          where: { date: { gte: from.toDate(), lte: today.endOf('day').toDate() } },
+          select: { date: true },
+        },
+        projectUsers: {
+          where: { project: { deletedAt: null, status: ProjectStatus.Active } },
+          select: {
+            project: {
+              select: {
+                manager: {
+                  select: { id: true, firstName: true, lastName: true, email: true, telegramId: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const absences = await this.absenceService.getApprovedDays(
+      users.map((user) => user.id),
+      from.toDate(),
+      today.endOf('day').toDate(),
+    );
+    const calendar = await this.calendarService.getDayMap(from.format('YYYY-MM-DD'), today.format('YYYY-MM-DD'));
+    const details: RunDetail[] = [];
+
+    for (const user of users) {
+      const filled = new Set(user.workloadActuals.map((w) => dayjs(w.date).format('YYYY-MM-DD')));
+      const joined = dayjs(user.createdAt).startOf('day');
+      const absent = absences.get(user.id);
+
+      // Working days of the window the user was already employed and not absent, oldest first
+      const days: dayjs.Dayjs[] = [];
+      for (let day = from; !day.isAfter(today); day = day.add(1, 'day')) {
+        const isWorkingDay = (calendar.get(day.format('YYYY-MM-DD'))?.hours ?? 0) > 0;
+        if (isWorkingDay && !day.isBefore(joined) && !absent?.has(day.format('YYYY-MM-DD'))) {
+          days.push(day);
+        }
+      }
+
+      const missed = days.filter((day) => !filled.has(day.format('YYYY-MM-DD')));
+      if (missed.length === 0) continue;
+
+      // Missed days in a row, counted back from the latest working day
+      let consecutiveMissed = 0;
+      for (let i = days.length - 1; i >= 0 && !filled.has(days[i].format('YYYY-MM-DD')); i--) {
+        consecutiveMissed++;
+      }
+
+      const dates = missed.map((day) => day.format('DD.MM'));
+      const channels = await this.deliver(user, settings.channels, {
+        type: NotificationType.TimesheetReminder,
+        data: { dates },
+        subject: 'ProjectDB: missing timesheets',
+        text: [
+          `Hello, ${user.firstName}!`,
+          '',
+          `Your timesheet is missing for: ${dates.join(', ')}.`,
+          'Please fill it in on the Workload page.',
+        ].join('\n'),
+        telegramText: TELEGRAM_MESSAGES.timesheetReminder(dates),
+      });
+
+      // Escalate when the streak reaches the threshold, and again every threshold days after
+      const escalatedTo: string[] = [];
+      if (consecutiveMissed > 0 && consecutiveMissed % settings.escalateAfterDays === 0) {
+        const managers = new Map<string, Recipient>();
+        for (const { project } of user.projectUsers) {
+          const manager = project.manager;
+          if (manager && manager.id !== user.id) managers.set(manager.id, manager);
+        }
+
+        const employeeName = `${user.firstName} ${user.lastName}`;
+        for (const manager of managers.values()) {
+          await this.deliver(manager, settings.channels, {
+            type: NotificationType.TimesheetEscalation,
+            data: { employeeId: user.id, employeeName, days: consecutiveMissed },
+            subject: `ProjectDB: ${employeeName} has missing timesheets`,
+            text: [
+              `Hello, ${manager.firstName}!`,
+              '',
+              `${employeeName} has not filled in timesheets for ${consecutiveMissed} working days in a row.`,
+            ].join('\n'),
+            telegramText: TELEGRAM_MESSAGES.timesheetEscalation(employeeName, consecutiveMissed),
+          });
+          escalatedTo.push(manager.id);
+        }
+      }
+
+      details.push({
+        userId: user.id,
+        name: `${user.firstName} ${user.lastName}`,
+        missedDays: missed.map((day) => day.format('YYYY-MM-DD')),
+        consecutiveMissed,
+        channels,
+        escalatedTo,
+      });
+    }
+
+    return { checkedUsers: users.length, details };
+  }
+
+  // Sends through every enabled channel; a failing channel does not stop the others
+  private async deliver(recipient: Recipient, channels: ReminderChannel[], message: ReminderMessage) {
+    const delivered: ReminderChannel[] = [];
+
+    for (const channel of channels) {
+      try {
+        if (channel === ReminderChannel.InApp) {
+          await this.notificationService.notify({
+            userId: recipient.id,
+            type: message.type,
+            data: message.data,
+            link: '/workload',
+          });
+        } else if (channel === ReminderChannel.Email) {
+          await this.mailService.send({ to: recipient.email, subject: message.subject, text: message.text });
+        } else if (channel === ReminderChannel.Telegram) {
+          if (!recipient.telegramId || !this.telegramApi.isConfigured) continue;
+          await this.telegramApi.sendMessage(Number(recipient.telegramId), message.telegramText);
+        }
+        delivered.push(channel);
+      } catch (error) {
+        this.logger.warn(`${channel} reminder to user ${recipient.id} failed: ${error}`);
+      }
+    }
+
+    return delivered;
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InlineKeyboard, TelegramMessage, TelegramUpdate } from './telegram.types';
+
+// Thin Bot API client; TELEGRAM_API_URL can point at a local fake server for testing
+@Injectable()
+export class TelegramApiService {
+  private readonly token?: string;
+  private readonly apiUrl: string;
+
+  constructor(configService: ConfigService) {
+    this.token = configService.get<string>('TELEGRAM_BOT_TOKEN');
+    this.apiUrl = (configService.get<string>('TELEGRAM_API_URL') || 'https://api.telegram.org').replace(/\/+$/, '');
+  }
+
+  get isConfigured() {
+    return !!this.token;
+  }
+
+  async getUpdates(offset: number, timeoutSeconds: number, signal?: AbortSignal) {
+    return this.call<TelegramUpdate[]>(
+      'getUpdates',
+      { offset, timeout: timeoutSeconds, allowed_updates: ['message', 'callback_query'] },
+      signal,
+    );
+  }
+
+  async sendMessage(chatId: number, text: string, keyboard?: InlineKeyboard) {
+    return this.call<TelegramMessage>('sendMessage', {
+      chat_id: chatId,
+      text,
+      reply_markup: keyboard ? { inline_keyboard: keyboard } : undefined,
+    });
+  }
+
+  async answerCallbackQuery(callbackQueryId: string) {
+    return this.call<boolean>('answerCallbackQuery', { callback_query_id: callbackQueryId });
+  }
+
+  async setWebhook(url: string, secretToken?: string) {
+    return this.call<boolean>('setWebhook', {
+      url,
+      secret_token: secretToken,
+      allowed_updates: ['message', 'callback_query'],
+    });
+  }
+
+  async deleteWebhook() {
+    return this.call<boolean>('deleteWebhook');
+  }
+
+  private async call<T>(method: string, params: Record<string, unknown> = {}, signal?: AbortSignal) {
+    const response = await fetch(`${this.apiUrl}/bot${this.token}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal,
+    });
+
+    const body = (await response.json()) as { ok: boolean; result?: T; description?: string };
+    if (!body.ok) {
+      throw new Error(`Telegram ${method} failed: ${body.description || response.status}`);
+    }
+
+    return body.result as T;
+  }
+}
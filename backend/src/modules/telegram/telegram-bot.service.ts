@@ -0,0 +1,364 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { WorkloadActualService } from '../workload-actual/workload-actual.service';
+import { TimesheetReviewService } from '../workload-actual/timesheet-review.service';
+import { MAX_HOURS_PER_DAY } from '../workload-actual/timesheet-validation.service';
+import { MIN_DISTRIBUTION_HOURS } from '../workload-actual/dto/workload-actual.dto';
+import { WorkloadPlanService } from '../workload-plan/workload-plan.service';
+import { ProposalService } from '../proposal/proposal.service';
+import { LenconnectChatLogService } from '../lenconnect-chat-log/lenconnect-chat-log.service';
+import { TelegramApiService } from './telegram-api.service';
+import { TELEGRAM_MESSAGES as MSG } from './telegram.messages';
+import {
+  InlineKeyboard,
+  TelegramCallbackQuery,
+  TelegramMessage,
+  TelegramUpdate,
+} from './telegram.types';
+import { ChatRequestType, ChatRole, ProjectRole, ProjectStatus, User, UserRole } from '@prisma/client';
+
+interface DraftDistribution {
+  projectId: string;
+  projectName: string;
+  hours: number;
+  description: string;
+}
+
+// Conversation state per Telegram user, kept in memory between messages
+type ChatState =
+  | { type: 'proposal' }
+  | { type: 'report'; distributions: DraftDistribution[]; pendingProject?: { id: string; name: string } };
+
+// Button payloads (callback_data is limited to 64 bytes, a project id fits)
+const CALLBACK_PROJECT = 'report:project:';
+const CALLBACK_ADD = 'report:add';
+const CALLBACK_SUBMIT = 'report:submit';
+const CALLBACK_CANCEL = 'report:cancel';
+
+@Injectable()
+export class TelegramBotService {
+  private readonly logger = new Logger(TelegramBotService.name);
+  private readonly states = new Map<number, ChatState>();
+
+  constructor(
+    private prisma: PrismaService,
+    private telegramApi: TelegramApiService,
+    private workloadActualService: WorkloadActualService,
+    private timesheetReviewService: TimesheetReviewService,
+    private workloadPlanService: WorkloadPlanService,
+    private proposalService: ProposalService,
+    private chatLogService: LenconnectChatLogService,
+  ) {}
+
+  // Entry point for both polling and webhook; errors are logged so one bad update does not stop the bot
+  async handleUpdate(update: TelegramUpdate) {
+    try {
+      if (update.message) {
+        await this.handleMessage(update.message);
+      } else if (update.callback_query) {
+        await this.handleCallback(update.callback_query);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to handle Telegram update ${update.update_id}: ${error}`);
+    }
+  }
+
+  private async handleMessage(message: TelegramMessage) {
+    if (!message.from || !message.text) return;
+
+    const chatId = message.chat.id;
+    const text = message.text.trim();
+    const user = await this.findUser(message.from.id);
+
+    if (!user) {
+      await this.telegramApi.sendMessage(chatId, MSG.notLinked(message.from.id));
+      return;
+    }
+
+    const state = this.states.get(message.from.id);
+    const command = text.startsWith('/') ? text.split(/[\s@]/)[0].toLowerCase() : null;
+    const requestType =
+      command === '/proposal' || (!command && state?.type === 'proposal')
+        ? ChatRequestType.Proposal
+        : ChatRequestType.Report;
+
+    await this.log(user.id, ChatRole.User, text, requestType);
+
+    switch (command) {
+      case '/start':
+      case '/help':
+        await this.reply(user, chatId, `${MSG.greeting(user.firstName)}\n\n${MSG.help}`, requestType);
+        return;
+      case '/plan':
+        await this.sendTodayPlan(user, chatId);
+        return;
+      case '/report':
+        await this.startReport(user, chatId, message.from.id);
+        return;
+      case '/proposal':
+        if (user.role === UserRole.Trial) {
+          await this.reply(user, chatId, MSG.trialReadOnly, requestType);
+          return;
+        }
+        this.states.set(message.from.id, { type: 'proposal' });
+        await this.reply(user, chatId, MSG.enterProposal, requestType);
+        return;
+      case '/cancel':
+        await this.reply(
+          user,
+          chatId,
+          this.states.delete(message.from.id) ? MSG.cancelled : MSG.nothingToCancel,
+          requestType,
+        );
+        return;
+    }
+
+    if (!command && state?.type === 'proposal') {
+      this.states.delete(message.from.id);
+      await this.proposalService.create(user.id, { proposal: text });
+      await this.reply(user, chatId, MSG.proposalSubmitted, requestType);
+      return;
+    }
+
+    if (!command && state?.type === 'report' && state.pendingProject) {
+      await this.addDistribution(user, chatId, state, text);
+      return;
+    }
+
+    await this.reply(user, chatId, MSG.help, requestType);
+  }
+
+  private async handleCallback(query: TelegramCallbackQuery) {
+    await this.telegramApi.answerCallbackQuery(query.id);
+
+    const chatId = query.message?.chat.id;
+    if (!chatId || !query.data) return;
+
+    const user = await this.findUser(query.from.id);
+    if (!user) {
+      await this.telegramApi.sendMessage(chatId, MSG.notLinked(query.from.id));
+      return;
+    }
+
+    const state = this.states.get(query.from.id);
+    const report = state?.type === 'report' ? state : null;
+
+    if (query.data.startsWith(CALLBACK_PROJECT) && report) {
+      const projectId = query.data.slice(CALLBACK_PROJECT.length);
+      const project = (await this.findAssignedProjects(user.id)).find((p) => p.id === projectId);
+      if (!project) return;
+
+      await this.log(user.id, ChatRole.User, project.name, ChatRequestType.Report);
+      report.pendingProject = project;
+      await this.reply(user, chatId, MSG.enterHours(project.name), ChatRequestType.Report);
+    } else if (query.data === CALLBACK_ADD && report) {
+      await this.log(user.id, ChatRole.User, MSG.addProject, ChatRequestType.Report);
+      await this.sendProjectChoice(user, chatId);
+    } else if (query.data === CALLBACK_SUBMIT && report) {
+      await this.log(user.id, ChatRole.User, MSG.submit, ChatRequestType.Report);
+      await this.submitReport(user, chatId, query.from.id, report.distributions);
+    } else if (query.data === CALLBACK_CANCEL && report) {
+      await this.log(user.id, ChatRole.User, MSG.cancel, ChatRequestType.Report);
+      this.states.delete(query.from.id);
+      await this.reply(user, chatId, MSG.cancelled, ChatRequestType.Report);
+    }
+  }
+
+  private async sendTodayPlan(user: User, chatId: number) {
+    const { start, end } = this.today();
+    const plans = await this.workloadPlanService.findAll({
+      userId: user.id,
+      startDate: start,
+      endDate: end,
+    });
+
+    const text = plans.length
+      ? MSG.plan(
+          plans.map((plan) =>
+            MSG.planLine(plan.project.name, plan.hours, `${plan.manager.firstName} ${plan.manager.lastName}`),
+          ),
+        )
+      : MSG.noPlan;
+    await this.reply(user, chatId, text, ChatRequestType.Report);
+  }
+
+  private async startReport(user: User, chatId: number, telegramId: number) {
+    if (user.role === UserRole.Trial) {
+      await this.reply(user, chatId, MSG.trialReadOnly, ChatRequestType.Report);
+      return;
+    }
+
+    const existing = await this.workloadActualService.findByUserAndDate(user.id, new Date());
+    if (existing) {
+      await this.reply(user, chatId, MSG.reportAlreadySubmitted, ChatRequestType.Report);
+      return;
+    }
+
+    this.states.set(telegramId, { type: 'report', distributions: [] });
+    await this.sendProjectChoice(user, chatId);
+  }
+
+  private async sendProjectChoice(user: User, chatId: number) {
+    const projects = await this.findAssignedProjects(user.id);
+    if (projects.length === 0) {
+      await this.reply(user, chatId, MSG.noProjects, ChatRequestType.Report);
+      return;
+    }
+
+    const keyboard: InlineKeyboard = projects.map((project) => [
+      { text: project.name, callback_data: `${CALLBACK_PROJECT}${project.id}` },
+    ]);
+    keyboard.push([{ text: MSG.cancel, callback_data: CALLBACK_CANCEL }]);
+
+    await this.reply(user, chatId, MSG.chooseProject, ChatRequestType.Report, keyboard);
+  }
+
+  // Expects "<hours> <description>", e.g. "4 Обмеры" or "2,5 Совещание"
+  private async addDistribution(
+    user: User,
+    chatId: number,
+    state: Extract<ChatState, { type: 'report' }>,
+    text: string,
+  ) {
+    const match = text.match(/^(\d+(?:[.,]\d+)?)\s*(?:ч\.?|h)?[\s,;:-]*(.*)$/is);
+    const hours = match ? Number(match[1].replace(',', '.')) : NaN;
+
+    if (!match || !(hours >= MIN_DISTRIBUTION_HOURS) || hours > MAX_HOURS_PER_DAY) {
+      await this.reply(user, chatId, MSG.invalidHours, ChatRequestType.Report);
+      return;
+    }
+
+    const total = this.sumHours(state.distributions) + hours;
+    if (total > MAX_HOURS_PER_DAY) {
+      await this.reply(user, chatId, MSG.dayLimitExceeded, ChatRequestType.Report);
+      return;
+    }
+
+    state.distributions.push({
+      projectId: state.pendingProject!.id,
+      projectName: state.pendingProject!.name,
+      hours,
+      description: match[2].trim(),
+    });
+    state.pendingProject = undefined;
+
+    await this.sendDraft(user, chatId, state.distributions);
+  }
+
+  private async sendDraft(user: User, chatId: number, distributions: DraftDistribution[]) {
+    const lines = distributions.map(
+      (d) => `• ${d.projectName}: ${d.hours} ч${d.description ? ` — ${d.description}` : ''}`,
+    );
+    const keyboard: InlineKeyboard = [
+      [{ text: MSG.addProject, callback_data: CALLBACK_ADD }],
+      [
+        { text: MSG.submit, callback_data: CALLBACK_SUBMIT },
+        { text: MSG.cancel, callback_data: CALLBACK_CANCEL },
+      ],
+    ];
+
+    await this.reply(user, chatId, MSG.draft(lines, this.sumHours(distributions)), ChatRequestType.Report, keyboard);
+  }
+
+  private async submitReport(
+    user: User,
+    chatId: number,
+    telegramId: number,
+    distributions: DraftDistribution[],
+  ) {
+    if (distributions.length === 0) {
+      await this.reply(user, chatId, MSG.reportEmpty, ChatRequestType.Report);
+      return;
+    }
+
+    const total = this.sumHours(distributions);
+    let workloadId: string;
+    try {
+      const workload = await this.workloadActualService.create({
+        userId: user.id,
+        date: new Date(),
+        hoursWorked: total,
+        distributions: distributions.map((d) => ({
+          projectId: d.projectId,
+          hours: d.hours,
+          description: d.description,
+        })),
+      });
+      workloadId = workload.id;
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.states.delete(telegramId);
+        await this.reply(user, chatId, MSG.reportAlreadySubmitted, ChatRequestType.Report);
+        return;
+      }
+      this.logger.error(`Failed to save Telegram report of user ${user.id}: ${error}`);
+      await this.reply(user, chatId, MSG.reportFailed, ChatRequestType.Report);
+      return;
+    }
+
+    // The report is saved from here on, a retry from the draft would only hit the existing report
+    this.states.delete(telegramId);
+
+    // A report sent from the bot goes straight to the project managers for review
+    try {
+      await this.timesheetReviewService.submit(workloadId, { sub: user.id, role: user.role });
+    } catch (error) {
+      this.logger.error(`Failed to submit Telegram report ${workloadId} of user ${user.id}: ${error}`);
+      await this.reply(user, chatId, MSG.reportSubmitFailed(total), ChatRequestType.Report);
+      return;
+    }
+
+    await this.reply(user, chatId, MSG.reportSubmitted(total), ChatRequestType.Report);
+  }
+
+  // Active, not deleted projects the user is assigned to and may report hours on
+  private async findAssignedProjects(userId: string) {
+    const assignments = await this.prisma.projectUser.findMany({
+      where: {
+        userId,
+        role: { not: ProjectRole.Viewer },
+        project: { deletedAt: null, status: ProjectStatus.Active },
+      },
+      include: {
+        project: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { project: { name: 'asc' } },
+    });
+
+    return assignments.map((a) => a.project);
+  }
+
+  private async findUser(telegramId: number) {
+    return this.prisma.user.findFirst({
+      where: { telegramId: BigInt(telegramId) },
+    });
+  }
+
+  private async reply(
+    user: User,
+    chatId: number,
+    text: string,
+    requestType: ChatRequestType,
+    keyboard?: InlineKeyboard,
+  ) {
+    await this.telegramApi.sendMessage(chatId, text, keyboard);
+    await this.log(user.id, ChatRole.Assistant, text, requestType);
+  }
+
+  private async log(userId: string, role: ChatRole, content: string, requestType: ChatRequestType) {
+    await this.chatLogService.create({ userId, role, content, requestType });
+  }
+
+  private sumHours(distributions: DraftDistribution[]) {
+    return distributions.reduce((sum, d) => sum + d.hours, 0);
+  }
+
+  // Plan dates are UTC midnight of the calendar day, today is the server's calendar day
+  private today() {
+    const start = new Date(dayjs().format('YYYY-MM-DD'));
+    return { start, end: start };
+  }
+}
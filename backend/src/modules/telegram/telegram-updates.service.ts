@@ -0,0 +1,87 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TelegramApiService } from './telegram-api.service';
+import { TelegramBotService } from './telegram-bot.service';
+import { TelegramMode } from './telegram.types';
+
+const POLL_TIMEOUT_SECONDS = 30;
+const POLL_RETRY_DELAY_MS = 5000;
+
+// Starts receiving updates: a long-poll loop, or registers the webhook with Telegram
+@Injectable()
+export class TelegramUpdatesService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(TelegramUpdatesService.name);
+  private readonly mode: TelegramMode;
+  private polling = false;
+  private abortController?: AbortController;
+
+  constructor(
+    private telegramApi: TelegramApiService,
+    private telegramBot: TelegramBotService,
+    private configService: ConfigService,
+  ) {
+    this.mode = configService.get<string>('TELEGRAM_MODE') === 'webhook' ? 'webhook' : 'polling';
+  }
+
+  get isWebhookMode() {
+    return this.telegramApi.isConfigured && this.mode === 'webhook';
+  }
+
+  async onApplicationBootstrap() {
+    if (!this.telegramApi.isConfigured) {
+      this.logger.log('Telegram bot disabled: TELEGRAM_BOT_TOKEN is not set');
+      return;
+    }
+
+    try {
+      if (this.mode === 'webhook') {
+        const url = this.configService.get<string>('TELEGRAM_WEBHOOK_URL');
+        if (!url) {
+          this.logger.error('TELEGRAM_MODE=webhook requires TELEGRAM_WEBHOOK_URL');
+          return;
+        }
+        await this.telegramApi.setWebhook(url, this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET'));
+        this.logger.log(`Telegram webhook registered at ${url}`);
+        return;
+      }
+
+      // getUpdates is refused while a webhook is set
+      await this.telegramApi.deleteWebhook();
+    } catch (error) {
+      this.logger.error(`Telegram bot setup failed: ${error}`);
+      return;
+    }
+
+    this.polling = true;
+    this.logger.log('Telegram bot started in long-poll mode');
+    void this.poll();
+  }
+
+  onModuleDestroy() {
+    this.polling = false;
+    this.abortController?.abort();
+  }
+
+  private async poll() {
+    let offset = 0;
+
+    while (this.polling) {
+      this.abortController = new AbortController();
+      try {
+        const updates = await this.telegramApi.getUpdates(
+          offset,
+          POLL_TIMEOUT_SECONDS,
+          this.abortController.signal,
+        );
+        for (const update of updates) {
+          offset = update.update_id + 1;
+          await this.telegramBot.handleUpdate(update);
+        }
+      } catch (error) {
+        if (!this.polling) break;
+        this.logger.error(`Telegram polling failed: ${error}`);
+        await new Promise((resolve) => setTimeout(resolve, POLL_RETRY_DELAY_MS));
+      }
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { Body, Controller, ForbiddenException, Headers, HttpCode, NotFoundException, Post } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TelegramBotService } from './telegram-bot.service';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { TelegramUpdate } from './telegram.types';
+
+@Controller('telegram')
+export class TelegramController {
+  constructor(
+    private readonly telegramBot: TelegramBotService,
+    private readonly telegramUpdates: TelegramUpdatesService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Called by Telegram in webhook mode; the secret header proves the request comes from Telegram
+  @Post('webhook')
+  @HttpCode(200)
+  async webhook(
+    @Body() update: TelegramUpdate,
+    @Headers('x-telegram-bot-api-secret-token') secretToken?: string,
+  ) {
+    if (!this.telegramUpdates.isWebhookMode) {
+      throw new NotFoundException();
+    }
+
+    const expectedSecret = this.configService.get<string>('TELEGRAM_WEBHOOK_SECRET');
+    if (expectedSecret && secretToken !== expectedSecret) {
+      throw new ForbiddenException('Invalid webhook secret');
+    }
+
+    await this.telegramBot.handleUpdate(update);
+    return { ok: true };
+  }
+}
@@ -0,0 +1,43 @@
+// Bot replies; the engineers using the bot work in Russian
+export const TELEGRAM_MESSAGES = {
+  notLinked: (telegramId: number) =>
+    `Ваш Telegram не привязан к учётной записи ProjectDB.\n` +
+    `Передайте администратору ваш Telegram ID: ${telegramId}`,
+  help:
+    'Команды:\n' +
+    '/report — отчёт о работе за сегодня\n' +
+    '/plan — план на сегодня\n' +
+    '/proposal — отправить предложение\n' +
+    '/cancel — отменить текущее действие',
+  greeting: (firstName: string) => `Здравствуйте, ${firstName}!`,
+  trialReadOnly: 'Пробная учётная запись не может отправлять отчёты и предложения.',
+  noPlan: 'На сегодня план не назначен.',
+  plan: (lines: string[]) => `План на сегодня:\n${lines.join('\n')}`,
+  planLine: (projectName: string, hours: number, managerName: string) =>
+    `${projectName} — ${hours} ч (назначил: ${managerName})`,
+  reportAlreadySubmitted: 'Отчёт за сегодня уже отправлен.',
+  noProjects: 'Вы не назначены ни на один активный проект. Обратитесь к руководителю.',
+  chooseProject: 'Выберите проект, над которым работали:',
+  enterHours: (projectName: string) =>
+    `${projectName}\nНапишите часы и описание работ, например: 4 Обмеры на объекте`,
+  invalidHours: 'Не удалось распознать часы. Напишите число от 0,5 до 24 и описание, например: 2.5 Совещание',
+  dayLimitExceeded: 'Сумма часов за день не может превышать 24.',
+  draft: (lines: string[], total: number) =>
+    `Отчёт за сегодня:\n${lines.join('\n')}\nИтого: ${total} ч`,
+  addProject: 'Добавить проект',
+  submit: 'Отправить',
+  cancel: 'Отмена',
+  reportEmpty: 'В отчёте нет ни одного проекта.',
+  reportSubmitted: (total: number) => `Отчёт отправлен: ${total} ч. Спасибо!`,
+  reportFailed: 'Не удалось сохранить отчёт. Попробуйте позже или заполните его в веб-приложении.',
+  reportSubmitFailed: (total: number) =>
+    `Отчёт сохранён (${total} ч), но не отправлен на согласование. Отправьте его в веб-приложении.`,
+  enterProposal: 'Опишите ваше предложение одним сообщением:',
+  proposalSubmitted: 'Предложение отправлено. Спасибо!',
+  cancelled: 'Действие отменено.',
+  nothingToCancel: 'Нет активного действия.',
+  timesheetReminder: (dates: string[]) =>
+    `Не заполнен отчёт о работе за: ${dates.join(', ')}.\nОтправьте его командой /report или в веб-приложении.`,
+  timesheetEscalation: (employeeName: string, days: number) =>
+    `${employeeName} не заполняет отчёты о работе ${days} рабочих дней подряд.`,
+};
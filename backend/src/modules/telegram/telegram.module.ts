@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TelegramController } from './telegram.controller';
+import { TelegramApiService } from './telegram-api.service';
+import { TelegramBotService } from './telegram-bot.service';
+import { TelegramUpdatesService } from './telegram-updates.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { WorkloadActualModule } from '../workload-actual/workload-actual.module';
+import { WorkloadPlanModule } from '../workload-plan/workload-plan.module';
+import { ProposalModule } from '../proposal/proposal.module';
+import { LenconnectChatLogModule } from '../lenconnect-chat-log/lenconnect-chat-log.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    WorkloadActualModule,
+    WorkloadPlanModule,
+    ProposalModule,
+    LenconnectChatLogModule,
+  ],
+  controllers: [TelegramController],
+  providers: [TelegramApiService, TelegramBotService, TelegramUpdatesService],
+  exports: [TelegramApiService],
+})
+export class TelegramModule {}
@@ -0,0 +1,42 @@
+// Subset of the Telegram Bot API objects the bot works with
+export interface TelegramUser {
+  id: number;
+  first_name: string;
+  username?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  from?: TelegramUser;
+  chat: TelegramChat;
+  date: number;
+  text?: string;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data: string;
+}
+
+export type InlineKeyboard = InlineKeyboardButton[][];
+
+// How updates are received, chosen by TELEGRAM_MODE (polling | webhook)
+export type TelegramMode = 'polling' | 'webhook';
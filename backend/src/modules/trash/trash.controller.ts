@@ -0,0 +1,58 @@
+import { Controller, Get, Patch, Delete, Param, UseGuards } from '@nestjs/common';
+import { ProjectService } from '../project/project.service';
+import { CompanyService } from '../company/company.service';
+import { DocumentService } from '../document/document.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { AdminGuard } from '../../common/guards/roles.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+
+@Controller('trash')
+@UseGuards(JwtAuthGuard, AdminGuard) // Trash bin is Admin only
+export class TrashController {
+  constructor(
+    private readonly projectService: ProjectService,
+    private readonly companyService: CompanyService,
+    private readonly documentService: DocumentService,
+  ) {}
+
+  @Get()
+  async findAll() {
+    const [projects, companies, documents] = await Promise.all([
+      this.projectService.findDeleted(),
+      this.companyService.findDeleted(),
+      this.documentService.findDeleted(),
+    ]);
+
+    return { projects, companies, documents };
+  }
+
+  @Patch('projects/:uuid/restore')
+  async restoreProject(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.projectService.restore(uuid, actorId);
+  }
+
+  @Delete('projects/:uuid')
+  async purgeProject(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.projectService.purge(uuid, actorId);
+  }
+
+  @Patch('companies/:uuid/restore')
+  async restoreCompany(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.companyService.restore(uuid, actorId);
+  }
+
+  @Delete('companies/:uuid')
+  async purgeCompany(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.companyService.purge(uuid, actorId);
+  }
+
+  @Patch('documents/:uuid/restore')
+  async restoreDocument(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.documentService.restore(uuid, actorId);
+  }
+
+  @Delete('documents/:uuid')
+  async purgeDocument(@Param('uuid') uuid: string, @CurrentUser('sub') actorId: string) {
+    return this.documentService.purge(uuid, actorId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TrashController } from './trash.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { UsersModule } from '../users/users.module';
+import { ProjectModule } from '../project/project.module';
+import { CompanyModule } from '../company/company.module';
+import { DocumentModule } from '../document/document.module';
+
+@Module({
+  imports: [PrismaModule, UsersModule, ProjectModule, CompanyModule, DocumentModule],
+  controllers: [TrashController],
+})
+export class TrashModule {}
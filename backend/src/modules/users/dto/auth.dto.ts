@@ -1,5 +1,6 @@
 import { IsEmail, IsString, MinLength, IsOptional, IsEnum, IsNumber, IsDateString } from 'class-validator';
-import { UserRole } from '@prisma/client';
+import { LoginAttemptResult, UserRole } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
 
 export class LoginDto {
   @IsEmail()
@@ -81,3 +82,31 @@ export class UpdateUserDto {
   @IsOptional()
   dateBirth?: string;
 }
+
+export class ForgotPasswordDto {
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  @MinLength(6)
+  newPassword: string;
+}
+
+export class LoginAttemptQueryDto extends PaginationQueryDto {
+  @IsString()
+  @IsOptional()
+  email?: string;
+
+  @IsString()
+  @IsOptional()
+  ipAddress?: string;
+
+  @IsEnum(LoginAttemptResult)
+  @IsOptional()
+  result?: LoginAttemptResult;
+}
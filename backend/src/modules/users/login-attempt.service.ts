@@ -0,0 +1,209 @@
+import { Injectable, HttpException, HttpStatus, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { LoginAttemptQueryDto } from './dto/auth.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { AuditAction, LoginAttemptResult, User } from '@prisma/client';
+import type { SessionMeta } from './users.service';
+
+const BASE_FAILURE_DELAY_MS = 500;
+const MAX_FAILURE_DELAY_MS = 8000;
+
+// Public sort keys of the login attempt list
+const LOGIN_ATTEMPT_SORT_FIELDS = {
+  createdAt: 'createdAt',
+  email: 'email',
+  ipAddress: 'ipAddress',
+  result: 'result',
+};
+
+const lockedUserSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  role: true,
+  failedLoginCount: true,
+  lockedUntil: true,
+};
+
+@Injectable()
+export class LoginAttemptService {
+  // Consecutive failures of one account before it is locked
+  private readonly maxFailedAttempts: number;
+  private readonly lockoutMs: number;
+  // Failures from one IP address (any email) allowed within the window
+  private readonly maxIpFailedAttempts: number;
+  private readonly ipWindowMs: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    configService: ConfigService,
+  ) {
+    this.maxFailedAttempts = Number(configService.get('LOGIN_MAX_FAILED_ATTEMPTS')) || 5;
+    this.lockoutMs = (Number(configService.get('LOGIN_LOCKOUT_MINUTES')) || 15) * 60 * 1000;
+    this.maxIpFailedAttempts = Number(configService.get('LOGIN_IP_MAX_FAILED_ATTEMPTS')) || 20;
+    this.ipWindowMs = (Number(configService.get('LOGIN_IP_WINDOW_MINUTES')) || 15) * 60 * 1000;
+  }
+
+  // Called before the password is checked, rejects throttled addresses and locked accounts
+  async assertCanAttempt(email: string, user: User | null, meta?: SessionMeta) {
+    if (meta?.ipAddress) {
+      const since = new Date(Date.now() - this.ipWindowMs);
+      const ipFailures = await this.prisma.loginAttempt.count({
+        where: {
+          ipAddress: meta.ipAddress,
+          // Only wrong passwords count, rejections by the throttle or a lock would extend it forever
+          result: LoginAttemptResult.InvalidCredentials,
+          createdAt: { gte: since },
+        },
+      });
+
+      if (ipFailures >= this.maxIpFailedAttempts) {
+        await this.record(email, user, LoginAttemptResult.Throttled, meta);
+        throw new HttpException(
+          'Too many failed login attempts from this address. Try again later',
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    if (user?.lockedUntil && user.lockedUntil > new Date()) {
+      await this.record(email, user, LoginAttemptResult.Locked, meta);
+      const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+      throw new HttpException(
+        `Account is temporarily locked after too many failed logins. Try again in ${minutes} min`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  // Records the failure, locks the account once the limit is reached and slows down the answer
+  async registerFailure(email: string, user: User | null, meta?: SessionMeta) {
+    await this.record(email, user, LoginAttemptResult.InvalidCredentials, meta);
+
+    let failures: number;
+    if (user) {
+      const updated = await this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginCount: { increment: 1 } },
+      });
+      failures = updated.failedLoginCount;
+
+      if (failures >= this.maxFailedAttempts) {
+        // The counter starts over, so an expired lock is not re-applied on the first mistake
+        await this.prisma.user.update({
+          where: { id: user.id },
+          data: { failedLoginCount: 0, lockedUntil: new Date(Date.now() + this.lockoutMs) },
+        });
+      }
+    } else {
+      // Unknown emails get the same delays, so the timing does not reveal which accounts exist
+      failures = await this.prisma.loginAttempt.count({
+        where: {
+          email,
+          result: LoginAttemptResult.InvalidCredentials,
+          createdAt: { gte: new Date(Date.now() - this.lockoutMs) },
+        },
+      });
+    }
+
+    const delay = Math.min(BASE_FAILURE_DELAY_MS * 2 ** Math.max(failures - 1, 0), MAX_FAILURE_DELAY_MS);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  async registerSuccess(email: string, user: User, meta?: SessionMeta) {
+    await this.record(email, user, LoginAttemptResult.Success, meta);
+
+    if (user.failedLoginCount > 0 || user.lockedUntil) {
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { failedLoginCount: 0, lockedUntil: null },
+      });
+    }
+  }
+
+  // Admin only
+  async findAttempts(query: LoginAttemptQueryDto) {
+    const where: any = {};
+    if (query.email) where.email = query.email.trim().toLowerCase();
+    if (query.ipAddress) where.ipAddress = query.ipAddress;
+    if (query.result) where.result = query.result;
+
+    const search = buildSearchFilter(query.search, ['email', 'ipAddress']);
+    if (search) where.OR = search;
+
+    const orderBy = buildOrderBy(query, LOGIN_ATTEMPT_SORT_FIELDS, { createdAt: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.loginAttempt.findMany({
+          where,
+          include: {
+            user: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.loginAttempt.count({ where }),
+    );
+  }
+
+  async findLockedAccounts() {
+    return this.prisma.user.findMany({
+      where: { lockedUntil: { gt: new Date() } },
+      select: lockedUserSelect,
+      orderBy: { lockedUntil: 'desc' },
+    });
+  }
+
+  async unlock(userId: string, actorId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: lockedUserSelect,
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginCount: 0, lockedUntil: null },
+      select: lockedUserSelect,
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'User',
+      entityId: userId,
+      action: AuditAction.Update,
+      before: user,
+      after: updated,
+    });
+
+    return updated;
+  }
+
+  private async record(
+    email: string,
+    user: User | null,
+    result: LoginAttemptResult,
+    meta?: SessionMeta,
+  ) {
+    await this.prisma.loginAttempt.create({
+      data: {
+        email,
+        userId: user?.id,
+        result,
+        ipAddress: meta?.ipAddress,
+        userAgent: meta?.userAgent,
+      },
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import { Injectable, BadRequestException, HttpException, HttpStatus, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { ResetPasswordDto } from './dto/auth.dto';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  private readonly maxRequestsPerEmail: number;
+  private readonly maxRequestsPerIp: number;
+  private readonly windowMs: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private mailService: MailService,
+    private configService: ConfigService,
+  ) {
+    this.maxRequestsPerEmail = Number(configService.get('RESET_MAX_REQUESTS_PER_EMAIL')) || 3;
+    this.maxRequestsPerIp = Number(configService.get('RESET_MAX_REQUESTS_PER_IP')) || 10;
+    this.windowMs = (Number(configService.get('RESET_WINDOW_MINUTES')) || 60) * 60 * 1000;
+  }
+
+  // Self-service request from the login page, the answer never reveals whether the email exists.
+  // The link is sent in the background, so known and unknown emails answer equally fast.
+  async requestReset(email: string, ipAddress?: string) {
+    const normalized = email.trim().toLowerCase();
+    await this.assertCanRequest(normalized, ipAddress);
+
+    void this.sendResetLink(normalized).catch((error) =>
+      this.logger.error(`Password reset for ${normalized} failed: ${error}`),
+    );
+
+    return { message: 'If the account exists, a password reset link has been sent' };
+  }
+
+  // Admin-initiated reset, the link goes to the user's email
+  async requestResetForUser(userId: string, requestedById: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const { expiresAt } = await this.issueToken(user, requestedById);
+
+    return { message: 'Password reset link sent', email: user.email, expiresAt };
+  }
+
+  async resetPassword(dto: ResetPasswordDto) {
+    const resetToken = await this.prisma.passwordResetToken.findUnique({
+      where: { tokenHash: this.hashToken(dto.token) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      throw new BadRequestException('Reset link is invalid or has expired');
+    }
+
+    const passwordHash = await bcrypt.hash(dto.newPassword, 10);
+
+    await this.prisma.$transaction(async (tx) => {
+      // Single use: of two parallel requests with the same token only one gets past this update
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Reset link is invalid or has expired');
+      }
+
+      // Proving access to the mailbox also lifts a lockout after failed logins
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { passwordHash, failedLoginCount: 0, lockedUntil: null },
+      });
+
+      // Log the user out everywhere, like a password change does
+      await tx.refreshToken.deleteMany({
+        where: { userId: resetToken.userId },
+      });
+    });
+
+    return { message: 'Password has been reset successfully' };
+  }
+
+  // Counts the request against the per-email and per-IP limits of the window
+  private async assertCanRequest(email: string, ipAddress?: string) {
+    const since = new Date(Date.now() - this.windowMs);
+    const [byEmail, byIp] = await Promise.all([
+      this.prisma.passwordResetRequest.count({ where: { email, createdAt: { gte: since } } }),
+      ipAddress
+        ? this.prisma.passwordResetRequest.count({ where: { ipAddress, createdAt: { gte: since } } })
+        : 0,
+    ]);
+
+    if (byEmail >= this.maxRequestsPerEmail || byIp >= this.maxRequestsPerIp) {
+      throw new HttpException('Too many password reset requests. Try again later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    await this.prisma.passwordResetRequest.create({
+      data: { email, ipAddress },
+    });
+  }
+
+  private async sendResetLink(email: string) {
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+    });
+
+    if (user) {
+      await this.issueToken(user);
+    }
+  }
+
+  private async issueToken(
+    user: { id: string; email: string; firstName: string },
+    requestedById?: string,
+  ) {
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+
+    // Only the latest link stays valid
+    await this.prisma.passwordResetToken.deleteMany({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    await this.prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: this.hashToken(token),
+        expiresAt,
+        requestedById,
+      },
+    });
+
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:5173';
+    const link = `${frontendUrl}/reset-password?token=${token}`;
+
+    await this.mailService.send({
+      to: user.email,
+      subject: 'ProjectDB password reset',
+      text: [
+        `Hello, ${user.firstName}!`,
+        '',
+        'A password reset was requested for your ProjectDB account.',
+        'Open the link below to set a new password. The link is valid for 1 hour and works only once.',
+        '',
+        link,
+        '',
+        'If you did not request a reset, ignore this message: your password stays unchanged.',
+      ].join('\n'),
+    });
+
+    return { expiresAt };
+  }
+
+  // Only the hash is stored, so a leaked database does not contain usable links
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
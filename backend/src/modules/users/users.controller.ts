@@ -8,33 +8,76 @@ import {
   Param,
   UseGuards,
   Query,
+  Headers,
+  Ip,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
-import { LoginDto, RegisterDto, ChangePasswordDto, UpdateUserDto } from './dto/auth.dto';
+import { PasswordResetService } from './password-reset.service';
+import { LoginAttemptService } from './login-attempt.service';
+import {
+  LoginDto,
+  RegisterDto,
+  ChangePasswordDto,
+  UpdateUserDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  LoginAttemptQueryDto,
+} from './dto/auth.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { AdminGuard, ManagerGuard } from '../../common/guards/roles.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
 @Controller('auth')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly loginAttemptService: LoginAttemptService,
+  ) {}
 
   // Public endpoints
   @Post('login')
-  async login(@Body() dto: LoginDto) {
-    return this.usersService.login(dto);
+  async login(
+    @Body() dto: LoginDto,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.usersService.login(dto, { userAgent, ipAddress });
   }
 
   // Admin only - register new users
   @Post('register')
   @UseGuards(JwtAuthGuard, AdminGuard)
-  async register(@Body() dto: RegisterDto) {
-    return this.usersService.register(dto);
+  async register(@Body() dto: RegisterDto, @CurrentUser('sub') actorId: string) {
+    return this.usersService.register(dto, actorId);
   }
 
   @Post('refresh')
-  async refresh(@Body('refreshToken') refreshToken: string) {
-    return this.usersService.refreshTokens(refreshToken);
+  async refresh(
+    @Body('refreshToken') refreshToken: string,
+    @Headers('user-agent') userAgent?: string,
+    @Ip() ipAddress?: string,
+  ) {
+    return this.usersService.refreshTokens(refreshToken, { userAgent, ipAddress });
+  }
+
+  // Ends the session the access token belongs to
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  async logout(@CurrentUser('sub') userId: string, @CurrentUser('sid') sessionId?: string) {
+    return this.usersService.logout(userId, sessionId);
+  }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  async getSessions(@CurrentUser('sub') userId: string, @CurrentUser('sid') sessionId?: string) {
+    return this.usersService.getSessions(userId, sessionId);
+  }
+
+  @Delete('sessions/:sessionId')
+  @UseGuards(JwtAuthGuard)
+  async revokeSession(@CurrentUser('sub') userId: string, @Param('sessionId') sessionId: string) {
+    return this.usersService.revokeSession(userId, sessionId);
   }
 
   @Post('check')
@@ -43,6 +86,44 @@ export class UsersController {
     return this.usersService.validateToken(userId);
   }
 
+  // Public - request a reset link for a forgotten password
+  @Post('forgot-password')
+  async forgotPassword(@Body() dto: ForgotPasswordDto, @Ip() ipAddress?: string) {
+    return this.passwordResetService.requestReset(dto.email, ipAddress);
+  }
+
+  // Public - set a new password with the one-time token from the link
+  @Post('reset-password')
+  async resetPassword(@Body() dto: ResetPasswordDto) {
+    return this.passwordResetService.resetPassword(dto);
+  }
+
+  // Admin only - send a reset link to a user
+  @Post(':id/password-reset')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  async sendPasswordReset(@Param('id') id: string, @CurrentUser('sub') actorId: string) {
+    return this.passwordResetService.requestResetForUser(id, actorId);
+  }
+
+  // Admin only - login history and account lockouts
+  @Get('login-attempts')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  async getLoginAttempts(@Query() query: LoginAttemptQueryDto) {
+    return this.loginAttemptService.findAttempts(query);
+  }
+
+  @Get('lockouts')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  async getLockedAccounts() {
+    return this.loginAttemptService.findLockedAccounts();
+  }
+
+  @Delete('lockouts/:userId')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  async unlockAccount(@Param('userId') userId: string, @CurrentUser('sub') actorId: string) {
+    return this.loginAttemptService.unlock(userId, actorId);
+  }
+
   @Patch('change-password')
   @UseGuards(JwtAuthGuard)
   async changePassword(
@@ -69,14 +150,18 @@ export class UsersController {
   // Admin only - delete user
   @Delete(':id')
   @UseGuards(JwtAuthGuard, AdminGuard)
-  async delete(@Param('id') id: string) {
-    return this.usersService.delete(id);
+  async delete(@Param('id') id: string, @CurrentUser('sub') actorId: string) {
+    return this.usersService.delete(id, actorId);
   }
 
   // Admin only - update user
   @Patch(':id')
   @UseGuards(JwtAuthGuard, AdminGuard)
-  async update(@Param('id') id: string, @Body() dto: UpdateUserDto) {
-    return this.usersService.update(id, dto);
+  async update(
+    @Param('id') id: string,
+    @Body() dto: UpdateUserDto,
+    @CurrentUser('sub') actorId: string,
+  ) {
+    return this.usersService.update(id, dto, actorId);
   }
 }
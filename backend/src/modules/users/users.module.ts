@@ -2,6 +2,8 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from './users.service';
+import { PasswordResetService } from './password-reset.service';
+import { LoginAttemptService } from './login-attempt.service';
 import { UsersController } from './users.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 
@@ -19,7 +21,7 @@ import { PrismaModule } from '../prisma/prisma.module';
     }),
   ],
   controllers: [UsersController],
-  providers: [UsersService],
+  providers: [UsersService, PasswordResetService, LoginAttemptService],
   exports: [UsersService, JwtModule],
 })
 export class UsersModule {}
@@ -2,9 +2,21 @@ import { Injectable, UnauthorizedException, ConflictException, NotFoundException
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
+import { HOURS_PER_DAY } from '../production-calendar/production-calendar.service';
+import { AuditService } from '../audit/audit.service';
+import { LoginAttemptService } from './login-attempt.service';
 import { LoginDto, RegisterDto, ChangePasswordDto, UpdateUserDto } from './dto/auth.dto';
-import { UserRole } from '@prisma/client';
+import { AbsenceStatus, AuditAction, UserRole } from '@prisma/client';
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Client details stored with a session so the user can recognise their devices
+export interface SessionMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
 
 @Injectable()
 export class UsersService {
@@ -12,33 +24,35 @@ export class UsersService {
     private prisma: PrismaService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private auditService: AuditService,
+    private loginAttemptService: LoginAttemptService,
   ) {}
 
-  async login(dto: LoginDto) {
-    const user = await this.prisma.user.findUnique({
-      where: { email: dto.email },
+  async login(dto: LoginDto, meta?: SessionMeta) {
+    // Stored emails keep the case they were entered with, so the normalised email matches case-insensitively
+    const email = dto.email.trim().toLowerCase();
+    const user = await this.prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
     });
 
-    if (!user) {
-      throw new UnauthorizedException('Invalid credentials');
-    }
+    await this.loginAttemptService.assertCanAttempt(email, user, meta);
 
-    const isPasswordValid = await bcrypt.compare(dto.password, user.passwordHash);
-    if (!isPasswordValid) {
+    const isPasswordValid = user ? await bcrypt.compare(dto.password, user.passwordHash) : false;
+    if (!user || !isPasswordValid) {
+      await this.loginAttemptService.registerFailure(email, user, meta);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const tokens = await this.generateTokens(user.id, user.email, user.role);
+    await this.loginAttemptService.registerSuccess(email, user, meta);
 
-    // Store refresh token
-    await this.prisma.refreshToken.create({
-      data: {
-        userId: user.id,
-        expiresIn: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        createdAt: new Date(),
-      },
+    // Drop expired tokens of this user, they can never be exchanged again
+    await this.prisma.refreshToken.deleteMany({
+      where: { userId: user.id, expiresIn: { lt: new Date() } },
     });
 
+    // Every login starts a new session (refresh token family)
+    const tokens = await this.issueTokens(user, randomUUID(), meta);
+
     return {
       user: {
         id: user.id,
@@ -56,7 +70,7 @@ export class UsersService {
     };
   }
 
-  async register(dto: RegisterDto) {
+  async register(dto: RegisterDto, actorId?: string) {
     // Check if user already exists
     const existingUser = await this.prisma.user.findFirst({
       where: {
@@ -83,6 +97,14 @@ export class UsersService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'User',
+      entityId: user.id,
+      action: AuditAction.Create,
+      after: user,
+    });
+
     return {
       id: user.id,
       firstName: user.firstName,
@@ -94,29 +116,111 @@ export class UsersService {
     };
   }
 
-  async refreshTokens(refreshToken: string) {
+  async refreshTokens(refreshToken: string, meta?: SessionMeta) {
+    let payload: { sub: string; jti?: string };
     try {
-      const payload = await this.jwtService.verifyAsync(refreshToken, {
+      payload = await this.jwtService.verifyAsync(refreshToken, {
         secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
       });
+    } catch {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
 
-      const user = await this.prisma.user.findUnique({
-        where: { id: payload.sub },
-      });
-
-      if (!user) {
-        throw new UnauthorizedException('Invalid token');
-      }
+    // Tokens issued before rotation carry no database id and are not accepted
+    if (!payload.jti) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
 
-      const tokens = await this.generateTokens(user.id, user.email, user.role);
+    const stored = await this.prisma.refreshToken.findUnique({
+      where: { id: payload.jti },
+      include: { user: true },
+    });
 
-      return {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      };
-    } catch {
+    // Rows are removed on password change, so such tokens end up here as well
+    if (!stored || stored.userId !== payload.sub) {
       throw new UnauthorizedException('Invalid refresh token');
     }
+
+    // A used or revoked token presented again means it leaked: end the whole session
+    if (stored.usedAt || stored.revokedAt) {
+      await this.revokeFamily(stored.userId, stored.familyId);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    if (stored.expiresIn < new Date()) {
+      throw new UnauthorizedException('Refresh token expired');
+    }
+
+    // Single use: only the request that flips usedAt may rotate, a parallel one counts as reuse
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null, revokedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      await this.revokeFamily(stored.userId, stored.familyId);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    const tokens = await this.issueTokens(stored.user, stored.familyId, {
+      userAgent: meta?.userAgent ?? stored.userAgent ?? undefined,
+      ipAddress: meta?.ipAddress ?? stored.ipAddress ?? undefined,
+    });
+
+    return {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    };
+  }
+
+  async logout(userId: string, sessionId?: string) {
+    // Access tokens issued before sessions existed carry no session id
+    if (sessionId) {
+      await this.revokeFamily(userId, sessionId);
+    }
+
+    return { message: 'Logged out successfully' };
+  }
+
+  // Active sessions of the user: the unused, unrevoked head token of every family
+  async getSessions(userId: string, currentSessionId?: string) {
+    const tokens = await this.prisma.refreshToken.findMany({
+      where: {
+        userId,
+        usedAt: null,
+        revokedAt: null,
+        expiresIn: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // The session started with the first token of its family
+    const starts = await this.prisma.refreshToken.groupBy({
+      by: ['familyId'],
+      where: { familyId: { in: tokens.map((token) => token.familyId) } },
+      _min: { createdAt: true },
+    });
+    const startedAt = new Map(starts.map((start) => [start.familyId, start._min.createdAt]));
+
+    return tokens.map((token) => ({
+      id: token.familyId,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      startedAt: startedAt.get(token.familyId) ?? token.createdAt,
+      lastActiveAt: token.createdAt,
+      expiresAt: token.expiresIn,
+      current: token.familyId === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const count = await this.revokeFamily(userId, sessionId);
+
+    if (count === 0) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return { message: 'Session ended' };
   }
 
   async changePassword(userId: string, dto: ChangePasswordDto) {
@@ -222,7 +326,7 @@ export class UsersService {
     };
   }
 
-  async update(id: string, dto: UpdateUserDto) {
+  async update(id: string, dto: UpdateUserDto, actorId?: string) {
     const user = await this.prisma.user.findUnique({
       where: { id },
     });
@@ -256,6 +360,15 @@ export class UsersService {
       },
     });
 
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'User',
+      entityId: id,
+      action: AuditAction.Update,
+      before: user,
+      after: { ...user, ...updated },
+    });
+
     return {
       ...updated,
       telegramId: updated.telegramId ? updated.telegramId.toString() : undefined,
@@ -263,7 +376,7 @@ export class UsersService {
     };
   }
 
-  async delete(id: string) {
+  async delete(id: string, actorId?: string) {
     const user = await this.prisma.user.findUnique({
       where: { id },
     });
@@ -297,8 +410,14 @@ export class UsersService {
       // Update workload plans where user is the manager (set to null or another admin)
       await tx.workloadPlan.deleteMany({ where: { managerId: id } });
 
-      // Update documents uploaded by this user (set uploadedById to null is not possible, delete them)
-      await tx.document.deleteMany({ where: { uploadedById: id } });
+      // Documents and versions they uploaded stay, the database clears their uploader
+
+      // Delete proposals submitted by this user and review comments written by them
+      await tx.proposalComment.deleteMany({ where: { authorId: id } });
+      await tx.employeeProposal.deleteMany({ where: { userId: id } });
+
+      // Delete absences of this user; absences they reviewed keep the review without the reviewer
+      await tx.absence.deleteMany({ where: { userId: id } });
 
       // Remove user from project assignments
       await tx.projectUser.deleteMany({ where: { userId: id } });
@@ -311,22 +430,35 @@ export class UsersService {
 
       // Delete the user
       await tx.user.delete({ where: { id } });
+
+      await this.auditService.log(
+        {
+          userId: actorId,
+          entityType: 'User',
+          entityId: id,
+          action: AuditAction.Delete,
+          before: user,
+        },
+        tx,
+      );
     });
 
     return { message: 'User deleted successfully' };
   }
 
   async getAvailableEmployees(date: Date) {
-    // Get all employees who don't have workload planned for this date
+    const dayStart = new Date(date.setHours(0, 0, 0, 0));
+    const dayEnd = new Date(date.setHours(23, 59, 59, 999));
+
+    // Get all employees who are not absent on this date, with the hours already planned
     const employees = await this.prisma.user.findMany({
       where: {
         role: { in: [UserRole.Employee, UserRole.Manager] },
-        workloadPlans: {
+        absences: {
           none: {
-            date: {
-              gte: new Date(date.setHours(0, 0, 0, 0)),
-              lt: new Date(date.setHours(23, 59, 59, 999)),
-            },
+            status: AbsenceStatus.Approved,
+            startDate: { lte: dayEnd },
+            endDate: { gte: dayStart },
           },
         },
       },
@@ -336,24 +468,78 @@ export class UsersService {
         lastName: true,
         email: true,
         role: true,
+        workloadPlans: {
+          where: {
+            date: {
+              gte: dayStart,
+              lt: dayEnd,
+            },
+          },
+          select: { hours: true },
+        },
+      },
+    });
+
+    // Employees whose day is not fully allocated yet
+    return employees
+      .map(({ workloadPlans, ...employee }) => ({
+        ...employee,
+        plannedHours: workloadPlans.reduce((sum, plan) => sum + plan.hours, 0),
+      }))
+      .filter((employee) => employee.plannedHours < HOURS_PER_DAY);
+  }
+
+  // Stores a new refresh token of the session and signs the token pair
+  private async issueTokens(
+    user: { id: string; email: string; role: UserRole },
+    familyId: string,
+    meta?: SessionMeta,
+  ) {
+    const stored = await this.prisma.refreshToken.create({
+      data: {
+        userId: user.id,
+        familyId,
+        expiresIn: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+        createdAt: new Date(),
+        userAgent: meta?.userAgent,
+        ipAddress: meta?.ipAddress,
       },
     });
 
-    return employees;
+    return this.generateTokens(user.id, user.email, user.role, stored.id, familyId);
   }
 
-  private async generateTokens(userId: string, email: string, role: UserRole) {
-    const payload = { sub: userId, email, role };
+  private async revokeFamily(userId: string, familyId: string) {
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { userId, familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count;
+  }
+
+  private async generateTokens(
+    userId: string,
+    email: string,
+    role: UserRole,
+    tokenId: string,
+    sessionId: string,
+  ) {
+    // sid lets authenticated requests know their session, jti ties the refresh token to its row
+    const payload = { sub: userId, email, role, sid: sessionId };
 
     const accessToken = await this.jwtService.signAsync(payload, {
       secret: this.configService.get<string>('JWT_ACCESS_SECRET'),
       expiresIn: 900, // 15 minutes in seconds
     });
 
-    const refreshToken = await this.jwtService.signAsync(payload, {
-      secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
-      expiresIn: 604800, // 7 days in seconds
-    });
+    const refreshToken = await this.jwtService.signAsync(
+      { ...payload, jti: tokenId },
+      {
+        secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
+        expiresIn: 604800, // 7 days in seconds
+      },
+    );
 
     return { accessToken, refreshToken };
   }
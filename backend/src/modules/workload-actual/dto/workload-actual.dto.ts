@@ -0,0 +1,127 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TimesheetStatus } from '@prisma/client';
+import { PaginationQueryDto } from '../../../common/dto/pagination.dto';
+
+// Smallest share of a day that can be reported on a project
+export const MIN_DISTRIBUTION_HOURS = 0.5;
+
+export class WorkloadActualQueryDto extends PaginationQueryDto {
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+}
+
+export class WorkloadDistributionDto {
+  @IsString()
+  projectId: string;
+
+  @IsNumber()
+  @Min(MIN_DISTRIBUTION_HOURS)
+  @Max(24)
+  hours: number;
+
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  description?: string;
+}
+
+export class CreateWorkloadActualDto {
+  @IsDateString()
+  date: string;
+
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  hoursWorked: number;
+
+  @IsString()
+  @IsOptional()
+  userText?: string;
+
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => WorkloadDistributionDto)
+  @IsOptional()
+  distributions?: WorkloadDistributionDto[];
+}
+
+export class UpdateWorkloadActualDto {
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  @IsOptional()
+  hoursWorked?: number;
+
+  @IsString()
+  @IsOptional()
+  userText?: string;
+}
+
+// The whole day at once: existing distributions are replaced by the given ones
+export class ReplaceWorkloadDayDto {
+  @IsNumber()
+  @Min(0)
+  @Max(24)
+  hoursWorked: number;
+
+  @IsString()
+  @IsOptional()
+  userText?: string;
+
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => WorkloadDistributionDto)
+  distributions: WorkloadDistributionDto[];
+}
+
+export class TimesheetInboxQueryDto {
+  @IsString()
+  @IsOptional()
+  projectId?: string;
+
+  @IsString()
+  @IsOptional()
+  userId?: string;
+}
+
+export class ReviewTimesheetDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(200)
+  @IsString({ each: true })
+  distributionIds: string[];
+
+  @IsIn([TimesheetStatus.Approved, TimesheetStatus.Rejected])
+  status: TimesheetStatus;
+
+  // Required when the hours are rejected
+  @IsString()
+  @MaxLength(1000)
+  @IsOptional()
+  comment?: string;
+}
@@ -0,0 +1,289 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { AuditAction, NotificationType, TimesheetStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { WorkloadActor, WorkloadActualAccessService } from './workload-actual-access.service';
+import { PeriodCloseService } from '../period-close/period-close.service';
+import { TimesheetValidationService } from './timesheet-validation.service';
+import { ReviewTimesheetDto, TimesheetInboxQueryDto } from './dto/workload-actual.dto';
+
+const REVIEW_INCLUDE = {
+  user: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  distributions: {
+    include: {
+      project: {
+        select: { id: true, name: true },
+      },
+      reviewedBy: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  },
+};
+
+// Status of a report from the statuses of its hours: Draft while any hours wait to be submitted,
+// Submitted while any wait for a manager, Rejected once any were rejected, otherwise Approved
+export function resolveTimesheetStatus(statuses: TimesheetStatus[]) {
+  if (statuses.length === 0 || statuses.includes(TimesheetStatus.Draft)) return TimesheetStatus.Draft;
+  if (statuses.includes(TimesheetStatus.Submitted)) return TimesheetStatus.Submitted;
+  if (statuses.includes(TimesheetStatus.Rejected)) return TimesheetStatus.Rejected;
+  return TimesheetStatus.Approved;
+}
+
+// Submission of reports and their review by the managers of the reported projects
+@Injectable()
+export class TimesheetReviewService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationService: NotificationService,
+    private access: WorkloadActualAccessService,
+    private periodClose: PeriodCloseService,
+    private timesheetValidation: TimesheetValidationService,
+  ) {}
+
+  // Sends the draft and rejected hours of a report to the managers of their projects,
+  // hours already approved or waiting for review keep their state
+  async submit(id: string, actor: WorkloadActor) {
+    const workload = await this.prisma.workloadActual.findUnique({
+      where: { id },
+      include: {
+        user: { select: { firstName: true, lastName: true } },
+        distributions: {
+          where: { status: { in: [TimesheetStatus.Draft, TimesheetStatus.Rejected] } },
+          include: { project: { select: { managerId: true } } },
+        },
+      },
+    });
+
+    if (!workload) {
+      throw new NotFoundException('Workload actual not found');
+    }
+
+    this.access.assertCanModify(actor, workload);
+
+    if (workload.status === TimesheetStatus.Submitted || workload.status === TimesheetStatus.Approved) {
+      throw new BadRequestException(`The report is already ${workload.status.toLowerCase()}`);
+    }
+    if (workload.distributions.length === 0) {
+      throw new BadRequestException('The report has no hours to submit');
+    }
+    await this.periodClose.assertOpen(workload.date);
+
+    // Edits of single distributions may leave the day unbalanced, all its hours count here
+    const allDistributions = await this.prisma.projectWorkloadDistribution.findMany({
+      where: { workloadActualId: id },
+      select: { projectId: true, hours: true },
+    });
+    this.timesheetValidation.assertBalanced({
+      userId: workload.userId,
+      date: workload.date,
+      hoursWorked: workload.hoursWorked,
+      distributions: allDistributions,
+    });
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.projectWorkloadDistribution.updateMany({
+        where: { id: { in: workload.distributions.map((d) => d.id) } },
+        data: {
+          status: TimesheetStatus.Submitted,
+          reviewedById: null,
+          reviewedAt: null,
+          reviewComment: null,
+        },
+      });
+      return tx.workloadActual.update({
+        where: { id },
+        data: { status: TimesheetStatus.Submitted, submittedAt: new Date() },
+        include: REVIEW_INCLUDE,
+      });
+    });
+
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'WorkloadActual',
+      entityId: id,
+      action: AuditAction.Update,
+      before: workload,
+      after: updated,
+    });
+
+    await this.notifyReviewers(workload);
+
+    return updated;
+  }
+
+  // Submitted hours waiting for the actor: Managers see their projects, Admins every project
+  async getInbox(query: TimesheetInboxQueryDto, actor: WorkloadActor) {
+    const where: any = { status: TimesheetStatus.Submitted };
+
+    if (actor.role !== UserRole.Admin) where.project = { managerId: actor.sub };
+    if (query.projectId) where.projectId = query.projectId;
+    if (query.userId) where.workloadActual = { userId: query.userId };
+
+    return this.prisma.projectWorkloadDistribution.findMany({
+      where,
+      include: {
+        project: {
+          select: { id: true, name: true },
+        },
+        workloadActual: {
+          select: {
+            id: true,
+            date: true,
+            hoursWorked: true,
+            userText: true,
+            submittedAt: true,
+            user: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+          },
+        },
+      },
+      orderBy: [{ workloadActual: { date: 'asc' } }, { project: { name: 'asc' } }],
+    });
+  }
+
+  // Approves or rejects submitted hours; the report follows once all of its hours are reviewed
+  async review(dto: ReviewTimesheetDto, actor: WorkloadActor) {
+    const comment = dto.comment?.trim() || null;
+    if (dto.status === TimesheetStatus.Rejected && !comment) {
+      throw new BadRequestException('A comment is required to reject hours');
+    }
+
+    const ids = [...new Set(dto.distributionIds)];
+    const distributions = await this.prisma.projectWorkloadDistribution.findMany({
+      where: { id: { in: ids } },
+      include: {
+        project: { select: { name: true, managerId: true } },
+        workloadActual: { select: { userId: true, date: true } },
+      },
+    });
+
+    if (distributions.length !== ids.length) {
+      throw new NotFoundException('Distribution not found');
+    }
+
+    for (const distribution of distributions) {
+      if (distribution.status !== TimesheetStatus.Submitted) {
+        throw new BadRequestException('Only submitted hours can be reviewed');
+      }
+      if (distribution.workloadActual.userId === actor.sub) {
+        throw new ForbiddenException('You cannot review your own hours');
+      }
+      if (actor.role !== UserRole.Admin && distribution.project.managerId !== actor.sub) {
+        throw new ForbiddenException(
+          `Only the manager of project "${distribution.project.name}" can review its hours`,
+        );
+      }
+    }
+    for (const date of new Set(distributions.map((d) => d.workloadActual.date.getTime()))) {
+      await this.periodClose.assertOpen(new Date(date));
+    }
+
+    const workloadIds = [...new Set(distributions.map((d) => d.workloadActualId))];
+    const reviewedAt = new Date();
+
+    const workloads = await this.prisma.$transaction(async (tx) => {
+      await tx.projectWorkloadDistribution.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          status: dto.status,
+          reviewedById: actor.sub,
+          reviewedAt,
+          reviewComment: comment,
+        },
+      });
+
+      const reports = await tx.workloadActual.findMany({
+        where: { id: { in: workloadIds } },
+        include: { distributions: { select: { status: true } } },
+      });
+      for (const report of reports) {
+        const status = resolveTimesheetStatus(report.distributions.map((d) => d.status));
+        if (status !== report.status) {
+          await tx.workloadActual.update({ where: { id: report.id }, data: { status } });
+        }
+        report.status = status;
+      }
+      return reports;
+    });
+
+    for (const distribution of distributions) {
+      await this.auditService.log({
+        userId: actor.sub,
+        entityType: 'WorkloadDistribution',
+        entityId: distribution.id,
+        projectId: distribution.projectId,
+        action: AuditAction.Update,
+        before: { status: distribution.status },
+        after: { status: dto.status, reviewedById: actor.sub, reviewedAt, reviewComment: comment },
+      });
+    }
+
+    for (const workload of workloads) {
+      const projectNames = distributions
+        .filter((d) => d.workloadActualId === workload.id)
+        .map((d) => d.project.name);
+
+      await this.notificationService.notify({
+        userId: workload.userId,
+        type: NotificationType.TimesheetReviewed,
+        data: {
+          workloadActualId: workload.id,
+          date: workload.date,
+          projectName: [...new Set(projectNames)].join(', '),
+          timesheetStatus: dto.status,
+          comment,
+        },
+        link: '/workload',
+      });
+    }
+
+    return {
+      reviewed: distributions.length,
+      reports: workloads.map((workload) => ({ id: workload.id, status: workload.status })),
+    };
+  }
+
+  // Managers of the reported projects, Admins for projects without a manager
+  private async notifyReviewers(workload: {
+    id: string;
+    userId: string;
+    date: Date;
+    hoursWorked: number;
+    user: { firstName: string; lastName: string };
+    distributions: { project: { managerId: string | null } }[];
+  }) {
+    const managerIds = workload.distributions.map((d) => d.project.managerId);
+    const admins = managerIds.some((managerId) => !managerId)
+      ? await this.prisma.user.findMany({
+          where: { role: UserRole.Admin },
+          select: { id: true },
+        })
+      : [];
+
+    const recipients = [...new Set([...managerIds, ...admins.map((admin) => admin.id)])].filter(
+      (userId): userId is string => !!userId && userId !== workload.userId,
+    );
+
+    await this.notificationService.notifyMany(recipients, {
+      type: NotificationType.TimesheetSubmitted,
+      data: {
+        workloadActualId: workload.id,
+        employeeName: `${workload.user.firstName} ${workload.user.lastName}`,
+        date: workload.date,
+        hours: workload.hoursWorked,
+      },
+      link: '/workload',
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ProjectRole, ProjectStatus } from '@prisma/client';
+import * as dayjs from 'dayjs';
+import { PrismaService } from '../prisma/prisma.service';
+
+// Most hours a single day of a timesheet can hold
+export const MAX_HOURS_PER_DAY = 24;
+
+// Rounding slack when project hours are compared with the hours worked
+const HOURS_TOLERANCE = 0.01;
+
+// A day of a timesheet as it would be stored after the change
+export interface TimesheetDay {
+  userId: string;
+  date: Date;
+  hoursWorked: number;
+  distributions: { projectId: string; hours: number }[];
+  // The whole day is written at once, its project hours must then add up to the hours worked.
+  // Single distribution and hours edits only must not exceed them, the submit checks the sum.
+  complete?: boolean;
+}
+
+interface TimesheetProject {
+  name: string;
+  status: ProjectStatus;
+  deleted: boolean;
+  role: ProjectRole | null; // Role of the user on the project, null when not assigned
+}
+
+// A rule returns the violations it found, an empty list when the day is consistent
+type TimesheetRule = (day: TimesheetDay, projects: Map<string, TimesheetProject>) => string[];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Every hour worked is assigned to a project, e.g. 8 hours worked need 8 project hours
+function balanceViolations(day: TimesheetDay) {
+  const distributed = round(day.distributions.reduce((sum, d) => sum + d.hours, 0));
+  if (isNaN(day.date.getTime()) || Math.abs(distributed - day.hoursWorked) <= HOURS_TOLERANCE) return [];
+  return [
+    `Project hours (${distributed}) of ${day.date.toISOString().slice(0, 10)} must equal the hours worked (${day.hoursWorked})`,
+  ];
+}
+
+const TIMESHEET_RULES: TimesheetRule[] = [
+  (day) => (isNaN(day.date.getTime()) ? ['Invalid date'] : []),
+
+  (day) =>
+    day.hoursWorked < 0 || day.hoursWorked > MAX_HOURS_PER_DAY
+      ? [`Hours worked must be between 0 and ${MAX_HOURS_PER_DAY}`]
+      : [],
+
+  // Report dates are UTC midnight of the calendar day, today is the server's calendar day
+  (day) =>
+    !isNaN(day.date.getTime()) && day.date.toISOString().slice(0, 10) > dayjs().format('YYYY-MM-DD')
+      ? ['Hours cannot be reported for a future date']
+      : [],
+
+  (day) =>
+    day.distributions.some((d) => d.hours <= 0) ? ['Hours of every project must be greater than 0'] : [],
+
+  (day) => (day.complete ? balanceViolations(day) : []),
+
+  (day) => {
+    const distributed = round(day.distributions.reduce((sum, d) => sum + d.hours, 0));
+    return !day.complete && distributed > day.hoursWorked + HOURS_TOLERANCE
+      ? [`Project hours (${distributed}) exceed the hours worked (${day.hoursWorked})`]
+      : [];
+  },
+
+  (day, projects) =>
+    [...new Set(day.distributions.map((d) => d.projectId))].flatMap((projectId) => {
+      const project = projects.get(projectId);
+      if (!project || project.deleted) return [`Project ${projectId} not found`];
+      if (project.status === ProjectStatus.Completed) return [`Project "${project.name}" is completed`];
+      if (!project.role) return [`The user is not assigned to project "${project.name}"`];
+      if (project.role === ProjectRole.Viewer) {
+        return [`Viewers of project "${project.name}" cannot report hours on it`];
+      }
+      return [];
+    }),
+];
+
+@Injectable()
+export class TimesheetValidationService {
+  constructor(private prisma: PrismaService) {}
+
+  // Runs every timesheet rule against the day and rejects it with all violations found
+  async validate(day: TimesheetDay) {
+    const projects = await this.loadProjects(day);
+    const violations = TIMESHEET_RULES.flatMap((rule) => rule(day, projects));
+
+    if (violations.length > 0) {
+      throw new BadRequestException(violations.join('; '));
+    }
+  }
+
+  // A report goes to review only once its project hours add up to the hours worked
+  assertBalanced(day: TimesheetDay) {
+    const violations = balanceViolations(day);
+    if (violations.length > 0) {
+      throw new BadRequestException(violations.join('; '));
+    }
+  }
+
+  private async loadProjects(day: TimesheetDay) {
+    const ids = [...new Set(day.distributions.map((d) => d.projectId))];
+    if (ids.length === 0) return new Map<string, TimesheetProject>();
+
+    const projects = await this.prisma.project.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        name: true,
+        status: true,
+        deletedAt: true,
+        projectUsers: { where: { userId: day.userId }, select: { role: true } },
+      },
+    });
+
+    return new Map<string, TimesheetProject>(
+      projects.map((project) => [
+        project.id,
+        {
+          name: project.name,
+          status: project.status,
+          deleted: project.deletedAt !== null,
+          role: project.projectUsers[0]?.role ?? null,
+        },
+      ]),
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface WorkloadActor {
+  sub: string;
+  role: string;
+}
+
+// Who may see and change workload reports:
+// Admins everything, Managers read reports of people on the projects they manage, everyone their own reports
+@Injectable()
+export class WorkloadActualAccessService {
+  constructor(private prisma: PrismaService) {}
+
+  // Users whose reports the actor may read, null when the actor may read all of them
+  async readableUserIds(actor: WorkloadActor): Promise<string[] | null> {
+    if (actor.role === UserRole.Admin) return null;
+    if (actor.role !== UserRole.Manager) return [actor.sub];
+
+    const members = await this.prisma.projectUser.findMany({
+      where: { project: { managerId: actor.sub } },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+
+    return [...new Set([actor.sub, ...members.map((m) => m.userId)])];
+  }
+
+  async assertCanRead(actor: WorkloadActor, userId: string) {
+    const readable = await this.readableUserIds(actor);
+    if (readable && !readable.includes(userId)) {
+      throw new ForbiddenException(
+        actor.role === UserRole.Manager
+          ? 'You can only view reports of employees on your projects'
+          : 'You can only view your own reports',
+      );
+    }
+  }
+
+  assertCanModify(actor: WorkloadActor, workload: { userId: string }) {
+    if (actor.role !== UserRole.Admin && workload.userId !== actor.sub) {
+      throw new ForbiddenException('You can only change your own reports');
+    }
+  }
+}
@@ -3,6 +3,7 @@ import {
   Get,
   Post,
   Patch,
+  Put,
   Delete,
   Body,
   Param,
@@ -10,6 +11,16 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { WorkloadActualService } from './workload-actual.service';
+import { TimesheetReviewService } from './timesheet-review.service';
+import {
+  CreateWorkloadActualDto,
+  ReplaceWorkloadDayDto,
+  ReviewTimesheetDto,
+  TimesheetInboxQueryDto,
+  UpdateWorkloadActualDto,
+  WorkloadActualQueryDto,
+  WorkloadDistributionDto,
+} from './dto/workload-actual.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { ManagerGuard } from '../../common/guards/roles.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
@@ -17,19 +28,18 @@ import { CurrentUser } from '../../common/decorators/current-user.decorator';
 @Controller('workload-actual')
 @UseGuards(JwtAuthGuard)
 export class WorkloadActualController {
-  constructor(private readonly workloadActualService: WorkloadActualService) {}
+  constructor(
+    private readonly workloadActualService: WorkloadActualService,
+    private readonly timesheetReviewService: TimesheetReviewService,
+  ) {}
 
+  // Admins see all reports, Managers those of people on their projects, others only their own
   @Get()
   async findAll(
-    @Query('userId') userId?: string,
-    @Query('startDate') startDate?: string,
-    @Query('endDate') endDate?: string,
+    @Query() query: WorkloadActualQueryDto,
+    @CurrentUser() user: { sub: string; role: string },
   ) {
-    return this.workloadActualService.findAll({
-      userId,
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
-    });
+    return this.workloadActualService.findAll(query, user);
   }
 
   @Get('my')
@@ -50,64 +60,98 @@ export class WorkloadActualController {
     @CurrentUser('sub') userId: string,
     @Param('date') date: string,
   ) {
-    return this.workloadActualService.findByUserAndDate(userId, new Date(date));
+    return this.workloadActualService.findByUserAndDate(userId, date);
+  }
+
+  // Submitted hours on the projects the manager reviews
+  @Get('inbox')
+  @UseGuards(ManagerGuard)
+  async getInbox(
+    @Query() query: TimesheetInboxQueryDto,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.timesheetReviewService.getInbox(query, user);
+  }
+
+  @Post('review')
+  @UseGuards(ManagerGuard)
+  async review(
+    @Body() dto: ReviewTimesheetDto,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.timesheetReviewService.review(dto, user);
   }
 
   @Get(':id')
-  async findOne(@Param('id') id: string) {
-    return this.workloadActualService.findOne(id);
+  async findOne(
+    @Param('id') id: string,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.workloadActualService.findOne(id, user);
   }
 
   @Post('create')
   async create(
     @CurrentUser('sub') userId: string,
-    @Body()
-    dto: {
-      date: Date;
-      hoursWorked: number;
-      userText?: string;
-      distributions?: { projectId: string; hours: number; description?: string }[];
-    },
+    @Body() dto: CreateWorkloadActualDto,
   ) {
     return this.workloadActualService.create({
       userId,
       ...dto,
+      date: dto.date,
     });
   }
 
+  // Replaces the current user's report for the day, creating it when missing
+  @Put('day/:date')
+  async replaceDay(
+    @CurrentUser('sub') userId: string,
+    @Param('date') date: string,
+    @Body() dto: ReplaceWorkloadDayDto,
+  ) {
+    return this.workloadActualService.replaceDay(userId, date, dto, userId);
+  }
+
   @Patch(':id')
   async update(
     @Param('id') id: string,
-    @Body()
-    dto: {
-      hoursWorked?: number;
-      userText?: string;
-    },
+    @Body() dto: UpdateWorkloadActualDto,
+    @CurrentUser() user: { sub: string; role: string },
   ) {
-    return this.workloadActualService.update(id, dto);
+    return this.workloadActualService.update(id, dto, user);
+  }
+
+  @Post(':id/submit')
+  async submit(
+    @Param('id') id: string,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.timesheetReviewService.submit(id, user);
   }
 
   @Delete(':id')
-  async delete(@Param('id') id: string) {
-    return this.workloadActualService.delete(id);
+  async delete(
+    @Param('id') id: string,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.workloadActualService.delete(id, user);
   }
 
   // Distribution endpoints
   @Post(':id/distribution')
   async addDistribution(
     @Param('id') id: string,
-    @Body()
-    dto: {
-      projectId: string;
-      hours: number;
-      description?: string;
-    },
+    @Body() dto: WorkloadDistributionDto,
+    @CurrentUser() user: { sub: string; role: string },
   ) {
-    return this.workloadActualService.addDistribution(id, dto);
+    return this.workloadActualService.addDistribution(id, dto, user);
   }
 
   @Delete('distribution/:distributionId')
-  async removeDistribution(@Param('distributionId') distributionId: string) {
-    return this.workloadActualService.removeDistribution(distributionId);
+  async removeDistribution(
+    @Param('distributionId') distributionId: string,
+    @CurrentUser() user: { sub: string; role: string },
+  ) {
+    return this.workloadActualService.removeDistribution(distributionId, user);
   }
 }
@@ -1,13 +1,22 @@
 import { Module } from '@nestjs/common';
 import { WorkloadActualController } from './workload-actual.controller';
 import { WorkloadActualService } from './workload-actual.service';
+import { TimesheetValidationService } from './timesheet-validation.service';
+import { TimesheetReviewService } from './timesheet-review.service';
+import { WorkloadActualAccessService } from './workload-actual-access.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { UsersModule } from '../users/users.module';
+import { PeriodCloseModule } from '../period-close/period-close.module';
 
 @Module({
-  imports: [PrismaModule, UsersModule],
+  imports: [PrismaModule, UsersModule, PeriodCloseModule],
   controllers: [WorkloadActualController],
-  providers: [WorkloadActualService],
-  exports: [WorkloadActualService],
+  providers: [
+    WorkloadActualService,
+    TimesheetValidationService,
+    TimesheetReviewService,
+    WorkloadActualAccessService,
+  ],
+  exports: [WorkloadActualService, TimesheetReviewService],
 })
 export class WorkloadActualModule {}
@@ -1,44 +1,81 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, ConflictException, ForbiddenException } from '@nestjs/common';
+import * as dayjs from 'dayjs';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { TimesheetValidationService } from './timesheet-validation.service';
+import { WorkloadActor, WorkloadActualAccessService } from './workload-actual-access.service';
+import { PeriodCloseService } from '../period-close/period-close.service';
+import { resolveTimesheetStatus } from './timesheet-review.service';
+import { WorkloadActualQueryDto } from './dto/workload-actual.dto';
+import { buildOrderBy, buildSearchFilter, paginate } from '../../common/utils/pagination';
+import { AuditAction, Prisma, TimesheetStatus } from '@prisma/client';
+
+// Public sort keys of the workload report list
+const WORKLOAD_ACTUAL_SORT_FIELDS = {
+  date: 'date',
+  hoursWorked: 'hoursWorked',
+  createdAt: 'createdAt',
+  user: 'user.lastName',
+};
 
 @Injectable()
 export class WorkloadActualService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private timesheetValidation: TimesheetValidationService,
+    private access: WorkloadActualAccessService,
+    private periodClose: PeriodCloseService,
+  ) {}
 
-  async findAll(filters?: {
-    userId?: string;
-    startDate?: Date;
-    endDate?: Date;
-  }) {
+  // Limited to the reports the actor may read
+  async findAll(query: WorkloadActualQueryDto, actor: WorkloadActor) {
     const where: any = {};
 
-    if (filters?.userId) where.userId = filters.userId;
+    if (query.userId) {
+      await this.access.assertCanRead(actor, query.userId);
+      where.userId = query.userId;
+    } else {
+      const readable = await this.access.readableUserIds(actor);
+      if (readable) where.userId = { in: readable };
+    }
 
-    if (filters?.startDate || filters?.endDate) {
+    if (query.startDate || query.endDate) {
       where.date = {};
-      if (filters?.startDate) where.date.gte = new Date(filters.startDate);
-      if (filters?.endDate) where.date.lte = new Date(filters.endDate);
+      if (query.startDate) where.date.gte = new Date(query.startDate);
+      if (query.endDate) where.date.lte = new Date(query.endDate);
     }
 
-    return this.prisma.workloadActual.findMany({
-      where,
-      include: {
-        user: {
-          select: { id: true, firstName: true, lastName: true },
-        },
-        distributions: {
+    const search = buildSearchFilter(query.search, ['userText', 'user.firstName', 'user.lastName']);
+    if (search) where.OR = search;
+
+    const orderBy = buildOrderBy(query, WORKLOAD_ACTUAL_SORT_FIELDS, { date: 'desc' });
+
+    return paginate(
+      query,
+      (page) =>
+        this.prisma.workloadActual.findMany({
+          where,
           include: {
-            project: {
-              select: { id: true, name: true },
+            user: {
+              select: { id: true, firstName: true, lastName: true },
+            },
+            distributions: {
+              include: {
+                project: {
+                  select: { id: true, name: true },
+                },
+              },
             },
           },
-        },
-      },
-      orderBy: { date: 'desc' },
-    });
+          orderBy,
+          ...page,
+        }),
+      () => this.prisma.workloadActual.count({ where }),
+    );
   }
 
-  async findOne(id: string) {
+  async findOne(id: string, actor: WorkloadActor) {
     const workload = await this.prisma.workloadActual.findUnique({
       where: { id },
       include: {
@@ -59,12 +96,13 @@ export class WorkloadActualService {
       throw new NotFoundException('Workload actual not found');
     }
 
+    await this.access.assertCanRead(actor, workload.userId);
+
     return workload;
   }
 
-  async findByUserAndDate(userId: string, date: Date) {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
+  async findByUserAndDate(userId: string, date: Date | string) {
+    const startOfDay = this.toDateOnly(date);
 
     return this.prisma.workloadActual.findUnique({
       where: {
@@ -90,13 +128,12 @@ export class WorkloadActualService {
 
   async create(data: {
     userId: string;
-    date: Date;
+    date: Date | string;
     hoursWorked: number;
     userText?: string;
     distributions?: { projectId: string; hours: number; description?: string }[];
   }) {
-    const dateOnly = new Date(data.date);
-    dateOnly.setHours(0, 0, 0, 0);
+    const dateOnly = this.toDateOnly(data.date);
 
     // Check if entry already exists for this user on this date
     const existing = await this.prisma.workloadActual.findUnique({
@@ -112,7 +149,17 @@ export class WorkloadActualService {
       throw new ConflictException('A workload entry already exists for this user on this date');
     }
 
-    return this.prisma.workloadActual.create({
+    await this.periodClose.assertOpen(dateOnly);
+
+    await this.timesheetValidation.validate({
+      userId: data.userId,
+      date: dateOnly,
+      hoursWorked: data.hoursWorked,
+      distributions: data.distributions ?? [],
+      complete: true,
+    });
+
+    const workload = await this.prisma.workloadActual.create({
       data: {
         userId: data.userId,
         date: dateOnly,
@@ -143,6 +190,25 @@ export class WorkloadActualService {
         },
       },
     });
+    await this.auditService.log({
+      userId: data.userId,
+      entityType: 'WorkloadActual',
+      entityId: workload.id,
+      action: AuditAction.Create,
+      after: workload,
+    });
+    for (const distribution of workload.distributions) {
+      await this.auditService.log({
+        userId: data.userId,
+        entityType: 'WorkloadDistribution',
+        entityId: distribution.id,
+        projectId: distribution.projectId,
+        action: AuditAction.Create,
+        after: distribution,
+      });
+    }
+
+    return workload;
   }
 
   async update(
@@ -151,16 +217,34 @@ export class WorkloadActualService {
       hoursWorked?: number;
       userText?: string;
     },
+    actor: WorkloadActor,
   ) {
     const workload = await this.prisma.workloadActual.findUnique({
       where: { id },
+      include: { distributions: true },
     });
 
     if (!workload) {
       throw new NotFoundException('Workload actual not found');
     }
 
-    return this.prisma.workloadActual.update({
+    this.access.assertCanModify(actor, workload);
+    if (data.hoursWorked !== undefined && data.hoursWorked !== workload.hoursWorked) {
+      this.assertNoneApproved(workload.distributions, 'Hours worked cannot be changed once hours of the day are approved');
+    }
+    await this.periodClose.assertOpen(workload.date);
+
+    if (data.hoursWorked !== undefined) {
+      await this.timesheetValidation.validate({
+        userId: workload.userId,
+        date: workload.date,
+        hoursWorked: data.hoursWorked,
+        distributions: workload.distributions,
+      });
+    }
+
+    await this.reopen(id);
+    const updated = await this.prisma.workloadActual.update({
       where: { id },
       data: {
         hoursWorked: data.hoursWorked,
@@ -179,21 +263,161 @@ export class WorkloadActualService {
         },
       },
     });
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'WorkloadActual',
+      entityId: id,
+      action: AuditAction.Update,
+      before: workload,
+      after: updated,
+    });
+
+    return updated;
   }
 
-  async delete(id: string) {
+  // Rewrites hours, notes and every distribution of the user's day in one transaction
+  async replaceDay(
+    userId: string,
+    date: Date | string,
+    data: {
+      hoursWorked: number;
+      userText?: string;
+      distributions: { projectId: string; hours: number; description?: string }[];
+    },
+    actorId?: string,
+  ) {
+    const dateOnly = this.toDateOnly(date);
+
+    await this.timesheetValidation.validate({
+      userId,
+      date: dateOnly,
+      hoursWorked: data.hoursWorked,
+      distributions: data.distributions,
+      complete: true,
+    });
+
+    const existing = await this.prisma.workloadActual.findUnique({
+      where: { userId_date: { userId, date: dateOnly } },
+      include: { distributions: true },
+    });
+    await this.periodClose.assertOpen(dateOnly);
+
+    // Approved hours have to come back unchanged, only the rest of the day is rewritten
+    const approved = (existing?.distributions ?? []).filter((d) => d.status === TimesheetStatus.Approved);
+    const toCreate = [...data.distributions];
+    for (const distribution of approved) {
+      const index = toCreate.findIndex((d) => d.projectId === distribution.projectId && d.hours === distribution.hours);
+      if (index === -1) {
+        throw new ForbiddenException('Approved hours cannot be changed');
+      }
+      toCreate.splice(index, 1);
+    }
+    const replaced = (existing?.distributions ?? []).filter((d) => d.status !== TimesheetStatus.Approved);
+
+    const workload = await this.prisma.$transaction(async (tx) => {
+      const entry = await tx.workloadActual.upsert({
+        where: { userId_date: { userId, date: dateOnly } },
+        create: {
+          userId,
+          date: dateOnly,
+          hoursWorked: data.hoursWorked,
+          userText: data.userText,
+        },
+        update: {
+          hoursWorked: data.hoursWorked,
+          userText: data.userText ?? null,
+        },
+      });
+
+      await tx.projectWorkloadDistribution.deleteMany({
+        where: { id: { in: replaced.map((d) => d.id) } },
+      });
+      await tx.projectWorkloadDistribution.createMany({
+        data: toCreate.map((d) => ({
+          workloadActualId: entry.id,
+          projectId: d.projectId,
+          hours: d.hours,
+          description: d.description || '',
+        })),
+      });
+
+      await this.reopen(entry.id, tx);
+
+      return tx.workloadActual.findUniqueOrThrow({
+        where: { id: entry.id },
+        include: {
+          user: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+          distributions: {
+            include: {
+              project: {
+                select: { id: true, name: true },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    await this.auditService.log({
+      userId: actorId,
+      entityType: 'WorkloadActual',
+      entityId: workload.id,
+      action: existing ? AuditAction.Update : AuditAction.Create,
+      before: existing,
+      after: workload,
+    });
+    for (const distribution of replaced) {
+      await this.auditService.log({
+        userId: actorId,
+        entityType: 'WorkloadDistribution',
+        entityId: distribution.id,
+        projectId: distribution.projectId,
+        action: AuditAction.Delete,
+        before: distribution,
+      });
+    }
+    for (const distribution of workload.distributions.filter((d) => !approved.some((a) => a.id === d.id))) {
+      await this.auditService.log({
+        userId: actorId,
+        entityType: 'WorkloadDistribution',
+        entityId: distribution.id,
+        projectId: distribution.projectId,
+        action: AuditAction.Create,
+        after: distribution,
+      });
+    }
+
+    return workload;
+  }
+
+  async delete(id: string, actor: WorkloadActor) {
     const workload = await this.prisma.workloadActual.findUnique({
       where: { id },
+      include: { distributions: { select: { status: true } } },
     });
 
     if (!workload) {
       throw new NotFoundException('Workload actual not found');
     }
 
+    this.access.assertCanModify(actor, workload);
+    this.assertNoneApproved(workload.distributions, 'Reports with approved hours cannot be deleted');
+    await this.periodClose.assertOpen(workload.date);
+
     await this.prisma.workloadActual.delete({
       where: { id },
     });
 
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'WorkloadActual',
+      entityId: id,
+      action: AuditAction.Delete,
+      before: workload,
+    });
+
     return { message: 'Workload actual deleted successfully' };
   }
 
@@ -205,16 +429,28 @@ export class WorkloadActualService {
       hours: number;
       description?: string;
     },
+    actor: WorkloadActor,
   ) {
     const workload = await this.prisma.workloadActual.findUnique({
       where: { id: workloadActualId },
+      include: { distributions: true },
     });
 
     if (!workload) {
       throw new NotFoundException('Workload actual not found');
     }
 
-    return this.prisma.projectWorkloadDistribution.create({
+    this.access.assertCanModify(actor, workload);
+    await this.periodClose.assertOpen(workload.date);
+
+    await this.timesheetValidation.validate({
+      userId: workload.userId,
+      date: workload.date,
+      hoursWorked: workload.hoursWorked,
+      distributions: [...workload.distributions, data],
+    });
+
+    const distribution = await this.prisma.projectWorkloadDistribution.create({
       data: {
         workloadActualId,
         projectId: data.projectId,
@@ -227,20 +463,47 @@ export class WorkloadActualService {
         },
       },
     });
+    await this.reopen(workloadActualId);
+
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'WorkloadDistribution',
+      entityId: distribution.id,
+      projectId: distribution.projectId,
+      action: AuditAction.Create,
+      after: distribution,
+    });
+
+    return distribution;
   }
 
-  async removeDistribution(distributionId: string) {
+  async removeDistribution(distributionId: string, actor: WorkloadActor) {
     const distribution = await this.prisma.projectWorkloadDistribution.findUnique({
       where: { id: distributionId },
+      include: { workloadActual: { select: { userId: true, date: true } } },
     });
 
     if (!distribution) {
       throw new NotFoundException('Distribution not found');
     }
 
+    this.access.assertCanModify(actor, distribution.workloadActual);
+    this.assertNoneApproved([distribution], 'Approved hours cannot be changed');
+    await this.periodClose.assertOpen(distribution.workloadActual.date);
+
     await this.prisma.projectWorkloadDistribution.delete({
       where: { id: distributionId },
     });
+    await this.reopen(distribution.workloadActualId);
+
+    await this.auditService.log({
+      userId: actor.sub,
+      entityType: 'WorkloadDistribution',
+      entityId: distributionId,
+      projectId: distribution.projectId,
+      action: AuditAction.Delete,
+      before: distribution,
+    });
 
     return { message: 'Distribution deleted successfully' };
   }
@@ -267,4 +530,41 @@ export class WorkloadActualService {
       orderBy: { date: 'asc' },
     });
   }
+
+  // Hours approved by a project manager carry the sign-off and stay as they are
+  // Report dates are stored as UTC midnight of the calendar day, like plans and absences.
+  // A moment such as "now" from the bot is taken as the server's calendar day.
+  private toDateOnly(value: Date | string) {
+    return new Date(typeof value === 'string' ? value.slice(0, 10) : dayjs(value).format('YYYY-MM-DD'));
+  }
+
+  private assertNoneApproved(distributions: { status: TimesheetStatus }[], message: string) {
+    if (distributions.some((d) => d.status === TimesheetStatus.Approved)) {
+      throw new ForbiddenException(message);
+    }
+  }
+
+  // After a change the rejected hours go back to Draft to be fixed and submitted again,
+  // approved and still submitted hours keep their review; the report follows its hours
+  private async reopen(workloadActualId: string, tx: Prisma.TransactionClient = this.prisma) {
+    await tx.projectWorkloadDistribution.updateMany({
+      where: { workloadActualId, status: TimesheetStatus.Rejected },
+      data: {
+        status: TimesheetStatus.Draft,
+        reviewedById: null,
+        reviewedAt: null,
+        reviewComment: null,
+      },
+    });
+
+    const distributions = await tx.projectWorkloadDistribution.findMany({
+      where: { workloadActualId },
+      select: { status: true },
+    });
+    const status = resolveTimesheetStatus(distributions.map((d) => d.status));
+    await tx.workloadActual.update({
+      where: { id: workloadActualId },
+      data: status === TimesheetStatus.Draft ? { status, submittedAt: null } : { status },
+    });
+  }
 }
@@ -0,0 +1,159 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CreateWorkloadPlanDto {
+  @IsString()
+  userId: string;
+
+  @IsString()
+  projectId: string;
+
+  @IsDateString()
+  date: string;
+
+  // Defaults to the hours of the day still free
+  @IsNumber()
+  @Min(0.5)
+  @Max(24)
+  @IsOptional()
+  hours?: number;
+}
+
+export class UpdateWorkloadPlanDto {
+  @IsString()
+  @IsOptional()
+  projectId?: string;
+
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+
+  @IsNumber()
+  @Min(0.5)
+  @Max(24)
+  @IsOptional()
+  hours?: number;
+}
+
+// Fields shared by every bulk operation
+class BulkWorkloadPlanBaseDto {
+  // Return the per-cell result without writing anything
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
+
+export class BulkAssignWorkloadPlanDto extends BulkWorkloadPlanBaseDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  userIds: string[];
+
+  @IsString()
+  projectId: string;
+
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+
+  // Hours per day, a full working day when omitted
+  @IsNumber()
+  @Min(0.5)
+  @Max(24)
+  @IsOptional()
+  hours?: number;
+
+  // Extra days off within the range, on top of the production calendar
+  @IsArray()
+  @IsDateString({}, { each: true })
+  @IsOptional()
+  excludeDates?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  includeNonWorkingDays?: boolean;
+}
+
+export class CopyWorkloadPlanDto extends BulkWorkloadPlanBaseDto {
+  @IsDateString()
+  sourceStartDate: string;
+
+  @IsDateString()
+  sourceEndDate: string;
+
+  // The source range is shifted by whole days, a target on the same weekday keeps the week pattern
+  @IsDateString()
+  targetStartDate: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  userIds?: string[];
+
+  @IsString()
+  @IsOptional()
+  projectId?: string;
+
+  @IsArray()
+  @IsDateString({}, { each: true })
+  @IsOptional()
+  excludeDates?: string[];
+
+  @IsBoolean()
+  @IsOptional()
+  includeNonWorkingDays?: boolean;
+}
+
+export class ClearWorkloadPlanDto extends BulkWorkloadPlanBaseDto {
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  userIds?: string[];
+
+  @IsString()
+  @IsOptional()
+  projectId?: string;
+}
+
+export class ReconciliationQueryDto {
+  @IsDateString()
+  startDate: string;
+
+  @IsDateString()
+  endDate: string;
+
+  @IsString()
+  @IsOptional()
+  userId?: string;
+
+  // Days where the project is planned or reported
+  @IsString()
+  @IsOptional()
+  projectId?: string;
+
+  // Only the days with at least one issue
+  @Transform(({ obj }) => obj.issuesOnly === 'true' || obj.issuesOnly === true)
+  @IsBoolean()
+  @IsOptional()
+  issuesOnly?: boolean;
+}
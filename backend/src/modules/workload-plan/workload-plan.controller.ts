@@ -10,14 +10,26 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { WorkloadPlanService } from './workload-plan.service';
+import { WorkloadReconciliationService } from './workload-reconciliation.service';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { ManagerGuard } from '../../common/guards/roles.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import {
+  BulkAssignWorkloadPlanDto,
+  ClearWorkloadPlanDto,
+  CopyWorkloadPlanDto,
+  CreateWorkloadPlanDto,
+  ReconciliationQueryDto,
+  UpdateWorkloadPlanDto,
+} from './dto/workload-plan.dto';
 
 @Controller('workload-plan')
 @UseGuards(JwtAuthGuard)
 export class WorkloadPlanController {
-  constructor(private readonly workloadPlanService: WorkloadPlanService) {}
+  constructor(
+    private readonly workloadPlanService: WorkloadPlanService,
+    private readonly reconciliationService: WorkloadReconciliationService,
+  ) {}
 
   @Get()
   async findAll(
@@ -49,6 +61,13 @@ export class WorkloadPlanController {
     );
   }
 
+  // Manager/Admin - planned projects against reported hours per employee and day
+  @Get('reconciliation')
+  @UseGuards(ManagerGuard)
+  async getReconciliation(@Query() query: ReconciliationQueryDto) {
+    return this.reconciliationService.reconcile(query);
+  }
+
   @Get(':id')
   async findOne(@Param('id') id: string) {
     return this.workloadPlanService.findOne(id);
@@ -56,30 +75,36 @@ export class WorkloadPlanController {
 
   @Post('create')
   @UseGuards(ManagerGuard)
-  async create(
-    @Body()
-    dto: {
-      userId: string;
-      projectId: string;
-      date: Date;
-    },
-    @CurrentUser('sub') managerId: string,
-  ) {
+  async create(@Body() dto: CreateWorkloadPlanDto, @CurrentUser('sub') managerId: string) {
     return this.workloadPlanService.create({
       ...dto,
       managerId,
     });
   }
 
+  @Post('bulk/assign')
+  @UseGuards(ManagerGuard)
+  async bulkAssign(@Body() dto: BulkAssignWorkloadPlanDto, @CurrentUser('sub') managerId: string) {
+    return this.workloadPlanService.bulkAssign(dto, managerId);
+  }
+
+  @Post('bulk/copy')
+  @UseGuards(ManagerGuard)
+  async copy(@Body() dto: CopyWorkloadPlanDto, @CurrentUser('sub') managerId: string) {
+    return this.workloadPlanService.copy(dto, managerId);
+  }
+
+  @Post('bulk/clear')
+  @UseGuards(ManagerGuard)
+  async clear(@Body() dto: ClearWorkloadPlanDto, @CurrentUser('sub') managerId: string) {
+    return this.workloadPlanService.clear(dto, managerId);
+  }
+
   @Patch(':id')
   @UseGuards(ManagerGuard)
   async update(
     @Param('id') id: string,
-    @Body()
-    dto: {
-      projectId?: string;
-      date?: Date;
-    },
+    @Body() dto: UpdateWorkloadPlanDto,
     @CurrentUser('sub') managerId: string,
   ) {
     return this.workloadPlanService.update(id, dto, managerId);
@@ -1,13 +1,17 @@
 import { Module } from '@nestjs/common';
 import { WorkloadPlanController } from './workload-plan.controller';
 import { WorkloadPlanService } from './workload-plan.service';
+import { WorkloadReconciliationService } from './workload-reconciliation.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { UsersModule } from '../users/users.module';
+import { AbsenceModule } from '../absence/absence.module';
+import { ProductionCalendarModule } from '../production-calendar/production-calendar.module';
+import { PeriodCloseModule } from '../period-close/period-close.module';
 
 @Module({
-  imports: [PrismaModule, UsersModule],
+  imports: [PrismaModule, UsersModule, AbsenceModule, ProductionCalendarModule, PeriodCloseModule],
   controllers: [WorkloadPlanController],
-  providers: [WorkloadPlanService],
+  providers: [WorkloadPlanService, WorkloadReconciliationService],
   exports: [WorkloadPlanService],
 })
 export class WorkloadPlanModule {}
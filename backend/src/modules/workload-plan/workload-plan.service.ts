@@ -1,9 +1,60 @@
 import { Injectable, NotFoundException, ConflictException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import * as dayjs from 'dayjs';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditService } from '../audit/audit.service';
+import { NotificationService } from '../notification/notification.service';
+import { AbsenceService } from '../absence/absence.service';
+import {
+  CalendarDay,
+  HOURS_PER_DAY,
+  ProductionCalendarService,
+} from '../production-calendar/production-calendar.service';
+import { PeriodCloseService } from '../period-close/period-close.service';
+import { BulkAssignWorkloadPlanDto, ClearWorkloadPlanDto, CopyWorkloadPlanDto } from './dto/workload-plan.dto';
+import { AuditAction, NotificationType, Prisma, UserRole } from '@prisma/client';
+
+// Longest date range a single bulk operation may cover
+const MAX_BULK_DAYS = 366;
+
+type BulkCellStatus = 'Created' | 'Deleted' | 'Conflict' | 'Skipped';
+type BulkSkipReason = 'PastDate' | 'ClosedPeriod' | 'NonWorkingDay' | 'Absence' | 'Forbidden';
+type BulkConflictReason = 'SameProject' | 'DailyCap';
+
+interface Allocation {
+  id: string;
+  projectId: string;
+  projectName: string;
+  hours: number;
+}
+
+// Outcome of one user/date/project allocation of a bulk operation
+export interface BulkCellResult {
+  userId: string;
+  date: string;
+  projectId: string;
+  hours: number;
+  status: BulkCellStatus;
+  reason?: BulkSkipReason | BulkConflictReason;
+  existing?: Allocation[]; // Allocations of the day already planned
+}
+
+interface PlanRef {
+  id: string;
+  userId: string;
+  projectId: string;
+  date: Date;
+}
 
 @Injectable()
 export class WorkloadPlanService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditService,
+    private notificationService: NotificationService,
+    private absenceService: AbsenceService,
+    private calendarService: ProductionCalendarService,
+    private periodClose: PeriodCloseService,
+  ) {}
 
   async findAll(filters?: {
     userId?: string;
@@ -66,58 +117,76 @@ export class WorkloadPlanService {
     userId: string;
     projectId: string;
     managerId: string;
-    date: Date;
+    date: Date | string;
+    hours?: number;
   }) {
     // Validate that date is not in the past (can be today or future)
-    const planDate = new Date(data.date);
-    planDate.setHours(0, 0, 0, 0);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (planDate < today) {
+    if (this.toKey(data.date) < this.todayKey()) {
       throw new BadRequestException('Cannot create workload plan for past dates');
     }
+    await this.periodClose.assertOpen(this.toDate(this.toKey(data.date)));
 
-    // Check if plan already exists for this user on this date
-    const existing = await this.prisma.workloadPlan.findUnique({
-      where: {
-        userId_date: {
+    const cap = await this.getDailyCap(data.date);
+    await this.absenceService.assertNotAbsent(data.userId, data.date);
+
+    // The cap check and the insert see the same allocations, parallel requests cannot both fill the day
+    const plan = await this.inPlanTransaction(async (tx) => {
+      // Other allocations of the user on this date
+      const dayPlans = await tx.workloadPlan.findMany({
+        where: {
           userId: data.userId,
           date: new Date(data.date),
         },
-      },
-    });
+      });
 
-    if (existing) {
-      throw new ConflictException('A workload plan already exists for this user on this date');
-    }
+      if (dayPlans.some((plan) => plan.projectId === data.projectId)) {
+        throw new ConflictException('The user is already planned on this project for this date');
+      }
 
-    return this.prisma.workloadPlan.create({
-      data: {
-        userId: data.userId,
-        projectId: data.projectId,
-        managerId: data.managerId,
-        date: new Date(data.date),
-      },
-      include: {
-        user: {
-          select: { id: true, firstName: true, lastName: true },
-        },
-        project: {
-          select: { id: true, name: true },
+      const hours = data.hours ?? cap - this.sumHours(dayPlans);
+      this.assertWithinCap(dayPlans, hours, cap);
+
+      return tx.workloadPlan.create({
+        data: {
+          userId: data.userId,
+          projectId: data.projectId,
+          managerId: data.managerId,
+          date: new Date(data.date),
+          hours,
         },
-        manager: {
-          select: { id: true, firstName: true, lastName: true },
+        include: {
+          user: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+          project: {
+            select: { id: true, name: true },
+          },
+          manager: {
+            select: { id: true, firstName: true, lastName: true },
+          },
         },
-      },
+      });
+    });
+    await this.auditService.log({
+      userId: data.managerId,
+      entityType: 'WorkloadPlan',
+      entityId: plan.id,
+      projectId: plan.projectId,
+      action: AuditAction.Create,
+      after: plan,
     });
+
+    await this.notifyPlanUser(NotificationType.WorkloadPlanCreated, plan, data.managerId);
+
+    return plan;
   }
 
   async update(
     id: string,
     data: {
       projectId?: string;
-      date?: Date;
+      date?: Date | string;
+      hours?: number;
     },
     managerId?: string,
   ) {
@@ -135,14 +204,11 @@ export class WorkloadPlanService {
     }
 
     // Validate that the original plan date is not in the past (can be today or future)
-    const originalDate = new Date(plan.date);
-    originalDate.setHours(0, 0, 0, 0);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (originalDate < today) {
+    const today = this.todayKey();
+    if (this.toKey(plan.date) < today) {
       throw new BadRequestException('Cannot update workload plan for past dates');
     }
+    await this.periodClose.assertOpen(plan.date);
 
     // Check authorization: only the manager who created the plan (or Admin) can update it
     if (managerId && plan.managerId !== managerId) {
@@ -159,45 +225,69 @@ export class WorkloadPlanService {
 
     // If date is being changed, validate new date is not in the past
     if (data.date) {
-      const newDate = new Date(data.date);
-      newDate.setHours(0, 0, 0, 0);
-
-      if (newDate < today) {
+      if (this.toKey(data.date) < today) {
         throw new BadRequestException('Cannot change workload plan to a past date');
       }
+      await this.periodClose.assertOpen(this.toDate(this.toKey(data.date)));
 
-      // Check for conflicts with the new date
-      const existing = await this.prisma.workloadPlan.findFirst({
-        where: {
-          userId: plan.userId,
-          date: new Date(data.date),
-          id: { not: id },
-        },
-      });
+      await this.absenceService.assertNotAbsent(plan.userId, data.date);
+    }
 
-      if (existing) {
-        throw new ConflictException('A workload plan already exists for this user on this date');
+    const date = data.date ? new Date(data.date) : plan.date;
+    const checkDay = !!(data.date || data.projectId || data.hours !== undefined);
+    const cap = checkDay ? await this.getDailyCap(date) : 0;
+
+    const updated = await this.inPlanTransaction(async (tx) => {
+      // Check the other allocations of the target day
+      if (checkDay) {
+        const others = await tx.workloadPlan.findMany({
+          where: {
+            userId: plan.userId,
+            date,
+            id: { not: id },
+          },
+        });
+
+        if (others.some((other) => other.projectId === (data.projectId ?? plan.projectId))) {
+          throw new ConflictException('The user is already planned on this project for this date');
+        }
+
+        this.assertWithinCap(others, data.hours ?? plan.hours, cap);
       }
-    }
 
-    return this.prisma.workloadPlan.update({
-      where: { id },
-      data: {
-        projectId: data.projectId,
-        date: data.date ? new Date(data.date) : undefined,
-      },
-      include: {
-        user: {
-          select: { id: true, firstName: true, lastName: true },
-        },
-        project: {
-          select: { id: true, name: true },
+      return tx.workloadPlan.update({
+        where: { id },
+        data: {
+          projectId: data.projectId,
+          date: data.date ? new Date(data.date) : undefined,
+          hours: data.hours,
         },
-        manager: {
-          select: { id: true, firstName: true, lastName: true },
+        include: {
+          user: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+          project: {
+            select: { id: true, name: true },
+          },
+          manager: {
+            select: { id: true, firstName: true, lastName: true },
+          },
         },
-      },
+      });
+    });
+    await this.auditService.log({
+      userId: managerId,
+      entityType: 'WorkloadPlan',
+      entityId: id,
+      projectId: updated.projectId,
+      action: AuditAction.Update,
+      before: plan,
+      after: updated,
     });
+
+    await this.notifyPlanUser(NotificationType.WorkloadPlanUpdated, updated, managerId);
+
+    return updated;
   }
 
   async delete(id: string, managerId?: string) {
@@ -207,6 +297,9 @@ export class WorkloadPlanService {
         manager: {
           select: { id: true, role: true },
         },
+        project: {
+          select: { id: true, name: true },
+        },
       },
     });
 
@@ -215,14 +308,10 @@ export class WorkloadPlanService {
     }
 
     // Validate that the plan date is not in the past (can be today or future)
-    const planDate = new Date(plan.date);
-    planDate.setHours(0, 0, 0, 0);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (planDate < today) {
+    if (this.toKey(plan.date) < this.todayKey()) {
       throw new BadRequestException('Cannot delete workload plan for past dates');
     }
+    await this.periodClose.assertOpen(plan.date);
 
     // Check authorization: only the manager who created the plan (or Admin) can delete it
     if (managerId && plan.managerId !== managerId) {
@@ -241,9 +330,465 @@ export class WorkloadPlanService {
       where: { id },
     });
 
+    await this.auditService.log({
+      userId: managerId,
+      entityType: 'WorkloadPlan',
+      entityId: id,
+      projectId: plan.projectId,
+      action: AuditAction.Delete,
+      before: plan,
+    });
+
+    await this.notifyPlanUser(NotificationType.WorkloadPlanDeleted, plan, managerId);
+
     return { message: 'Workload plan deleted successfully' };
   }
 
+  // Plans the users on the project for every working day of the range
+  async bulkAssign(dto: BulkAssignWorkloadPlanDto, actorId: string) {
+    const calendar = await this.calendarService.getDayMap(dto.startDate, dto.endDate);
+    const days = this.expandRange(dto.startDate, dto.endDate).filter(
+      (day) => !this.isDayOff(day, calendar, dto.excludeDates, dto.includeNonWorkingDays),
+    );
+    await this.assertCanPlanProject(dto.projectId, actorId);
+
+    const userIds = [...new Set(dto.userIds)];
+    const userCount = await this.prisma.user.count({ where: { id: { in: userIds } } });
+    if (userCount !== userIds.length) {
+      throw new BadRequestException('One or more users were not found');
+    }
+
+    const today = this.todayKey();
+    const absences = days.length
+      ? await this.absenceService.getApprovedDays(userIds, this.toDate(days[0]), this.toDate(days[days.length - 1]))
+      : new Map<string, Set<string>>();
+    const closedMonths = days.length
+      ? await this.periodClose.getClosedMonths(this.toDate(days[0]), this.toDate(days[days.length - 1]))
+      : new Set<string>();
+
+    const { cells, created } = await this.inPlanTransaction(async (tx) => {
+      const existing = await this.findExistingPlans(tx, userIds, days);
+      const cells: BulkCellResult[] = [];
+
+      for (const userId of userIds) {
+        for (const date of days) {
+          const cap = this.dayCap(calendar, date);
+          const cell: BulkCellResult = {
+            userId,
+            date,
+            projectId: dto.projectId,
+            hours: dto.hours ?? cap,
+            status: 'Created',
+          };
+          if (date < today) {
+            cell.status = 'Skipped';
+            cell.reason = 'PastDate';
+          } else if (closedMonths.has(date.slice(0, 7))) {
+            cell.status = 'Skipped';
+            cell.reason = 'ClosedPeriod';
+          } else if (absences.get(userId)?.has(date)) {
+            cell.status = 'Skipped';
+            cell.reason = 'Absence';
+          } else {
+            this.checkAllocation(cell, existing.get(`${userId}|${date}`) || [], cap);
+          }
+          cells.push(cell);
+        }
+      }
+
+      const created = dto.dryRun ? [] : await this.createPlans(tx, cells, actorId);
+      return { cells, created };
+    });
+
+    await this.logBulkChanges(actorId, created, []);
+    return this.bulkResult(cells, dto.dryRun);
+  }
+
+  // Copies the plans of the source range to the period starting at targetStartDate
+  async copy(dto: CopyWorkloadPlanDto, actorId: string) {
+    const sourceDays = this.expandRange(dto.sourceStartDate, dto.sourceEndDate);
+    const offset = dayjs(this.toKey(dto.targetStartDate)).diff(dayjs(sourceDays[0]), 'day');
+    if (offset === 0) {
+      throw new BadRequestException('Target period must differ from the source period');
+    }
+
+    const isAdmin = await this.isAdmin(actorId);
+    const today = this.todayKey();
+    const calendar = await this.calendarService.getDayMap(
+      dayjs(sourceDays[0]).add(offset, 'day').format('YYYY-MM-DD'),
+      dayjs(sourceDays[sourceDays.length - 1]).add(offset, 'day').format('YYYY-MM-DD'),
+    );
+    const closedMonths = await this.periodClose.getClosedMonths(
+      this.toDate(dayjs(sourceDays[0]).add(offset, 'day').format('YYYY-MM-DD')),
+      this.toDate(dayjs(sourceDays[sourceDays.length - 1]).add(offset, 'day').format('YYYY-MM-DD')),
+    );
+
+    const { cells, created } = await this.inPlanTransaction(async (tx) => {
+      const source = await tx.workloadPlan.findMany({
+        where: {
+          date: { gte: this.toDate(sourceDays[0]), lte: this.toDate(sourceDays[sourceDays.length - 1]) },
+          userId: dto.userIds ? { in: dto.userIds } : undefined,
+          projectId: dto.projectId,
+          project: { deletedAt: null },
+        },
+        include: {
+          project: {
+            select: { managerId: true },
+          },
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      const targets = source.map((plan) => dayjs(this.toKey(plan.date)).add(offset, 'day').format('YYYY-MM-DD'));
+      const sourceUserIds = [...new Set(source.map((plan) => plan.userId))];
+      const existing = await this.findExistingPlans(tx, sourceUserIds, [...new Set(targets)]);
+      const absences = await this.absenceService.getApprovedDays(
+        sourceUserIds,
+        this.toDate(dayjs(sourceDays[0]).add(offset, 'day').format('YYYY-MM-DD')),
+        this.toDate(dayjs(sourceDays[sourceDays.length - 1]).add(offset, 'day').format('YYYY-MM-DD')),
+      );
+
+      const cells: BulkCellResult[] = source.map((plan, i) => {
+        const cell: BulkCellResult = {
+          userId: plan.userId,
+          date: targets[i],
+          projectId: plan.projectId,
+          hours: plan.hours,
+          status: 'Created',
+        };
+        const key = `${plan.userId}|${targets[i]}`;
+        if (!isAdmin && plan.project.managerId !== actorId) {
+          cell.status = 'Skipped';
+          cell.reason = 'Forbidden';
+        } else if (targets[i] < today) {
+          cell.status = 'Skipped';
+          cell.reason = 'PastDate';
+        } else if (closedMonths.has(targets[i].slice(0, 7))) {
+          cell.status = 'Skipped';
+          cell.reason = 'ClosedPeriod';
+        } else if (this.isDayOff(targets[i], calendar, dto.excludeDates, dto.includeNonWorkingDays)) {
+          cell.status = 'Skipped';
+          cell.reason = 'NonWorkingDay';
+        } else if (absences.get(plan.userId)?.has(targets[i])) {
+          cell.status = 'Skipped';
+          cell.reason = 'Absence';
+        } else {
+          const allocations = existing.get(key) || [];
+          this.checkAllocation(cell, allocations, this.dayCap(calendar, targets[i]));
+          // Copied allocations of the same day count towards its cap
+          if (cell.status === 'Created') {
+            existing.set(key, [...allocations, { id: '', projectId: plan.projectId, projectName: '', hours: plan.hours }]);
+          }
+        }
+        return cell;
+      });
+
+      const created = dto.dryRun ? [] : await this.createPlans(tx, cells, actorId);
+      return { cells, created };
+    });
+
+    await this.logBulkChanges(actorId, created, []);
+    return this.bulkResult(cells, dto.dryRun);
+  }
+
+  // Deletes the plans of the range; like a single delete, Managers only remove their own plans
+  async clear(dto: ClearWorkloadPlanDto, actorId: string) {
+    const days = this.expandRange(dto.startDate, dto.endDate);
+    const isAdmin = await this.isAdmin(actorId);
+    const today = this.todayKey();
+    const closedMonths = await this.periodClose.getClosedMonths(
+      this.toDate(days[0]),
+      this.toDate(days[days.length - 1]),
+    );
+
+    const { cells, deleted } = await this.prisma.$transaction(async (tx) => {
+      const plans = await tx.workloadPlan.findMany({
+        where: {
+          date: { gte: this.toDate(days[0]), lte: this.toDate(days[days.length - 1]) },
+          userId: dto.userIds ? { in: dto.userIds } : undefined,
+          projectId: dto.projectId,
+        },
+        orderBy: { date: 'asc' },
+      });
+
+      const cells: BulkCellResult[] = [];
+      const deleted: PlanRef[] = [];
+      for (const plan of plans) {
+        const cell: BulkCellResult = {
+          userId: plan.userId,
+          date: this.toKey(plan.date),
+          projectId: plan.projectId,
+          hours: plan.hours,
+          status: 'Deleted',
+        };
+        if (cell.date < today) {
+          cell.status = 'Skipped';
+          cell.reason = 'PastDate';
+        } else if (closedMonths.has(cell.date.slice(0, 7))) {
+          cell.status = 'Skipped';
+          cell.reason = 'ClosedPeriod';
+        } else if (!isAdmin && plan.managerId !== actorId) {
+          cell.status = 'Skipped';
+          cell.reason = 'Forbidden';
+        } else {
+          deleted.push(plan);
+        }
+        cells.push(cell);
+      }
+
+      if (!dto.dryRun && deleted.length > 0) {
+        await tx.workloadPlan.deleteMany({
+          where: { id: { in: deleted.map((plan) => plan.id) } },
+        });
+      }
+
+      return { cells, deleted: dto.dryRun ? [] : deleted };
+    });
+
+    await this.logBulkChanges(actorId, [], deleted);
+    return this.bulkResult(cells, dto.dryRun);
+  }
+
+  // Serializable, so allocations read for a cap check cannot change before the write commits.
+  // Of two colliding requests the second fails and is asked to retry.
+  private async inPlanTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>) {
+    try {
+      return await this.prisma.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        throw new ConflictException('The plans of this day were changed at the same time, please try again');
+      }
+      throw error;
+    }
+  }
+
+  private async assertCanPlanProject(projectId: string, actorId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, deletedAt: null },
+      select: { managerId: true },
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (project.managerId !== actorId && !(await this.isAdmin(actorId))) {
+      throw new ForbiddenException('Only the project manager can plan this project');
+    }
+  }
+
+  private async isAdmin(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+    return user?.role === UserRole.Admin;
+  }
+
+  // Existing allocations keyed by "userId|YYYY-MM-DD"
+  private async findExistingPlans(tx: Prisma.TransactionClient, userIds: string[], days: string[]) {
+    const plans = await tx.workloadPlan.findMany({
+      where: {
+        userId: { in: userIds },
+        date: { in: days.map((day) => this.toDate(day)) },
+      },
+      include: {
+        project: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    const allocations = new Map<string, Allocation[]>();
+    for (const plan of plans) {
+      const key = `${plan.userId}|${this.toKey(plan.date)}`;
+      allocations.set(key, [
+        ...(allocations.get(key) || []),
+        { id: plan.id, projectId: plan.project.id, projectName: plan.project.name, hours: plan.hours },
+      ]);
+    }
+    return allocations;
+  }
+
+  // Marks the cell as a conflict when the project is already planned or the day is full
+  private checkAllocation(cell: BulkCellResult, allocations: Allocation[], cap: number) {
+    if (allocations.some((allocation) => allocation.projectId === cell.projectId)) {
+      cell.reason = 'SameProject';
+    } else if (this.sumHours(allocations) + cell.hours > cap) {
+      cell.reason = 'DailyCap';
+    } else {
+      return;
+    }
+    cell.status = 'Conflict';
+    cell.existing = allocations.filter((allocation) => allocation.id);
+  }
+
+  // Non-working days planned on purpose get a regular working day
+  private dayCap(calendar: Map<string, CalendarDay>, day: string) {
+    return calendar.get(day)?.hours || HOURS_PER_DAY;
+  }
+
+  private async createPlans(tx: Prisma.TransactionClient, cells: BulkCellResult[], managerId: string) {
+    const data = cells
+      .filter((cell) => cell.status === 'Created')
+      .map((cell) => ({
+        userId: cell.userId,
+        projectId: cell.projectId,
+        managerId,
+        date: this.toDate(cell.date),
+        hours: cell.hours,
+      }));
+    if (data.length === 0) return [];
+
+    return tx.workloadPlan.createManyAndReturn({ data });
+  }
+
+  // Audit entries per plan and one notification per affected employee
+  private async logBulkChanges(actorId: string, created: PlanRef[], deleted: PlanRef[]) {
+    for (const plan of created) {
+      await this.auditService.log({
+        userId: actorId,
+        entityType: 'WorkloadPlan',
+        entityId: plan.id,
+        projectId: plan.projectId,
+        action: AuditAction.Create,
+        after: plan,
+      });
+    }
+    for (const plan of deleted) {
+      await this.auditService.log({
+        userId: actorId,
+        entityType: 'WorkloadPlan',
+        entityId: plan.id,
+        projectId: plan.projectId,
+        action: AuditAction.Delete,
+        before: plan,
+      });
+    }
+
+    const byUser = new Map<string, { created: number; deleted: number; dates: string[] }>();
+    for (const [plans, field] of [[created, 'created'], [deleted, 'deleted']] as const) {
+      for (const plan of plans) {
+        const entry = byUser.get(plan.userId) || { created: 0, deleted: 0, dates: [] };
+        entry[field]++;
+        entry.dates.push(this.toKey(plan.date));
+        byUser.set(plan.userId, entry);
+      }
+    }
+
+    for (const [userId, entry] of byUser) {
+      if (userId === actorId) continue;
+      const dates = entry.dates.sort();
+      await this.notificationService.notify({
+        userId,
+        type: NotificationType.WorkloadPlanBulkChanged,
+        data: {
+          created: entry.created,
+          deleted: entry.deleted,
+          startDate: dates[0],
+          endDate: dates[dates.length - 1],
+        },
+        link: '/workload',
+      });
+    }
+  }
+
+  private bulkResult(cells: BulkCellResult[], dryRun = false) {
+    const count = (status: BulkCellStatus) => cells.filter((cell) => cell.status === status).length;
+
+    return {
+      dryRun,
+      summary: {
+        created: count('Created'),
+        deleted: count('Deleted'),
+        conflicts: count('Conflict'),
+        skipped: count('Skipped'),
+      },
+      cells,
+    };
+  }
+
+  // Every calendar day of the range as YYYY-MM-DD
+  private expandRange(startDate: string, endDate: string) {
+    const start = dayjs(this.toKey(startDate));
+    const end = dayjs(this.toKey(endDate));
+
+    if (end.isBefore(start)) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (end.diff(start, 'day') + 1 > MAX_BULK_DAYS) {
+      throw new BadRequestException(`Date range must not exceed ${MAX_BULK_DAYS} days`);
+    }
+
+    const days: string[] = [];
+    for (let day = start; !day.isAfter(end); day = day.add(1, 'day')) {
+      days.push(day.format('YYYY-MM-DD'));
+    }
+    return days;
+  }
+
+  // Weekends and holidays come from the production calendar
+  private isDayOff(
+    day: string,
+    calendar: Map<string, CalendarDay>,
+    excludeDates: string[] = [],
+    includeNonWorkingDays = false,
+  ) {
+    if (!includeNonWorkingDays && calendar.get(day)?.hours === 0) return true;
+    return excludeDates.some((date) => this.toKey(date) === day);
+  }
+
+  // Hours of the day by the production calendar, planning a non-working day is rejected
+  private async getDailyCap(date: Date | string) {
+    const day = await this.calendarService.getDay(this.toKey(new Date(date)));
+    if (day.hours === 0) {
+      throw new BadRequestException('Cannot plan work on a non-working day');
+    }
+    return day.hours;
+  }
+
+  private assertWithinCap(dayPlans: { hours: number }[], hours: number, cap: number) {
+    const allocated = this.sumHours(dayPlans);
+    if (hours <= 0 || allocated + hours > cap) {
+      throw new ConflictException(
+        `The daily cap of ${cap} hours is exceeded, ${Math.max(cap - allocated, 0)} hours are still free`,
+      );
+    }
+  }
+
+  private sumHours(plans: { hours: number }[]) {
+    return plans.reduce((sum, plan) => sum + plan.hours, 0);
+  }
+
+  // Plan dates are stored as UTC midnight of the calendar day
+  private toKey(date: string | Date) {
+    return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+  }
+
+  private toDate(key: string) {
+    return new Date(key);
+  }
+
+  private todayKey() {
+    return dayjs().format('YYYY-MM-DD');
+  }
+
+  // Tells the employee about a change of their plan, unless they made it themselves
+  private async notifyPlanUser(
+    type: NotificationType,
+    plan: { userId: string; date: Date; project: { id: string; name: string } },
+    actorId?: string,
+  ) {
+    if (plan.userId === actorId) return;
+
+    await this.notificationService.notify({
+      userId: plan.userId,
+      type,
+      data: { date: plan.date, projectId: plan.project.id, projectName: plan.project.name },
+      link: '/workload',
+    });
+  }
+
   // Get calendar view for a date range
   async getCalendarView(startDate: Date, endDate: Date, userId?: string, projectId?: string) {
     const where: any = {
@@ -289,6 +834,7 @@ export class WorkloadPlanService {
         id: plan.id,
         user: plan.user,
         project: plan.project,
+        hours: plan.hours,
         // Feature #325: Include manager for canModifyPlan check on frontend
         manager: plan.manager,
       });
@@ -0,0 +1,220 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import * as dayjs from 'dayjs';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReconciliationQueryDto } from './dto/workload-plan.dto';
+
+// Longest period a single reconciliation may cover
+const MAX_RECONCILIATION_DAYS = 93;
+
+type ReconciliationIssue = 'NotReported' | 'UnplannedProject' | 'NotProjectMember';
+
+interface ProjectRef {
+  id: string;
+  name: string;
+  manager: { id: string; firstName: string; lastName: string } | null;
+}
+
+export interface ReconciliationRow {
+  user: { id: string; firstName: string; lastName: string };
+  date: string; // YYYY-MM-DD
+  planned: { projectId: string; projectName: string; hours: number; reportedHours: number }[];
+  reported: { projectId: string; projectName: string; hours: number; planned: boolean; member: boolean }[];
+  plannedHours: number;
+  reportedHours: number | null; // null - no report for the day
+  issues: ReconciliationIssue[];
+}
+
+export interface ManagerReconciliationSummary {
+  managerId: string | null;
+  managerName: string | null;
+  plannedDays: number; // planned allocations on the manager's projects
+  plannedHours: number;
+  reportedHours: number;
+  notReported: number; // allocations of past days without a report
+  unplannedHours: number;
+  nonMemberHours: number;
+}
+
+@Injectable()
+export class WorkloadReconciliationService {
+  constructor(private prisma: PrismaService) {}
+
+  // Plans against reported hours per employee and day; only days before today are flagged as not reported
+  async reconcile(query: ReconciliationQueryDto) {
+    const start = dayjs(query.startDate.slice(0, 10));
+    const end = dayjs(query.endDate.slice(0, 10));
+    if (end.isBefore(start)) {
+      throw new BadRequestException('End date must not be before start date');
+    }
+    if (end.diff(start, 'day') + 1 > MAX_RECONCILIATION_DAYS) {
+      throw new BadRequestException(`Date range must not exceed ${MAX_RECONCILIATION_DAYS} days`);
+    }
+
+    const dateRange = {
+      gte: new Date(start.format('YYYY-MM-DD')),
+      lte: new Date(end.format('YYYY-MM-DD')),
+    };
+    const projectSelect = {
+      select: {
+        id: true,
+        name: true,
+        manager: { select: { id: true, firstName: true, lastName: true } },
+      },
+    };
+    const userSelect = { select: { id: true, firstName: true, lastName: true } };
+
+    const [plans, actuals] = await Promise.all([
+      this.prisma.workloadPlan.findMany({
+        where: { date: dateRange, userId: query.userId },
+        include: { project: projectSelect, user: userSelect },
+      }),
+      this.prisma.workloadActual.findMany({
+        where: { date: dateRange, userId: query.userId },
+        include: {
+          user: userSelect,
+          distributions: { include: { project: projectSelect } },
+        },
+      }),
+    ]);
+
+    const userIds = [...new Set([...plans.map((p) => p.userId), ...actuals.map((a) => a.userId)])];
+    const memberships = await this.prisma.projectUser.findMany({
+      where: { userId: { in: userIds } },
+      select: { userId: true, projectId: true },
+    });
+    const members = new Set(memberships.map((m) => `${m.userId}|${m.projectId}`));
+
+    // Collect plans and reports per "userId|YYYY-MM-DD"
+    const days = new Map<
+      string,
+      {
+        user: ReconciliationRow['user'];
+        date: string;
+        plans: { project: ProjectRef; hours: number }[];
+        report: { hours: number; distributions: { project: ProjectRef; hours: number }[] } | null;
+      }
+    >();
+    const dayOf = (user: ReconciliationRow['user'], date: Date) => {
+      const key = `${user.id}|${this.toKey(date)}`;
+      if (!days.has(key)) days.set(key, { user, date: this.toKey(date), plans: [], report: null });
+      return days.get(key)!;
+    };
+
+    for (const plan of plans) {
+      dayOf(plan.user, plan.date).plans.push({ project: plan.project, hours: plan.hours });
+    }
+    for (const actual of actuals) {
+      dayOf(actual.user, actual.date).report = { hours: actual.hoursWorked, distributions: actual.distributions };
+    }
+
+    const today = dayjs().format('YYYY-MM-DD');
+    const managers = new Map<string, ManagerReconciliationSummary>();
+    const managerOf = (project: ProjectRef) => {
+      const key = project.manager?.id ?? '';
+      if (!managers.has(key)) {
+        managers.set(key, {
+          managerId: project.manager?.id ?? null,
+          managerName: project.manager ? `${project.manager.firstName} ${project.manager.lastName}` : null,
+          plannedDays: 0,
+          plannedHours: 0,
+          reportedHours: 0,
+          notReported: 0,
+          unplannedHours: 0,
+          nonMemberHours: 0,
+        });
+      }
+      return managers.get(key)!;
+    };
+
+    const rows: ReconciliationRow[] = [];
+    for (const day of days.values()) {
+      const involvesProject =
+        !query.projectId ||
+        day.plans.some((plan) => plan.project.id === query.projectId) ||
+        !!day.report?.distributions.some((d) => d.project.id === query.projectId);
+      if (!involvesProject) continue;
+
+      const reportedOn = (projectId: string) =>
+        day.report?.distributions.filter((d) => d.project.id === projectId).reduce((sum, d) => sum + d.hours, 0) ?? 0;
+      const plannedIds = new Set(day.plans.map((plan) => plan.project.id));
+
+      const row: ReconciliationRow = {
+        user: day.user,
+        date: day.date,
+        planned: day.plans.map((plan) => ({
+          projectId: plan.project.id,
+          projectName: plan.project.name,
+          hours: plan.hours,
+          reportedHours: reportedOn(plan.project.id),
+        })),
+        reported: (day.report?.distributions ?? []).map((d) => ({
+          projectId: d.project.id,
+          projectName: d.project.name,
+          hours: d.hours,
+          planned: plannedIds.has(d.project.id),
+          member: members.has(`${day.user.id}|${d.project.id}`),
+        })),
+        plannedHours: day.plans.reduce((sum, plan) => sum + plan.hours, 0),
+        reportedHours: day.report?.hours ?? null,
+        issues: [],
+      };
+
+      const notReported = !day.report && day.plans.length > 0 && day.date < today;
+      if (notReported) row.issues.push('NotReported');
+      if (row.reported.some((r) => !r.planned)) row.issues.push('UnplannedProject');
+      if (row.reported.some((r) => !r.member)) row.issues.push('NotProjectMember');
+
+      for (const plan of day.plans) {
+        if (query.projectId && plan.project.id !== query.projectId) continue;
+        const summary = managerOf(plan.project);
+        summary.plannedDays++;
+        summary.plannedHours += plan.hours;
+        if (notReported) summary.notReported++;
+      }
+      for (const distribution of day.report?.distributions ?? []) {
+        if (query.projectId && distribution.project.id !== query.projectId) continue;
+        const summary = managerOf(distribution.project);
+        summary.reportedHours += distribution.hours;
+        if (!plannedIds.has(distribution.project.id)) summary.unplannedHours += distribution.hours;
+        if (!members.has(`${day.user.id}|${distribution.project.id}`)) summary.nonMemberHours += distribution.hours;
+      }
+
+      if (!query.issuesOnly || row.issues.length > 0) rows.push(row);
+    }
+
+    rows.sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.user.lastName.localeCompare(b.user.lastName) ||
+        a.user.firstName.localeCompare(b.user.firstName),
+    );
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const count = (issue: ReconciliationIssue) => rows.filter((row) => row.issues.includes(issue)).length;
+
+    return {
+      period: { startDate: start.format('YYYY-MM-DD'), endDate: end.format('YYYY-MM-DD') },
+      summary: {
+        days: rows.length,
+        notReported: count('NotReported'),
+        unplannedProject: count('UnplannedProject'),
+        notProjectMember: count('NotProjectMember'),
+      },
+      managers: Array.from(managers.values())
+        .map((summary) => ({
+          ...summary,
+          plannedHours: round(summary.plannedHours),
+          reportedHours: round(summary.reportedHours),
+          unplannedHours: round(summary.unplannedHours),
+          nonMemberHours: round(summary.nonMemberHours),
+        }))
+        .sort((a, b) => (a.managerName ?? '').localeCompare(b.managerName ?? '')),
+      rows,
+    };
+  }
+
+  // Plan and report dates are stored as UTC midnight of the calendar day
+  private toKey(date: Date) {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -6,6 +6,7 @@ import { setCredentials, logout } from './store/slices/authSlice';
 import { authService } from './services/auth.service';
 import MainLayout from './components/layout/MainLayout';
 import LoginPage from './pages/LoginPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
 import ProjectsPage from './pages/ProjectsPage';
 import ProjectDetailPage from './pages/ProjectDetailPage';
 import EmployeesPage from './pages/EmployeesPage';
@@ -14,6 +15,13 @@ import WorkloadPage from './pages/WorkloadPage';
 import AnalyticsPage from './pages/AnalyticsPage';
 import ProfilePage from './pages/ProfilePage';
 import ChatLogsPage from './pages/ChatLogsPage';
+import ProposalsPage from './pages/ProposalsPage';
+import AbsencesPage from './pages/AbsencesPage';
+import ProductionCalendarPage from './pages/ProductionCalendarPage';
+import PeriodClosePage from './pages/PeriodClosePage';
+import TrashPage from './pages/TrashPage';
+import SecurityPage from './pages/SecurityPage';
+import RemindersPage from './pages/RemindersPage';
 import NotFoundPage from './pages/NotFoundPage';
 
 // Protected route wrapper - just checks authentication
@@ -84,6 +92,7 @@ function App() {
     <Routes>
       {/* Public routes */}
       <Route path="/login" element={<LoginPage />} />
+      <Route path="/reset-password" element={<ResetPasswordPage />} />
 
       {/* Protected routes */}
       <Route
@@ -130,6 +139,76 @@ function App() {
           }
         />
 
+        {/* Proposals - everyone except Trial */}
+        <Route
+          path="proposals"
+          element={
+            <RoleRoute allowedRoles={['Admin', 'Manager', 'Employee']}>
+              <ProposalsPage />
+            </RoleRoute>
+          }
+        />
+
+        {/* Absences - everyone except Trial */}
+        <Route
+          path="absences"
+          element={
+            <RoleRoute allowedRoles={['Admin', 'Manager', 'Employee']}>
+              <AbsencesPage />
+            </RoleRoute>
+          }
+        />
+
+        {/* Trash - Admin only */}
+        <Route
+          path="trash"
+          element={
+            <RoleRoute allowedRoles={['Admin']}>
+              <TrashPage />
+            </RoleRoute>
+          }
+        />
+
+        {/* Login security - Admin only */}
+        <Route
+          path="security"
+          element={
+            <RoleRoute allowedRoles={['Admin']}>
+              <SecurityPage />
+            </RoleRoute>
+          }
+        />
+
+        {/* Timesheet reminders - Admin only */}
+        <Route
+          path="reminders"
+          element={
+            <RoleRoute allowedRoles={['Admin']}>
+              <RemindersPage />
+            </RoleRoute>
+          }
+        />
+
+        {/* Production calendar - Admin only */}
+        <Route
+          path="production-calendar"
+          element={
+            <RoleRoute allowedRoles={['Admin']}>
+              <ProductionCalendarPage />
+            </RoleRoute>
+          }
+        />
+
+        {/* Period close - Admin only */}
+        <Route
+          path="period-close"
+          element={
+            <RoleRoute allowedRoles={['Admin']}>
+              <PeriodClosePage />
+            </RoleRoute>
+          }
+        />
+
         <Route path="profile" element={<ProfilePage />} />
       </Route>
 
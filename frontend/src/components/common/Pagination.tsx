@@ -0,0 +1,69 @@
+import { useTranslation } from 'react-i18next';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+// Number of page buttons shown on each side of the current page
+const PAGE_WINDOW = 2;
+
+export default function Pagination({ page, totalPages, onPageChange }: PaginationProps) {
+  const { t } = useTranslation();
+
+  if (totalPages <= 1) return null;
+
+  // First and last page are always shown, the rest is a window around the current page
+  const pages: (number | 'gap')[] = [];
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= PAGE_WINDOW) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== 'gap') {
+      pages.push('gap');
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+      <div className="text-sm text-gray-500">
+        {t('common.pageOf', { current: page, total: totalPages })}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={page === 1}
+          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('common.previous')}
+        </button>
+        {pages.map((p, index) =>
+          p === 'gap' ? (
+            <span key={`gap-${index}`} className="px-2 py-1 text-sm text-gray-400">
+              …
+            </span>
+          ) : (
+            <button
+              key={p}
+              onClick={() => onPageChange(p)}
+              className={`px-3 py-1 text-sm border rounded ${
+                p === page
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {p}
+            </button>
+          )
+        )}
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={page === totalPages}
+          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('common.next')}
+        </button>
+      </div>
+    </div>
+  );
+}
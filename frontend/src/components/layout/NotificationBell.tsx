@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { io } from 'socket.io-client';
+import { api } from '@/services/auth.service';
+import { useAppSelector } from '@/store';
+import type { PaginatedResponse } from '@/types';
+
+const WS_URL = import.meta.env.VITE_WS_URL || import.meta.env.VITE_API_URL || 'http://localhost:3000';
+const LATEST_LIMIT = 10;
+// The server rejects the handshake with an expired token; retry once the API client refreshed it
+const RECONNECT_DELAY_MS = 5000;
+
+type NotificationType =
+  | 'TimesheetReminder'
+  | 'TimesheetEscalation'
+  | 'ProjectAssigned'
+  | 'WorkloadPlanCreated'
+  | 'WorkloadPlanUpdated'
+  | 'WorkloadPlanDeleted'
+  | 'WorkloadPlanBulkChanged'
+  | 'DocumentUploaded'
+  | 'PaymentOverdue'
+  | 'AbsenceRequested'
+  | 'AbsenceReviewed'
+  | 'TimesheetSubmitted'
+  | 'TimesheetReviewed';
+
+interface Notification {
+  id: string;
+  type: NotificationType;
+  data: Record<string, any> | null;
+  link: string | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export default function NotificationBell() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    fetchNotifications();
+
+    const socket = io(`${WS_URL}/notifications`, {
+      auth: (cb) => cb({ token: localStorage.getItem('accessToken') }),
+    });
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    socket.on('notification', (notification: Notification) => {
+      setNotifications((prev) => [notification, ...prev].slice(0, LATEST_LIMIT));
+      setUnreadCount((count) => count + 1);
+    });
+    socket.on('unread-count', ({ count }: { count: number }) => setUnreadCount(count));
+    socket.on('connect_error', () => {
+      if (socket.active) return;
+      clearTimeout(reconnectTimer);
+      reconnectTimer = setTimeout(() => socket.connect(), RECONNECT_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(reconnectTimer);
+      socket.disconnect();
+    };
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const fetchNotifications = async () => {
+    try {
+      const [listResponse, countResponse] = await Promise.all([
+        api.get<PaginatedResponse<Notification>>(`/notifications?page=1&limit=${LATEST_LIMIT}`),
+        api.get<{ count: number }>('/notifications/unread-count'),
+      ]);
+      setNotifications(listResponse.data.data);
+      setUnreadCount(countResponse.data.count);
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n)),
+      );
+      setUnreadCount((count) => Math.max(0, count - 1));
+      api.patch(`/notifications/${notification.id}/read`).catch((error) => {
+        console.error('Failed to mark notification as read:', error);
+      });
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await api.patch('/notifications/read-all');
+      const now = new Date().toISOString();
+      setNotifications((prev) => prev.map((n) => ({ ...n, readAt: n.readAt || now })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
+
+  const getText = (notification: Notification) => {
+    const data = notification.data || {};
+    return t(`notifications.types.${notification.type}`, {
+      ...data,
+      dates: Array.isArray(data.dates) ? data.dates.join(', ') : data.dates,
+      date: data.date ? formatDate(data.date) : undefined,
+      expectedDate: data.expectedDate ? formatDate(data.expectedDate) : undefined,
+      startDate: data.startDate ? formatDate(data.startDate) : undefined,
+      endDate: data.endDate ? formatDate(data.endDate) : undefined,
+      absenceType: data.absenceType ? t(`absences.types.${data.absenceType}`) : undefined,
+      status: data.status ? t(`absences.statuses.${data.status}`) : undefined,
+      timesheetStatus: data.timesheetStatus ? t(`workload.timesheetStatus.${data.timesheetStatus}`) : undefined,
+    });
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg hover:bg-gray-100"
+        aria-label={t('common.notifications')}
+      >
+        <svg
+          className="w-6 h-6 text-gray-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.125rem] h-[1.125rem] px-1 bg-red-500 text-white text-xs font-medium rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900">{t('notifications.title')}</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs text-primary-600 hover:text-primary-800 font-medium"
+              >
+                {t('notifications.markAllRead')}
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">{t('notifications.empty')}</div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${
+                      notification.readAt ? '' : 'bg-primary-50'
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!notification.readAt && (
+                        <span className="mt-1.5 w-2 h-2 flex-shrink-0 rounded-full bg-primary-600" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900">{getText(notification)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(notification.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import toast from 'react-hot-toast';
+import { api } from '@/services/auth.service';
+
+type BulkMode = 'assign' | 'copy' | 'clear';
+type BulkCellStatus = 'Created' | 'Deleted' | 'Conflict' | 'Skipped';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface BulkCell {
+  userId: string;
+  date: string;
+  projectId: string;
+  hours: number;
+  status: BulkCellStatus;
+  reason?: 'PastDate' | 'ClosedPeriod' | 'NonWorkingDay' | 'Absence' | 'Forbidden' | 'SameProject' | 'DailyCap';
+  existing?: { id: string; projectId: string; projectName: string; hours: number }[];
+}
+
+interface BulkResult {
+  dryRun: boolean;
+  summary: { created: number; deleted: number; conflicts: number; skipped: number };
+  cells: BulkCell[];
+}
+
+interface BulkPlanModalProps {
+  employees: { id: string; firstName: string; lastName: string }[];
+  projects: Option[];
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export default function BulkPlanModal({ employees, projects, onClose, onApplied }: BulkPlanModalProps) {
+  const { t } = useTranslation();
+
+  const [mode, setMode] = useState<BulkMode>('assign');
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [hours, setHours] = useState(''); // empty - a full working day
+  const [targetStartDate, setTargetStartDate] = useState('');
+  const [excludeDates, setExcludeDates] = useState('');
+  const [includeNonWorkingDays, setIncludeNonWorkingDays] = useState(false);
+  const [preview, setPreview] = useState<BulkResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  const employeeName = (id: string) => {
+    const employee = employees.find((e) => e.id === id);
+    return employee ? `${employee.firstName} ${employee.lastName}` : id;
+  };
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name || '';
+
+  const changeMode = (next: BulkMode) => {
+    setMode(next);
+    setPreview(null);
+  };
+
+  const toggleUser = (id: string) => {
+    setPreview(null);
+    setUserIds((prev) => (prev.includes(id) ? prev.filter((u) => u !== id) : [...prev, id]));
+  };
+
+  const buildPayload = (dryRun: boolean) => {
+    const excluded = excludeDates
+      .split(/[\s,;]+/)
+      .map((d) => d.trim())
+      .filter(Boolean);
+    const filters = {
+      userIds: userIds.length > 0 ? userIds : undefined,
+      projectId: projectId || undefined,
+    };
+
+    switch (mode) {
+      case 'assign':
+        return {
+          userIds,
+          projectId,
+          startDate,
+          endDate,
+          hours: hours ? Number(hours) : undefined,
+          excludeDates: excluded,
+          includeNonWorkingDays,
+          dryRun,
+        };
+      case 'copy':
+        return {
+          ...filters,
+          sourceStartDate: startDate,
+          sourceEndDate: endDate,
+          targetStartDate,
+          excludeDates: excluded,
+          includeNonWorkingDays,
+          dryRun,
+        };
+      case 'clear':
+        return { ...filters, startDate, endDate, dryRun };
+    }
+  };
+
+  const isValid = () => {
+    if (!startDate || !endDate) return false;
+    if (mode === 'assign') return userIds.length > 0 && !!projectId;
+    if (mode === 'copy') return !!targetStartDate;
+    return true;
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!isValid()) {
+      toast.error(t('workload.bulk.fillRequired'));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await api.post<BulkResult>(`/workload-plan/bulk/${mode}`, buildPayload(dryRun));
+      if (dryRun) {
+        setPreview(response.data);
+      } else {
+        const { summary } = response.data;
+        toast.success(t('workload.bulk.applied', summary));
+        onApplied();
+        onClose();
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('workload.bulk.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const statusColor = (status: BulkCellStatus) => {
+    switch (status) {
+      case 'Created':
+        return 'text-green-700';
+      case 'Deleted':
+        return 'text-red-700';
+      case 'Conflict':
+        return 'text-amber-700';
+      default:
+        return 'text-gray-500';
+    }
+  };
+
+  // Successful cells are only counted, the list shows what needs attention
+  const problemCells = preview?.cells.filter((c) => c.status === 'Conflict' || c.status === 'Skipped') || [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">{t('workload.bulk.title')}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex border-b border-gray-200 px-4">
+          {(['assign', 'copy', 'clear'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => changeMode(m)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 ${
+                mode === m
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t(`workload.bulk.modes.${m}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-500">{t(`workload.bulk.hints.${mode}`)}</p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t(mode === 'copy' ? 'workload.bulk.sourceStart' : 'workload.bulk.startDate')} *
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  setPreview(null);
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t(mode === 'copy' ? 'workload.bulk.sourceEnd' : 'workload.bulk.endDate')} *
+              </label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => {
+                  setEndDate(e.target.value);
+                  setPreview(null);
+                }}
+                className={inputClass}
+              />
+            </div>
+            {mode === 'copy' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('workload.bulk.targetStart')} *
+                </label>
+                <input
+                  type="date"
+                  value={targetStartDate}
+                  onChange={(e) => {
+                    setTargetStartDate(e.target.value);
+                    setPreview(null);
+                  }}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('workload.project')}
+                {mode === 'assign' && ' *'}
+              </label>
+              <select
+                value={projectId}
+                onChange={(e) => {
+                  setProjectId(e.target.value);
+                  setPreview(null);
+                }}
+                className={inputClass}
+              >
+                <option value="">
+                  {mode === 'assign' ? t('workload.selectProject') : t('workload.bulk.allProjects')}
+                </option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {mode === 'assign' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('workload.plannedHours')}</label>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={24}
+                  step={0.5}
+                  value={hours}
+                  onChange={(e) => {
+                    setHours(e.target.value);
+                    setPreview(null);
+                  }}
+                  placeholder={t('workload.fullDay')}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          {mode !== 'clear' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('workload.bulk.excludeDates')}
+                </label>
+                <input
+                  type="text"
+                  value={excludeDates}
+                  onChange={(e) => {
+                    setExcludeDates(e.target.value);
+                    setPreview(null);
+                  }}
+                  placeholder="2026-11-04, 2026-12-31"
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 sm:mt-7">
+                <input
+                  type="checkbox"
+                  checked={includeNonWorkingDays}
+                  onChange={(e) => {
+                    setIncludeNonWorkingDays(e.target.checked);
+                    setPreview(null);
+                  }}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {t('workload.bulk.includeNonWorkingDays')}
+              </label>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('workload.bulk.employees')}
+              {mode === 'assign' ? ' *' : ` (${t('workload.bulk.allIfEmpty')})`}
+            </label>
+            <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-lg p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+              {employees.map((employee) => (
+                <label key={employee.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={userIds.includes(employee.id)}
+                    onChange={() => toggleUser(employee.id)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {employee.firstName} {employee.lastName}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {preview && (
+            <div className="border border-gray-200 rounded-lg">
+              <div className="p-3 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-700">
+                {t('workload.bulk.previewSummary', preview.summary)}
+              </div>
+              {problemCells.length === 0 ? (
+                <div className="p-3 text-sm text-gray-500">{t('workload.bulk.noProblems')}</div>
+              ) : (
+                <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                  {problemCells.map((cell) => (
+                    <li key={`${cell.userId}|${cell.date}|${cell.projectId}`} className="px-3 py-2 text-sm flex justify-between gap-2">
+                      <span>
+                        {new Date(`${cell.date}T00:00:00`).toLocaleDateString()} · {employeeName(cell.userId)}
+                        {projectName(cell.projectId) && ` · ${projectName(cell.projectId)}`}
+                      </span>
+                      <span className={statusColor(cell.status)}>
+                        {cell.status === 'Conflict'
+                          ? t(`workload.bulk.conflicts.${cell.reason}`, {
+                              projects: cell.existing?.map((a) => `${a.projectName} (${a.hours})`).join(', '),
+                            })
+                          : t(`workload.bulk.reasons.${cell.reason}`)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t">
+          <button onClick={onClose} className="btn-secondary">
+            {t('common.cancel')}
+          </button>
+          <button onClick={() => submit(true)} disabled={isSubmitting} className="btn-secondary disabled:opacity-50">
+            {t('workload.bulk.preview')}
+          </button>
+          <button
+            onClick={() => submit(false)}
+            disabled={isSubmitting || !preview}
+            className={`${mode === 'clear' ? 'bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium' : 'btn-primary'} disabled:opacity-50`}
+          >
+            {t(`workload.bulk.apply.${mode}`)}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import toast from 'react-hot-toast';
+import { api } from '@/services/auth.service';
+
+type ReconciliationIssue = 'NotReported' | 'UnplannedProject' | 'NotProjectMember';
+
+interface ReconciliationRow {
+  user: { id: string; firstName: string; lastName: string };
+  date: string;
+  planned: { projectId: string; projectName: string; hours: number; reportedHours: number }[];
+  reported: { projectId: string; projectName: string; hours: number; planned: boolean; member: boolean }[];
+  plannedHours: number;
+  reportedHours: number | null;
+  issues: ReconciliationIssue[];
+}
+
+interface ManagerSummary {
+  managerId: string | null;
+  managerName: string | null;
+  plannedDays: number;
+  plannedHours: number;
+  reportedHours: number;
+  notReported: number;
+  unplannedHours: number;
+  nonMemberHours: number;
+}
+
+interface ReconciliationResult {
+  period: { startDate: string; endDate: string };
+  summary: { days: number; notReported: number; unplannedProject: number; notProjectMember: number };
+  managers: ManagerSummary[];
+  rows: ReconciliationRow[];
+}
+
+interface ReconciliationViewProps {
+  employees: { id: string; firstName: string; lastName: string }[];
+  projects: { id: string; name: string }[];
+}
+
+const formatKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const ISSUE_CLASSES: Record<ReconciliationIssue, string> = {
+  NotReported: 'bg-red-100 text-red-800',
+  UnplannedProject: 'bg-amber-100 text-amber-800',
+  NotProjectMember: 'bg-purple-100 text-purple-800',
+};
+
+export default function ReconciliationView({ employees, projects }: ReconciliationViewProps) {
+  const { t } = useTranslation();
+
+  const now = new Date();
+  const [startDate, setStartDate] = useState(formatKey(new Date(now.getFullYear(), now.getMonth(), 1)));
+  const [endDate, setEndDate] = useState(formatKey(now));
+  const [userId, setUserId] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [issuesOnly, setIssuesOnly] = useState(true);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  useEffect(() => {
+    fetchReconciliation();
+  }, [startDate, endDate, userId, projectId, issuesOnly]);
+
+  const fetchReconciliation = async () => {
+    if (!startDate || !endDate) return;
+
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ startDate, endDate, issuesOnly: String(issuesOnly) });
+      if (userId) params.append('userId', userId);
+      if (projectId) params.append('projectId', projectId);
+
+      const response = await api.get<ReconciliationResult>(`/workload-plan/reconciliation?${params}`);
+      setResult(response.data);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('workload.reconciliation.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const summaryCards: { key: keyof ReconciliationResult['summary']; className: string }[] = [
+    { key: 'days', className: 'text-gray-900' },
+    { key: 'notReported', className: 'text-red-600' },
+    { key: 'unplannedProject', className: 'text-amber-600' },
+    { key: 'notProjectMember', className: 'text-purple-600' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('workload.bulk.startDate')}</label>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('workload.bulk.endDate')}</label>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('workload.project')}</label>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+              <option value="">{t('workload.allProjects')}</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('workload.employee')}</label>
+            <select value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClass}>
+              <option value="">{t('workload.allEmployees')}</option>
+              {employees.map((employee) => (
+                <option key={employee.id} value={employee.id}>
+                  {employee.firstName} {employee.lastName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-7">
+            <input
+              type="checkbox"
+              checked={issuesOnly}
+              onChange={(e) => setIssuesOnly(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            {t('workload.reconciliation.issuesOnly')}
+          </label>
+        </div>
+      </div>
+
+      {isLoading || !result ? (
+        <div className="card p-6 text-center text-gray-500">{t('common.loading')}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {summaryCards.map(({ key, className }) => (
+              <div key={key} className="card p-4">
+                <div className="text-sm text-gray-500">{t(`workload.reconciliation.summary.${key}`)}</div>
+                <div className={`text-2xl font-semibold ${className}`}>{result.summary[key]}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Per project manager */}
+          <div className="card overflow-hidden">
+            <div className="p-4 border-b font-semibold">{t('workload.reconciliation.byManager')}</div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['manager', 'plannedDays', 'plannedHours', 'reportedHours', 'notReported', 'unplannedHours', 'nonMemberHours'].map(
+                      (column) => (
+                        <th key={column} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                          {t(`workload.reconciliation.columns.${column}`)}
+                        </th>
+                      ),
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.managers.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                        {t('workload.reconciliation.empty')}
+                      </td>
+                    </tr>
+                  ) : (
+                    result.managers.map((manager) => (
+                      <tr key={manager.managerId ?? 'none'} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 font-medium text-gray-900">
+                          {manager.managerName ?? t('workload.reconciliation.noManager')}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">{manager.plannedDays}</td>
+                        <td className="px-4 py-3 text-gray-600">{manager.plannedHours}h</td>
+                        <td className="px-4 py-3 text-gray-600">{manager.reportedHours}h</td>
+                        <td className={`px-4 py-3 ${manager.notReported > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                          {manager.notReported}
+                        </td>
+                        <td className={`px-4 py-3 ${manager.unplannedHours > 0 ? 'text-amber-600 font-medium' : 'text-gray-600'}`}>
+                          {manager.unplannedHours}h
+                        </td>
+                        <td className={`px-4 py-3 ${manager.nonMemberHours > 0 ? 'text-purple-600 font-medium' : 'text-gray-600'}`}>
+                          {manager.nonMemberHours}h
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Per employee and day */}
+          <div className="card overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['date', 'employee', 'planned', 'reported', 'issues'].map((column) => (
+                      <th key={column} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        {t(`workload.reconciliation.columns.${column}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                        {t('workload.reconciliation.empty')}
+                      </td>
+                    </tr>
+                  ) : (
+                    result.rows.map((row) => (
+                      <tr key={`${row.user.id}|${row.date}`} className="hover:bg-gray-50 align-top">
+                        <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                          {new Date(`${row.date}T00:00:00`).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">
+                          {row.user.firstName} {row.user.lastName}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {row.planned.length === 0 ? (
+                            <span className="text-gray-400">—</span>
+                          ) : (
+                            row.planned.map((plan) => (
+                              <div key={plan.projectId}>
+                                {plan.projectName}: {plan.hours}h
+                                <span className={plan.reportedHours < plan.hours ? 'text-red-600' : 'text-green-600'}>
+                                  {' '}
+                                  ({t('workload.reconciliation.reportedHours', { hours: plan.reportedHours })})
+                                </span>
+                              </div>
+                            ))
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {row.reportedHours === null ? (
+                            <span className="text-gray-400">{t('workload.reconciliation.noReport')}</span>
+                          ) : (
+                            <>
+                              {row.reported.map((report) => (
+                                <div key={report.projectId}>
+                                  <span className={!report.planned ? 'text-amber-700' : ''}>
+                                    {report.projectName}: {report.hours}h
+                                  </span>
+                                  {!report.member && (
+                                    <span className="text-purple-700"> · {t('workload.reconciliation.notMember')}</span>
+                                  )}
+                                </div>
+                              ))}
+                              <div className="text-xs text-gray-500">
+                                {t('workload.reconciliation.totalReported', { hours: row.reportedHours })}
+                              </div>
+                            </>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-1">
+                            {row.issues.map((issue) => (
+                              <span
+                                key={issue}
+                                className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${ISSUE_CLASSES[issue]}`}
+                              >
+                                {t(`workload.reconciliation.issues.${issue}`)}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import toast from 'react-hot-toast';
+import { api } from '@/services/auth.service';
+
+interface InboxItem {
+  id: string;
+  projectId: string;
+  hours: number;
+  description: string;
+  project: { id: string; name: string };
+  workloadActual: {
+    id: string;
+    date: string;
+    hoursWorked: number;
+    userText: string | null;
+    submittedAt: string | null;
+    user: { id: string; firstName: string; lastName: string };
+  };
+}
+
+export default function TimesheetInbox() {
+  const { t } = useTranslation();
+
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [projectId, setProjectId] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  useEffect(() => {
+    fetchInbox();
+  }, []);
+
+  const fetchInbox = async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get<InboxItem[]>('/workload-actual/inbox');
+      setItems(response.data);
+      setSelected(new Set());
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('workload.approvals.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Projects that have hours waiting, for the filter
+  const projects = useMemo(() => {
+    const byId = new Map(items.map((item) => [item.project.id, item.project]));
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [items]);
+
+  const visibleItems = projectId ? items.filter((item) => item.projectId === projectId) : items;
+  const allSelected = visibleItems.length > 0 && visibleItems.every((item) => selected.has(item.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(visibleItems.map((item) => item.id)));
+  };
+
+  const handleReview = async (status: 'Approved' | 'Rejected') => {
+    const distributionIds = visibleItems.filter((item) => selected.has(item.id)).map((item) => item.id);
+    if (distributionIds.length === 0) return;
+
+    if (status === 'Rejected' && !comment.trim()) {
+      toast.error(t('workload.approvals.commentRequired'));
+      return;
+    }
+
+    setIsReviewing(true);
+    try {
+      await api.post('/workload-actual/review', {
+        distributionIds,
+        status,
+        comment: comment.trim() || undefined,
+      });
+      toast.success(
+        status === 'Approved'
+          ? t('workload.approvals.approved', { count: distributionIds.length })
+          : t('workload.approvals.rejected', { count: distributionIds.length }),
+      );
+      setComment('');
+      fetchInbox();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('workload.approvals.reviewError'));
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const selectedCount = visibleItems.filter((item) => selected.has(item.id)).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('workload.project')}</label>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+              <option value="">{t('workload.allProjects')}</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('workload.approvals.reviewComment')} ({t('workload.approvals.commentHint')})
+            </label>
+            <input
+              type="text"
+              value={comment}
+              maxLength={1000}
+              onChange={(e) => setComment(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center justify-end gap-2 mt-4">
+          <span className="text-sm text-gray-500 mr-auto">
+            {t('workload.approvals.selected', { count: selectedCount })}
+          </span>
+          <button
+            onClick={() => handleReview('Rejected')}
+            disabled={isReviewing || selectedCount === 0}
+            className="btn-secondary disabled:opacity-50"
+          >
+            {t('workload.approvals.reject')}
+          </button>
+          <button
+            onClick={() => handleReview('Approved')}
+            disabled={isReviewing || selectedCount === 0}
+            className="btn-primary disabled:opacity-50"
+          >
+            {t('workload.approvals.approve')}
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="card p-6 text-center text-gray-500">{t('common.loading')}</div>
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAll}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                  </th>
+                  {['date', 'employee', 'project', 'hours', 'description'].map((column) => (
+                    <th key={column} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      {t(`workload.approvals.columns.${column}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleItems.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                      {t('workload.approvals.empty')}
+                    </td>
+                  </tr>
+                ) : (
+                  visibleItems.map((item) => (
+                    <tr key={item.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(item.id)}
+                          onChange={() => toggle(item.id)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                        {new Date(item.workloadActual.date).toLocaleDateString()}
+                      </td>
+                      <td className="px-4 py-3 font-medium text-gray-900 whitespace-nowrap">
+                        {item.workloadActual.user.firstName} {item.workloadActual.user.lastName}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{item.project.name}</td>
+                      <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                        {item.hours}h
+                        <div className="text-xs text-gray-500">
+                          {t('workload.approvals.dayTotal', { hours: item.workloadActual.hoursWorked })}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {item.description || <span className="text-gray-400">—</span>}
+                        {item.workloadActual.userText && (
+                          <div className="text-xs text-gray-500 mt-1">{item.workloadActual.userText}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/services/auth.service';
+import { useAppSelector } from '@/store';
+import toast from 'react-hot-toast';
+import Pagination from '@/components/common/Pagination';
+import type { PaginatedResponse } from '@/types';
+
+const ITEMS_PER_PAGE = 20;
+
+type AbsenceType = 'Vacation' | 'SickLeave' | 'BusinessTrip' | 'DayOff';
+type AbsenceStatus = 'Pending' | 'Approved' | 'Rejected';
+
+const ABSENCE_TYPES: AbsenceType[] = ['Vacation', 'SickLeave', 'BusinessTrip', 'DayOff'];
+const ABSENCE_STATUSES: AbsenceStatus[] = ['Pending', 'Approved', 'Rejected'];
+
+interface Absence {
+  id: string;
+  type: AbsenceType;
+  status: AbsenceStatus;
+  startDate: string;
+  endDate: string;
+  comment: string | null;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  user: { id: string; firstName: string; lastName: string };
+  reviewedBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+interface Employee {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+interface AbsenceMutationResult extends Absence {
+  conflictingPlans: { id: string; date: string; project: { id: string; name: string } }[];
+}
+
+export default function AbsencesPage() {
+  const { t } = useTranslation();
+  const { user } = useAppSelector((state) => state.auth);
+  const isReviewer = user?.role === 'Admin' || user?.role === 'Manager';
+
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterStatus, setFilterStatus] = useState<string>('');
+  const [filterType, setFilterType] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // Request form
+  const [showModal, setShowModal] = useState(false);
+  const [formUserId, setFormUserId] = useState('');
+  const [formType, setFormType] = useState<AbsenceType>('Vacation');
+  const [formStartDate, setFormStartDate] = useState('');
+  const [formEndDate, setFormEndDate] = useState('');
+  const [formComment, setFormComment] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (isReviewer) fetchEmployees();
+  }, []);
+
+  useEffect(() => {
+    fetchAbsences();
+  }, [filterStatus, filterType, currentPage]);
+
+  const fetchEmployees = async () => {
+    try {
+      const response = await api.get<Employee[]>('/auth');
+      setEmployees(response.data.filter((u) => u.role === 'Employee' || u.role === 'Manager'));
+    } catch (error) {
+      console.error('Failed to fetch employees:', error);
+    }
+  };
+
+  const fetchAbsences = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+      if (filterStatus) params.append('status', filterStatus);
+      if (filterType) params.append('type', filterType);
+      if (search.trim()) params.append('search', search.trim());
+
+      const response = await api.get<PaginatedResponse<Absence>>(`/absence?${params}`);
+      setAbsences(response.data.data);
+      setTotalPages(response.data.totalPages);
+    } catch (error) {
+      console.error('Failed to fetch absences:', error);
+      toast.error(t('absences.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = () => {
+    if (currentPage === 1) {
+      fetchAbsences();
+    } else {
+      setCurrentPage(1);
+    }
+  };
+
+  const openModal = () => {
+    setFormUserId('');
+    setFormType('Vacation');
+    setFormStartDate('');
+    setFormEndDate('');
+    setFormComment('');
+    setShowModal(true);
+  };
+
+  // Approving an absence keeps existing plans, the manager is told which ones to move
+  const warnAboutPlans = (result: AbsenceMutationResult) => {
+    if (result.conflictingPlans.length > 0) {
+      toast(t('absences.conflictingPlans', { count: result.conflictingPlans.length }), { icon: '⚠️' });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!formStartDate || !formEndDate) {
+      toast.error(t('absences.datesRequired'));
+      return;
+    }
+    if (formEndDate < formStartDate) {
+      toast.error(t('absences.invalidPeriod'));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await api.post<AbsenceMutationResult>('/absence', {
+        userId: formUserId || undefined,
+        type: formType,
+        startDate: formStartDate,
+        endDate: formEndDate,
+        comment: formComment.trim() || undefined,
+      });
+      toast.success(
+        response.data.status === 'Approved' ? t('absences.recorded') : t('absences.requested'),
+      );
+      warnAboutPlans(response.data);
+      setShowModal(false);
+      fetchAbsences();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('absences.saveError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReview = async (absence: Absence, status: 'Approved' | 'Rejected') => {
+    setProcessingId(absence.id);
+    try {
+      const response = await api.patch<AbsenceMutationResult>(`/absence/${absence.id}/review`, { status });
+      toast.success(status === 'Approved' ? t('absences.approvedSuccess') : t('absences.rejectedSuccess'));
+      warnAboutPlans(response.data);
+      fetchAbsences();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('absences.saveError'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDelete = async (absence: Absence) => {
+    if (!confirm(t('absences.confirmDelete'))) return;
+
+    setProcessingId(absence.id);
+    try {
+      await api.delete(`/absence/${absence.id}`);
+      toast.success(t('absences.deleted'));
+      fetchAbsences();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('absences.saveError'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
+
+  const getDayCount = (absence: Absence) =>
+    Math.round((new Date(absence.endDate).getTime() - new Date(absence.startDate).getTime()) / 86400000) + 1;
+
+  const getStatusBadgeColor = (status: AbsenceStatus) => {
+    switch (status) {
+      case 'Approved':
+        return 'bg-green-100 text-green-800';
+      case 'Rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  // Managers' own requests are reviewed by someone else
+  const canReview = (absence: Absence) =>
+    isReviewer && absence.status === 'Pending' && (absence.user.id !== user?.id || user?.role === 'Admin');
+
+  const canDelete = (absence: Absence) =>
+    isReviewer || (absence.user.id === user?.id && absence.status === 'Pending');
+
+  const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+  const selectClass =
+    'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500';
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="flex items-start justify-between mb-6 gap-4">
+        <div>
+          <h1 className="page-title">{t('absences.title')}</h1>
+          <p className="text-sm text-gray-500 mt-1">{t('absences.description')}</p>
+        </div>
+        <button onClick={openModal} className="btn-primary whitespace-nowrap">
+          + {isReviewer ? t('absences.add') : t('absences.request')}
+        </button>
+      </div>
+
+      <div className="card">
+        <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row gap-3">
+          <select
+            value={filterStatus}
+            onChange={(e) => {
+              setFilterStatus(e.target.value);
+              setCurrentPage(1);
+            }}
+            className={selectClass}
+          >
+            <option value="">{t('absences.allStatuses')}</option>
+            {ABSENCE_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {t(`absences.statuses.${status}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filterType}
+            onChange={(e) => {
+              setFilterType(e.target.value);
+              setCurrentPage(1);
+            }}
+            className={selectClass}
+          >
+            <option value="">{t('absences.allTypes')}</option>
+            {ABSENCE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(`absences.types.${type}`)}
+              </option>
+            ))}
+          </select>
+          {isReviewer && (
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              placeholder={t('absences.searchPlaceholder')}
+              className={selectClass}
+            />
+          )}
+        </div>
+
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">{t('common.loading')}</div>
+        ) : absences.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('absences.empty')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {isReviewer && <th className={headerClass}>{t('absences.employee')}</th>}
+                  <th className={headerClass}>{t('absences.type')}</th>
+                  <th className={headerClass}>{t('absences.period')}</th>
+                  <th className={headerClass}>{t('absences.status')}</th>
+                  <th className={headerClass}>{t('absences.comment')}</th>
+                  <th className={headerClass}>{t('common.actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {absences.map((absence) => (
+                  <tr key={absence.id} className="hover:bg-gray-50">
+                    {isReviewer && (
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {absence.user.firstName} {absence.user.lastName}
+                      </td>
+                    )}
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {t(`absences.types.${absence.type}`)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(absence.startDate)} – {formatDate(absence.endDate)}
+                      <span className="ml-2 text-xs text-gray-400">
+                        {t('absences.days', { count: getDayCount(absence) })}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(absence.status)}`}
+                        title={
+                          absence.reviewedBy
+                            ? `${absence.reviewedBy.firstName} ${absence.reviewedBy.lastName}`
+                            : undefined
+                        }
+                      >
+                        {t(`absences.statuses.${absence.status}`)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 max-w-xs truncate" title={absence.comment || ''}>
+                      {absence.comment || '-'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm space-x-3">
+                      {canReview(absence) && (
+                        <>
+                          <button
+                            onClick={() => handleReview(absence, 'Approved')}
+                            disabled={processingId === absence.id}
+                            className="text-green-600 hover:text-green-800 font-medium disabled:opacity-50"
+                          >
+                            {t('absences.approve')}
+                          </button>
+                          <button
+                            onClick={() => handleReview(absence, 'Rejected')}
+                            disabled={processingId === absence.id}
+                            className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+                          >
+                            {t('absences.reject')}
+                          </button>
+                        </>
+                      )}
+                      {canDelete(absence) && (
+                        <button
+                          onClick={() => handleDelete(absence)}
+                          disabled={processingId === absence.id}
+                          className="text-gray-500 hover:text-gray-700 font-medium disabled:opacity-50"
+                        >
+                          {isReviewer ? t('common.delete') : t('absences.withdraw')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Pagination page={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+      </div>
+
+      {/* Request / record absence modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h2 className="text-lg font-semibold">{isReviewer ? t('absences.add') : t('absences.request')}</h2>
+              <button onClick={() => setShowModal(false)} className="text-gray-400 hover:text-gray-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              {isReviewer && (
+                <div>
+                  <label className="label">{t('absences.employee')}</label>
+                  <select value={formUserId} onChange={(e) => setFormUserId(e.target.value)} className="input">
+                    <option value="">{t('absences.myself')}</option>
+                    {employees
+                      .filter((employee) => employee.id !== user?.id)
+                      .map((employee) => (
+                        <option key={employee.id} value={employee.id}>
+                          {employee.firstName} {employee.lastName}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="label">{t('absences.type')} *</label>
+                <select
+                  value={formType}
+                  onChange={(e) => setFormType(e.target.value as AbsenceType)}
+                  className="input"
+                >
+                  {ABSENCE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(`absences.types.${type}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="label">{t('absences.startDate')} *</label>
+                  <input
+                    type="date"
+                    value={formStartDate}
+                    onChange={(e) => setFormStartDate(e.target.value)}
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="label">{t('absences.endDate')} *</label>
+                  <input
+                    type="date"
+                    value={formEndDate}
+                    min={formStartDate || undefined}
+                    onChange={(e) => setFormEndDate(e.target.value)}
+                    className="input"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="label">{t('absences.comment')}</label>
+                <textarea
+                  value={formComment}
+                  onChange={(e) => setFormComment(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  className="input"
+                />
+              </div>
+              {isReviewer && <p className="text-xs text-gray-500">{t('absences.autoApproved')}</p>}
+            </div>
+            <div className="flex justify-end gap-2 p-4 border-t">
+              <button onClick={() => setShowModal(false)} className="btn-secondary">
+                {t('common.cancel')}
+              </button>
+              <button onClick={handleSubmit} disabled={isSubmitting} className="btn-primary disabled:opacity-50">
+                {isSubmitting ? t('common.saving') : t('common.save')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
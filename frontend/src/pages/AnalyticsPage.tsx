@@ -1,7 +1,7 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAppSelector } from '@/store';
-import { api } from '@/services/auth.service';
+import { api, fetchAllPages } from '@/services/auth.service';
 import { jsPDF } from 'jspdf';
 import toast from 'react-hot-toast';
 
@@ -12,6 +12,7 @@ interface ProjectWorkloadData {
   customerName: string;
   managerName: string;
   totalPlannedDays: number;
+  totalPlannedHours: number;
   totalActualHours: number;
   employeeCount: number;
   progress: number;
@@ -26,13 +27,28 @@ interface EmployeeWorkHoursData {
   email: string;
   totalHoursWorked: number;
   expectedHours: number;
+  absenceDays: number;
   deviation: number;
   deviationPercentage: number;
 }
 
+interface ProjectWorkloadDelta {
+  id: string;
+  name: string;
+  totalActualHours: number;
+  totalActualHoursPercentage: number | null;
+  totalPlannedDays: number;
+  totalPlannedHours: number;
+  employeeCount: number;
+  progress: number;
+}
+
 interface ProjectsWorkloadResponse {
+  date: string;
+  compareDate: string | null;
   projects: ProjectWorkloadData[];
   comparison?: ProjectWorkloadData[] | null;
+  deltas?: ProjectWorkloadDelta[] | null;
   summary: {
     totalProjects: number;
     activeProjects: number;
@@ -57,6 +73,98 @@ interface EmployeeWorkHoursResponse {
   };
 }
 
+interface CashFlowMonth {
+  month: string;
+  expected: number;
+  actual: number;
+  expectedPaid: number;
+}
+
+interface OverduePayment {
+  id: string;
+  name: string;
+  type: string;
+  amount: number;
+  expectedDate: string;
+  daysOverdue: number;
+  projectId: string;
+  projectName: string;
+  customerId: string | null;
+  customerName: string;
+}
+
+interface CustomerCashFlow {
+  customerId: string | null;
+  customerName: string;
+  expected: number;
+  received: number;
+  outstanding: number;
+  overdue: number;
+  paymentsCount: number;
+}
+
+interface CashFlowResponse {
+  period: {
+    startDate: string;
+    endDate: string;
+  };
+  monthly: CashFlowMonth[];
+  overdue: OverduePayment[];
+  byCustomer: CustomerCashFlow[];
+  summary: {
+    totalExpected: number;
+    totalReceived: number;
+    totalOverdue: number;
+    overdueCount: number;
+  };
+}
+
+interface ProjectProfitability {
+  id: string;
+  name: string;
+  status: string;
+  customerName: string;
+  cost: number | null;
+  hours: number;
+  laborCost: number;
+  received: number;
+  margin: number | null;
+  marginPercentage: number | null;
+  unratedHours: number;
+}
+
+interface ProfitabilityResponse {
+  projects: ProjectProfitability[];
+  summary: {
+    totalCost: number;
+    totalLaborCost: number;
+    totalReceived: number;
+    totalMargin: number;
+  };
+}
+
+interface ProjectProfitabilityDetails {
+  summary: ProjectProfitability;
+  monthly: {
+    month: string;
+    hours: number;
+    laborCost: number;
+    received: number;
+    cumulativeLaborCost: number;
+    cumulativeReceived: number;
+    margin: number | null;
+    cashMargin: number;
+  }[];
+  employees: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    hours: number;
+    averageHourlyRate: number | null;
+    laborCost: number;
+  }[];
+}
+
 interface EmployeeWorkloadReport {
   id: string;
   date: string;
@@ -78,9 +186,17 @@ export default function AnalyticsPage() {
   const { user } = useAppSelector((state) => state.auth);
   const [projectsData, setProjectsData] = useState<ProjectsWorkloadResponse | null>(null);
   const [employeesData, setEmployeesData] = useState<EmployeeWorkHoursResponse | null>(null);
+  const [cashFlowData, setCashFlowData] = useState<CashFlowResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'projects' | 'employees'>('projects');
+  const [activeTab, setActiveTab] = useState<'projects' | 'employees' | 'cashFlow' | 'profitability'>('projects');
+
+  // Profitability is Admin-only and loaded on demand
+  const isAdmin = user?.role === 'Admin';
+  const [profitabilityData, setProfitabilityData] = useState<ProfitabilityResponse | null>(null);
+  const [loadingProfitability, setLoadingProfitability] = useState(false);
+  const [selectedProfitability, setSelectedProfitability] = useState<ProjectProfitabilityDetails | null>(null);
+  const [loadingProfitabilityDetails, setLoadingProfitabilityDetails] = useState(false);
 
   // Employee reports modal state
   const [showEmployeeReportsModal, setShowEmployeeReportsModal] = useState(false);
@@ -106,6 +222,10 @@ export default function AnalyticsPage() {
   const [showComparison, setShowComparison] = useState(() =>
     sessionStorage.getItem('analytics_showComparison') === 'true'
   );
+  // Count only hours approved by the project managers
+  const [approvedOnly, setApprovedOnly] = useState(() =>
+    sessionStorage.getItem('analytics_approvedOnly') === 'true'
+  );
 
   // Persist dates to sessionStorage when they change
   useEffect(() => {
@@ -124,6 +244,12 @@ export default function AnalyticsPage() {
     sessionStorage.setItem('analytics_showComparison', String(showComparison));
   }, [showComparison]);
 
+  useEffect(() => {
+    sessionStorage.setItem('analytics_approvedOnly', String(approvedOnly));
+    setProfitabilityData(null);
+    setSelectedProfitability(null);
+  }, [approvedOnly]);
+
   // Temporary state for date inputs (only applied when user clicks "Apply")
   const [tempStartDate, setTempStartDate] = useState<string>(() =>
     sessionStorage.getItem('analytics_startDate') || defaultStartDate
@@ -171,15 +297,26 @@ export default function AnalyticsPage() {
       if (endDate) params.append('endDate', endDate);
       if (compareDate && showComparison) params.append('compareDate', compareDate);
 
+      // Comparison is a snapshot as of the period end vs. a snapshot as of the compare date
       const projectParams = new URLSearchParams();
-      if (compareDate && showComparison) projectParams.append('compareDate', compareDate);
+      if (compareDate && showComparison) {
+        if (endDate) projectParams.append('date', endDate);
+        projectParams.append('compareDate', compareDate);
+      }
+      const hoursParams = new URLSearchParams(params);
+      if (approvedOnly) {
+        projectParams.append('approvedOnly', 'true');
+        hoursParams.append('approvedOnly', 'true');
+      }
 
-      const [projectsRes, employeesRes] = await Promise.all([
+      const [projectsRes, employeesRes, cashFlowRes] = await Promise.all([
         api.get<ProjectsWorkloadResponse>(`/analytics/projects-workload${projectParams.toString() ? '?' + projectParams.toString() : ''}`),
-        api.get<EmployeeWorkHoursResponse>(`/analytics/employee-work-hours?${params.toString()}`),
+        api.get<EmployeeWorkHoursResponse>(`/analytics/employee-work-hours?${hoursParams.toString()}`),
+        api.get<CashFlowResponse>(`/analytics/cash-flow?${params.toString()}`),
       ]);
       setProjectsData(projectsRes.data);
       setEmployeesData(employeesRes.data);
+      setCashFlowData(cashFlowRes.data);
       setError(null);
     } catch (err) {
       console.error('Failed to fetch analytics:', err);
@@ -187,12 +324,50 @@ export default function AnalyticsPage() {
     } finally {
       setLoading(false);
     }
-  }, [startDate, endDate, compareDate, showComparison]);
+  }, [startDate, endDate, compareDate, showComparison, approvedOnly]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    const fetchProfitability = async () => {
+      if (activeTab !== 'profitability' || !isAdmin || profitabilityData) return;
+      setLoadingProfitability(true);
+      try {
+        const response = await api.get<ProfitabilityResponse>(
+          `/analytics/profitability${approvedOnly ? '?approvedOnly=true' : ''}`,
+        );
+        setProfitabilityData(response.data);
+      } catch (err) {
+        console.error('Failed to fetch profitability:', err);
+        toast.error(t('analytics.loadError'));
+      } finally {
+        setLoadingProfitability(false);
+      }
+    };
+    fetchProfitability();
+  }, [activeTab, isAdmin, profitabilityData]);
+
+  const openProjectProfitability = async (projectId: string) => {
+    if (selectedProfitability?.summary.id === projectId) {
+      setSelectedProfitability(null);
+      return;
+    }
+    setLoadingProfitabilityDetails(true);
+    try {
+      const response = await api.get<ProjectProfitabilityDetails>(
+        `/analytics/profitability/${projectId}${approvedOnly ? '?approvedOnly=true' : ''}`,
+      );
+      setSelectedProfitability(response.data);
+    } catch (err) {
+      console.error('Failed to fetch project profitability:', err);
+      toast.error(t('analytics.loadError'));
+    } finally {
+      setLoadingProfitabilityDetails(false);
+    }
+  };
+
   // Fetch employee workload reports for the selected period
   const fetchEmployeeReports = async (employee: EmployeeWorkHoursData) => {
     setSelectedEmployee(employee);
@@ -201,10 +376,12 @@ export default function AnalyticsPage() {
     setEmployeeReports([]);
 
     try {
-      const response = await api.get<EmployeeWorkloadReport[]>(
-        `/workload-actual?userId=${employee.id}&startDate=${startDate}&endDate=${endDate}`
-      );
-      setEmployeeReports(response.data);
+      const reports = await fetchAllPages<EmployeeWorkloadReport>('/workload-actual', {
+        userId: employee.id,
+        startDate,
+        endDate,
+      });
+      setEmployeeReports(reports);
     } catch (err) {
       console.error('Failed to fetch employee reports:', err);
       toast.error(t('analytics.loadReportsError'));
@@ -213,6 +390,17 @@ export default function AnalyticsPage() {
     }
   };
 
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('ru-RU', {
+      style: 'currency',
+      currency: 'RUB',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+
+  // Scale for the cash-flow bar chart
+  const cashFlowMax = Math.max(1, ...(cashFlowData?.monthly.flatMap((m) => [m.expected, m.actual]) ?? []));
+
   const closeEmployeeReportsModal = () => {
     setShowEmployeeReportsModal(false);
     setSelectedEmployee(null);
@@ -415,6 +603,16 @@ export default function AnalyticsPage() {
             />
             <label htmlFor="showComparison" className="text-sm text-gray-700">{t('analytics.compareWith')}</label>
           </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="approvedOnly"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+              className="h-4 w-4 text-blue-600 rounded border-gray-300"
+            />
+            <label htmlFor="approvedOnly" className="text-sm text-gray-700">{t('analytics.approvedOnly')}</label>
+          </div>
           {showComparison && (
             <div className="flex-1 min-w-0">
               <label className="block text-sm font-medium text-gray-700 mb-1">{t('analytics.compareDate')}</label>
@@ -494,6 +692,28 @@ export default function AnalyticsPage() {
         >
           {t('analytics.employeeHours')}
         </button>
+        <button
+          className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
+            activeTab === 'cashFlow'
+              ? 'border-blue-600 text-blue-600'
+              : 'border-transparent text-gray-500 hover:text-gray-700'
+          }`}
+          onClick={() => setActiveTab('cashFlow')}
+        >
+          {t('analytics.cashFlow')}
+        </button>
+        {isAdmin && (
+          <button
+            className={`px-4 py-2 font-medium text-sm border-b-2 transition-colors ${
+              activeTab === 'profitability'
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+            onClick={() => setActiveTab('profitability')}
+          >
+            {t('analytics.profitability')}
+          </button>
+        )}
       </div>
 
       {/* Projects Workload Tab */}
@@ -504,7 +724,7 @@ export default function AnalyticsPage() {
             <div className="card">
               <div className="p-4 border-b border-gray-200">
                 <h2 className="text-lg font-semibold">{t('analytics.periodComparison')}</h2>
-                <p className="text-sm text-gray-500 mt-1">{t('analytics.comparingWith', { date: compareDate })}</p>
+                <p className="text-sm text-gray-500 mt-1">{t('analytics.comparingSnapshots', { date: endDate, compareDate })}</p>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full">
@@ -514,16 +734,19 @@ export default function AnalyticsPage() {
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.currentHours')}</th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.previousHours')}</th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.change')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.plannedDaysChange')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.membersChange')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.progressChange')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {filteredProjects.map((project, idx) => {
-                      const prev = projectsData.comparison?.[idx];
-                      const change = prev ? project.totalActualHours - prev.totalActualHours : 0;
-                      const changeRounded = Math.round(change * 10) / 10;
-                      const changePercent = prev && prev.totalActualHours > 0
-                        ? Math.round((change / prev.totalActualHours) * 100)
-                        : 0;
+                    {filteredProjects.map((project) => {
+                      const prev = projectsData.comparison?.find((p) => p.id === project.id);
+                      const delta = projectsData.deltas?.find((d) => d.id === project.id);
+                      const changeRounded = delta?.totalActualHours ?? 0;
+                      const changePercent = delta?.totalActualHoursPercentage ?? 0;
+                      const formatDelta = (value: number, suffix = '') =>
+                        `${value > 0 ? '+' : ''}${value}${suffix}`;
                       return (
                         <tr key={project.id} className="hover:bg-gray-50">
                           <td className="px-4 py-3 font-medium text-gray-900">{project.name}</td>
@@ -538,6 +761,18 @@ export default function AnalyticsPage() {
                               {changeRounded > 0 ? '+' : ''}{changeRounded}h ({changePercent}%)
                             </span>
                           </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {prev?.totalPlannedDays ?? 0} → {project.totalPlannedDays} ({formatDelta(delta?.totalPlannedDays ?? 0)})
+                            <div className="text-xs text-gray-400">
+                              {prev?.totalPlannedHours ?? 0}h → {project.totalPlannedHours}h ({formatDelta(delta?.totalPlannedHours ?? 0, 'h')})
+                            </div>
+                          </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {prev?.employeeCount ?? 0} → {project.employeeCount} ({formatDelta(delta?.employeeCount ?? 0)})
+                          </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            {prev?.progress ?? 0}% → {project.progress}% ({formatDelta(delta?.progress ?? 0, '%')})
+                          </td>
                         </tr>
                       );
                     })}
@@ -609,6 +844,9 @@ export default function AnalyticsPage() {
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                       {t('analytics.members')}
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      {t('analytics.plannedHours')}
+                    </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                       {t('analytics.hours')}
                     </th>
@@ -641,6 +879,7 @@ export default function AnalyticsPage() {
                           <span>{project.employeeCount}</span>
                         </div>
                       </td>
+                      <td className="px-4 py-3 text-gray-600">{project.totalPlannedHours}h</td>
                       <td className="px-4 py-3 text-gray-600">{project.totalActualHours}h</td>
                     </tr>
                   ))}
@@ -659,6 +898,309 @@ export default function AnalyticsPage() {
         </div>
       )}
 
+      {/* Cash Flow Tab */}
+      {activeTab === 'cashFlow' && cashFlowData && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="card p-4">
+              <div className="text-sm text-gray-500 mb-1">{t('analytics.expectedIncome')}</div>
+              <div className="text-2xl font-bold text-gray-900">{formatCurrency(cashFlowData.summary.totalExpected)}</div>
+            </div>
+            <div className="card p-4">
+              <div className="text-sm text-gray-500 mb-1">{t('analytics.receivedIncome')}</div>
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(cashFlowData.summary.totalReceived)}</div>
+            </div>
+            <div className="card p-4">
+              <div className="text-sm text-gray-500 mb-1">{t('analytics.overdueReceivables')}</div>
+              <div className="text-2xl font-bold text-red-600">{formatCurrency(cashFlowData.summary.totalOverdue)}</div>
+              <div className="text-xs text-gray-500 mt-1">
+                {t('analytics.overdueCount', { count: cashFlowData.summary.overdueCount })}
+              </div>
+            </div>
+          </div>
+
+          {/* Expected vs actual per month */}
+          <div className="card">
+            <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold">{t('analytics.cashFlowByMonth')}</h2>
+              <div className="flex items-center gap-4 text-sm text-gray-600">
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm bg-blue-300"></span>
+                  {t('analytics.expectedIncome')}
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm bg-green-500"></span>
+                  {t('analytics.receivedIncome')}
+                </span>
+              </div>
+            </div>
+            {cashFlowData.monthly.some((m) => m.expected > 0 || m.actual > 0) ? (
+              <div className="p-4 overflow-x-auto">
+                <div className="flex items-end gap-4 h-64 min-w-max">
+                  {cashFlowData.monthly.map((month) => (
+                    <div key={month.month} className="flex flex-col items-center h-full">
+                      <div className="flex items-end gap-1 flex-1">
+                        <div
+                          className="w-6 bg-blue-300 rounded-t"
+                          style={{ height: `${(month.expected / cashFlowMax) * 100}%` }}
+                          title={`${t('analytics.expectedIncome')}: ${formatCurrency(month.expected)}`}
+                        ></div>
+                        <div
+                          className="w-6 bg-green-500 rounded-t"
+                          style={{ height: `${(month.actual / cashFlowMax) * 100}%` }}
+                          title={`${t('analytics.receivedIncome')}: ${formatCurrency(month.actual)}`}
+                        ></div>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-2">{month.month}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="p-6 text-center text-gray-500">{t('analytics.noPaymentsForPeriod')}</div>
+            )}
+          </div>
+
+          {/* Overdue receivables */}
+          <div className="card">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold">{t('analytics.overdueReceivables')}</h2>
+            </div>
+            {cashFlowData.overdue.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.project')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.customer')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.payment')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.expectedDate')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.daysOverdue')}</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.amount')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {cashFlowData.overdue.map((payment) => (
+                      <tr key={payment.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 font-medium text-gray-900">{payment.projectName}</td>
+                        <td className="px-4 py-3 text-gray-600">{payment.customerName}</td>
+                        <td className="px-4 py-3 text-gray-600">{payment.name}</td>
+                        <td className="px-4 py-3 text-gray-600">{new Date(payment.expectedDate).toLocaleDateString()}</td>
+                        <td className="px-4 py-3">
+                          <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                            {payment.daysOverdue}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-right font-medium text-gray-900">{formatCurrency(payment.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="p-6 text-center text-gray-500">{t('analytics.noOverduePayments')}</div>
+            )}
+          </div>
+
+          {/* Totals per customer */}
+          <div className="card">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold">{t('analytics.cashFlowByCustomer')}</h2>
+            </div>
+            {cashFlowData.byCustomer.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.customer')}</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.expectedIncome')}</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.receivedIncome')}</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.outstanding')}</th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.overdue')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {cashFlowData.byCustomer.map((customer) => (
+                      <tr key={customer.customerId || 'none'} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 font-medium text-gray-900">{customer.customerName}</td>
+                        <td className="px-4 py-3 text-right text-gray-600">{formatCurrency(customer.expected)}</td>
+                        <td className="px-4 py-3 text-right text-green-600">{formatCurrency(customer.received)}</td>
+                        <td className="px-4 py-3 text-right text-gray-600">{formatCurrency(customer.outstanding)}</td>
+                        <td className={`px-4 py-3 text-right ${customer.overdue > 0 ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                          {formatCurrency(customer.overdue)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="p-6 text-center text-gray-500">{t('analytics.noPaymentsForPeriod')}</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Profitability Tab (Admin only) */}
+      {activeTab === 'profitability' && isAdmin && (
+        <div className="space-y-6">
+          {loadingProfitability || !profitabilityData ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="card p-4">
+                  <div className="text-sm text-gray-500 mb-1">{t('analytics.contractValue')}</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatCurrency(profitabilityData.summary.totalCost)}</div>
+                </div>
+                <div className="card p-4">
+                  <div className="text-sm text-gray-500 mb-1">{t('analytics.laborCost')}</div>
+                  <div className="text-2xl font-bold text-orange-600">{formatCurrency(profitabilityData.summary.totalLaborCost)}</div>
+                </div>
+                <div className="card p-4">
+                  <div className="text-sm text-gray-500 mb-1">{t('analytics.receivedIncome')}</div>
+                  <div className="text-2xl font-bold text-green-600">{formatCurrency(profitabilityData.summary.totalReceived)}</div>
+                </div>
+                <div className="card p-4">
+                  <div className="text-sm text-gray-500 mb-1">{t('analytics.margin')}</div>
+                  <div className={`text-2xl font-bold ${profitabilityData.summary.totalMargin < 0 ? 'text-red-600' : 'text-blue-600'}`}>
+                    {formatCurrency(profitabilityData.summary.totalMargin)}
+                  </div>
+                </div>
+              </div>
+
+              <div className="card">
+                <div className="p-4 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold">{t('analytics.projectProfitability')}</h2>
+                  <p className="text-sm text-gray-500 mt-1">{t('analytics.laborCostHint')}</p>
+                </div>
+                {profitabilityData.projects.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.project')}</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.customer')}</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.contractValue')}</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.hours')}</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.laborCost')}</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.receivedIncome')}</th>
+                          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.margin')}</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {profitabilityData.projects.map((project) => (
+                          <tr
+                            key={project.id}
+                            onClick={() => openProjectProfitability(project.id)}
+                            className={`cursor-pointer hover:bg-gray-50 ${selectedProfitability?.summary.id === project.id ? 'bg-blue-50' : ''}`}
+                          >
+                            <td className="px-4 py-3 font-medium text-gray-900">{project.name}</td>
+                            <td className="px-4 py-3 text-gray-600">{project.customerName}</td>
+                            <td className="px-4 py-3 text-right text-gray-600">
+                              {project.cost !== null ? formatCurrency(project.cost) : '—'}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-600">
+                              {project.hours}h
+                              {project.unratedHours > 0 && (
+                                <span className="ml-1 text-xs text-yellow-600" title={t('analytics.unratedHoursHint')}>
+                                  ({t('analytics.unratedHours', { hours: project.unratedHours })})
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right text-gray-600">{formatCurrency(project.laborCost)}</td>
+                            <td className="px-4 py-3 text-right text-green-600">{formatCurrency(project.received)}</td>
+                            <td className={`px-4 py-3 text-right font-medium ${project.margin !== null && project.margin < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                              {project.margin !== null
+                                ? `${formatCurrency(project.margin)} (${project.marginPercentage}%)`
+                                : '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <div className="p-6 text-center text-gray-500">{t('analytics.noProjectData')}</div>
+                )}
+              </div>
+
+              {loadingProfitabilityDetails && (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              )}
+
+              {/* Margin over time for the selected project */}
+              {selectedProfitability && !loadingProfitabilityDetails && (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  <div className="card lg:col-span-2">
+                    <div className="p-4 border-b border-gray-200">
+                      <h2 className="text-lg font-semibold">
+                        {t('analytics.marginOverTime')}: {selectedProfitability.summary.name}
+                      </h2>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('analytics.month')}</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.hours')}</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.laborCost')}</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.receivedIncome')}</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.margin')}</th>
+                            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">{t('analytics.cashMargin')}</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {selectedProfitability.monthly.map((month) => (
+                            <tr key={month.month}>
+                              <td className="px-4 py-3 text-gray-900">{month.month}</td>
+                              <td className="px-4 py-3 text-right text-gray-600">{month.hours}h</td>
+                              <td className="px-4 py-3 text-right text-gray-600">{formatCurrency(month.laborCost)}</td>
+                              <td className="px-4 py-3 text-right text-green-600">{formatCurrency(month.received)}</td>
+                              <td className={`px-4 py-3 text-right ${month.margin !== null && month.margin < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                {month.margin !== null ? formatCurrency(month.margin) : '—'}
+                              </td>
+                              <td className={`px-4 py-3 text-right ${month.cashMargin < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                                {formatCurrency(month.cashMargin)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {selectedProfitability.monthly.length === 0 && (
+                        <div className="p-6 text-center text-gray-500">{t('analytics.noDataForPeriod')}</div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="card">
+                    <div className="p-4 border-b border-gray-200">
+                      <h2 className="text-lg font-semibold">{t('analytics.laborCostByEmployee')}</h2>
+                    </div>
+                    <ul className="divide-y divide-gray-200">
+                      {selectedProfitability.employees.map((employee) => (
+                        <li key={employee.id} className="px-4 py-3 flex justify-between gap-4">
+                          <div>
+                            <div className="font-medium text-gray-900">{employee.firstName} {employee.lastName}</div>
+                            <div className="text-xs text-gray-500">
+                              {employee.hours}h × {employee.averageHourlyRate !== null ? formatCurrency(employee.averageHourlyRate) : t('analytics.noSalary')}
+                            </div>
+                          </div>
+                          <div className="text-gray-900 font-medium">{formatCurrency(employee.laborCost)}</div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Employee Hours Tab */}
       {activeTab === 'employees' && (
         <div className="card">
@@ -736,7 +1278,14 @@ export default function AnalyticsPage() {
                       </td>
                       <td className="px-4 py-3 text-gray-600">{employee.email}</td>
                       <td className="px-4 py-3 text-gray-600">{employee.totalHoursWorked}h</td>
-                      <td className="px-4 py-3 text-gray-600">{employee.expectedHours}h</td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {employee.expectedHours}h
+                        {employee.absenceDays > 0 && (
+                          <span className="ml-1 text-xs text-amber-600" title={t('analytics.absenceDaysHint')}>
+                            ({t('analytics.absenceDays', { count: employee.absenceDays })})
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-3">
                         <span
                           className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
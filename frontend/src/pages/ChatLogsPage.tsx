@@ -3,6 +3,10 @@ import { useTranslation } from 'react-i18next';
 import { useAppSelector } from '@/store';
 import { api } from '@/services/auth.service';
 import toast from 'react-hot-toast';
+import Pagination from '@/components/common/Pagination';
+import type { PaginatedResponse } from '@/types';
+
+const ITEMS_PER_PAGE = 50;
 
 interface User {
   id: string;
@@ -30,32 +34,34 @@ export default function ChatLogsPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [filterUserId, setFilterUserId] = useState<string>('');
   const [filterRequestType, setFilterRequestType] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [totalLogs, setTotalLogs] = useState(0);
 
   useEffect(() => {
-    fetchLogs();
     fetchUsers();
-  }, [filterUserId, filterRequestType]);
+  }, []);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [filterUserId, filterRequestType, currentPage]);
 
   const fetchLogs = async () => {
     try {
       setLoading(true);
-      let url = '/lenconnect-chat-logs';
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+      if (filterUserId) params.append('userId', filterUserId);
+      if (filterRequestType) params.append('requestType', filterRequestType);
+      if (search.trim()) params.append('search', search.trim());
 
-      if (filterUserId && filterRequestType) {
-        url = `/lenconnect-chat-logs/user/${filterUserId}/${filterRequestType}`;
-      } else if (filterUserId) {
-        url = `/lenconnect-chat-logs/user/${filterUserId}`;
-      }
-
-      const response = await api.get(url);
-      let filteredLogs = response.data;
-
-      // Apply request type filter client-side if only request type is selected (no user filter)
-      if (filterRequestType && !filterUserId) {
-        filteredLogs = filteredLogs.filter((log: ChatLog) => log.requestType === filterRequestType);
-      }
-
-      setLogs(filteredLogs);
+      const response = await api.get<PaginatedResponse<ChatLog>>(`/lenconnect-chat-logs?${params}`);
+      setLogs(response.data.data);
+      setTotalPages(response.data.totalPages);
+      setTotalLogs(response.data.total);
     } catch (error) {
       console.error('Failed to fetch chat logs:', error);
       toast.error(t('chatLogs.loadFailed'));
@@ -73,6 +79,20 @@ export default function ChatLogsPage() {
     }
   };
 
+  // Filters and search start again from the first page
+  const handleFilterChange = (setter: (value: string) => void, value: string) => {
+    setter(value);
+    setCurrentPage(1);
+  };
+
+  const handleSearch = () => {
+    if (currentPage === 1) {
+      fetchLogs();
+    } else {
+      setCurrentPage(1);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -103,18 +123,21 @@ export default function ChatLogsPage() {
     <div className="p-4 md:p-6">
       <div className="flex items-center justify-between mb-6">
         <h1 className="page-title">{t('chatLogs.title')}</h1>
+        {!loading && (
+          <span className="text-sm text-gray-500">{t('chatLogs.totalLogs', { count: totalLogs })}</span>
+        )}
       </div>
 
       {/* Filters */}
       <div className="card p-4 mb-6">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               {t('chatLogs.filterByUser')}
             </label>
             <select
               value={filterUserId}
-              onChange={(e) => setFilterUserId(e.target.value)}
+              onChange={(e) => handleFilterChange(setFilterUserId, e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="">{t('chatLogs.allUsers')}</option>
@@ -131,7 +154,7 @@ export default function ChatLogsPage() {
             </label>
             <select
               value={filterRequestType}
-              onChange={(e) => setFilterRequestType(e.target.value)}
+              onChange={(e) => handleFilterChange(setFilterRequestType, e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
             >
               <option value="">{t('chatLogs.allTypes')}</option>
@@ -139,6 +162,19 @@ export default function ChatLogsPage() {
               <option value="Proposal">{t('chatLogs.proposal')}</option>
             </select>
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('common.search')}
+            </label>
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              placeholder={t('chatLogs.searchPlaceholder')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
         </div>
       </div>
 
@@ -211,6 +247,7 @@ export default function ChatLogsPage() {
             </table>
           </div>
         )}
+        <Pagination page={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
       </div>
 
       {/* Log Detail Modal */}
@@ -1,8 +1,10 @@
-import { useEffect, useState, useMemo } from 'react';
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAppSelector } from '@/store';
 import { api } from '@/services/auth.service';
 import toast from 'react-hot-toast';
+import Pagination from '@/components/common/Pagination';
+import type { PaginatedResponse } from '@/types';
 
 interface Company {
   id: string;
@@ -16,6 +18,8 @@ interface Company {
   createdAt: string;
 }
 
+const ITEMS_PER_PAGE = 20;
+
 interface NewCompanyForm {
   name: string;
   type: 'Customer' | 'Contractor';
@@ -31,6 +35,8 @@ export default function CompaniesPage() {
   const { user } = useAppSelector((state) => state.auth);
   const isAdmin = user?.role === 'Admin';
   const [companies, setCompanies] = useState<Company[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
   const [loading, setLoading] = useState(true);
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
@@ -57,27 +63,32 @@ export default function CompaniesPage() {
     postalCode: '',
   });
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
 
+  // Wait until the user stops typing before searching on the server
   useEffect(() => {
-    fetchCompanies();
-  }, []);
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery.trim());
+      setCurrentPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
-  // Filter companies based on search query
-  const filteredCompanies = useMemo(() => {
-    if (!searchQuery.trim()) return companies;
-    const query = searchQuery.toLowerCase();
-    return companies.filter(
-      (company) =>
-        company.name.toLowerCase().includes(query) ||
-        company.email?.toLowerCase().includes(query) ||
-        company.contactPerson?.toLowerCase().includes(query)
-    );
-  }, [companies, searchQuery]);
+  useEffect(() => {
+    fetchCompanies();
+  }, [currentPage, debouncedSearch]);
 
   const fetchCompanies = async () => {
     try {
-      const response = await api.get<Company[]>('/company');
-      setCompanies(response.data);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+      if (debouncedSearch) params.append('search', debouncedSearch);
+
+      const response = await api.get<PaginatedResponse<Company>>(`/company?${params}`);
+      setCompanies(response.data.data);
+      setTotalPages(response.data.totalPages);
     } catch (error) {
       toast.error(t('companies.loadError'));
     } finally {
@@ -250,7 +261,7 @@ export default function CompaniesPage() {
           <div className="p-6 text-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
           </div>
-        ) : filteredCompanies.length === 0 ? (
+        ) : companies.length === 0 ? (
           <p className="text-gray-500 text-center py-12">
             {searchQuery ? t('companies.noSearchResults') : t('companies.noCompanies')}
           </p>
@@ -267,7 +278,7 @@ export default function CompaniesPage() {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {filteredCompanies.map((company) => (
+                {companies.map((company) => (
                   <tr
                     key={company.id}
                     onClick={() => handleRowClick(company)}
@@ -290,6 +301,7 @@ export default function CompaniesPage() {
             </table>
           </div>
         )}
+        <Pagination page={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
       </div>
 
       {/* Company Detail Modal */}
@@ -564,7 +576,7 @@ export default function CompaniesPage() {
                 {t('companies.confirmDelete', { name: selectedCompany.name })}
               </p>
               <p className="text-gray-500 text-sm mt-2">
-                {t('common.actionCannotBeUndone')}
+                {t('companies.deleteTrashNotice')}
               </p>
             </div>
             <div className="flex justify-end gap-2 p-4 border-t">
@@ -47,6 +47,7 @@ export default function EmployeesPage() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSendingReset, setIsSendingReset] = useState(false);
   const [newEmployee, setNewEmployee] = useState<NewEmployeeForm>({
     firstName: '',
     lastName: '',
@@ -106,6 +107,21 @@ export default function EmployeesPage() {
     }
   };
 
+  const handleSendPasswordReset = async () => {
+    if (!selectedEmployee) return;
+    if (!confirm(t('employees.passwordResetConfirm', { email: selectedEmployee.email }))) return;
+
+    setIsSendingReset(true);
+    try {
+      await api.post(`/auth/${selectedEmployee.id}/password-reset`);
+      toast.success(t('employees.passwordResetSent', { email: selectedEmployee.email }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('employees.passwordResetFailed'));
+    } finally {
+      setIsSendingReset(false);
+    }
+  };
+
   const handleOpenAddModal = () => {
     setNewEmployee({
       firstName: '',
@@ -431,6 +447,15 @@ export default function EmployeesPage() {
               </dl>
             </div>
             <div className="flex justify-end gap-2 p-4 border-t">
+              {isAdmin && (
+                <button
+                  onClick={handleSendPasswordReset}
+                  disabled={isSendingReset}
+                  className="mr-auto px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                >
+                  {isSendingReset ? t('employees.sendingPasswordReset') : t('employees.sendPasswordReset')}
+                </button>
+              )}
               {isAdmin && (
                 <button onClick={handleOpenEditModal} className="btn-primary">
                   {t('common.edit')}
@@ -23,6 +23,9 @@ export default function LoginPage() {
   const [searchParams] = useSearchParams();
   const dispatch = useAppDispatch();
   const [isLoading, setIsLoading] = useState(false);
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [resetEmail, setResetEmail] = useState('');
+  const [isSendingReset, setIsSendingReset] = useState(false);
 
   const {
     register,
@@ -47,13 +50,33 @@ export default function LoginPage() {
       // Navigate to redirect URL or default to /projects
       const redirectUrl = searchParams.get('redirect');
       navigate(redirectUrl ? decodeURIComponent(redirectUrl) : '/projects');
-    } catch (error) {
-      toast.error(t('auth.invalidCredentials'));
+    } catch (error: any) {
+      // 429 means the account is locked or the address is throttled
+      toast.error(
+        error.response?.status === 429 ? t('auth.tooManyAttempts') : t('auth.invalidCredentials')
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetEmail.trim()) return;
+
+    setIsSendingReset(true);
+    try {
+      await authService.forgotPassword(resetEmail.trim());
+      toast.success(t('auth.resetLinkSent'));
+      setShowForgotPassword(false);
+      setResetEmail('');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('auth.resetRequestFailed'));
+    } finally {
+      setIsSendingReset(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-600 to-primary-800 px-4">
       <div className="w-full max-w-md">
@@ -132,6 +155,43 @@ export default function LoginPage() {
               )}
             </button>
           </form>
+
+          {/* Forgot password */}
+          <div className="mt-6 text-center">
+            {!showForgotPassword ? (
+              <button
+                type="button"
+                onClick={() => setShowForgotPassword(true)}
+                className="text-sm text-primary-600 hover:text-primary-800"
+              >
+                {t('auth.forgotPassword')}
+              </button>
+            ) : (
+              <form onSubmit={handleForgotPassword} className="space-y-3 text-left">
+                <p className="text-sm text-gray-600">{t('auth.forgotPasswordHint')}</p>
+                <input
+                  type="email"
+                  value={resetEmail}
+                  onChange={(e) => setResetEmail(e.target.value)}
+                  className="input"
+                  placeholder="your@email.com"
+                  required
+                />
+                <div className="flex gap-2">
+                  <button type="submit" disabled={isSendingReset} className="btn-primary flex-1">
+                    {isSendingReset ? t('common.loading') : t('auth.sendResetLink')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowForgotPassword(false)}
+                    className="btn-secondary"
+                  >
+                    {t('common.cancel')}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/services/auth.service';
+import toast from 'react-hot-toast';
+
+interface Person {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface Period {
+  year: number;
+  month: number;
+  closed: boolean;
+  closedAt: string | null;
+  closedBy: Person | null;
+  reopenedAt: string | null;
+  reopenedBy: Person | null;
+  reopenReason: string | null;
+}
+
+interface ClosedMonth {
+  month: string; // YYYY-MM
+  status: 'Closed' | 'Reopened';
+  closedAt: string;
+  hoursWorked: number;
+  approvedHours: number;
+  plannedHours: number;
+  pendingReview: number;
+}
+
+export default function PeriodClosePage() {
+  const { t, i18n } = useTranslation();
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [periods, setPeriods] = useState<Period[]>([]);
+  const [figures, setFigures] = useState<Map<string, ClosedMonth>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [reopening, setReopening] = useState<Period | null>(null);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    fetchYear();
+  }, [year]);
+
+  const fetchYear = async () => {
+    setIsLoading(true);
+    try {
+      const [periodsResponse, figuresResponse] = await Promise.all([
+        api.get<Period[]>('/period-close', { params: { year } }),
+        api.get<{ months: ClosedMonth[] }>('/analytics/as-of-close', {
+          params: { startDate: `${year}-01-01`, endDate: `${year}-12-31` },
+        }),
+      ]);
+      setPeriods(periodsResponse.data);
+      setFigures(new Map(figuresResponse.data.months.map((month) => [month.month, month])));
+    } catch (error) {
+      console.error('Failed to fetch periods:', error);
+      toast.error(t('periodClose.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const monthKey = (period: Period) => `${period.year}-${String(period.month).padStart(2, '0')}`;
+
+  const monthName = (period: Period) =>
+    new Date(period.year, period.month - 1, 1).toLocaleDateString(i18n.language, { month: 'long' });
+
+  // Only months that have ended can be closed
+  const hasEnded = (period: Period) => new Date(period.year, period.month, 1) <= new Date();
+
+  const handleClose = async (period: Period) => {
+    if (!confirm(t('periodClose.confirmClose', { month: monthName(period), year: period.year }))) return;
+
+    setIsSaving(true);
+    try {
+      await api.post(`/period-close/${period.year}/${period.month}/close`);
+      toast.success(t('periodClose.closed'));
+      fetchYear();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('periodClose.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openReopen = (period: Period) => {
+    setReopening(period);
+    setReason('');
+  };
+
+  const handleReopen = async () => {
+    if (!reopening) return;
+    if (reason.trim().length < 3) {
+      toast.error(t('periodClose.reasonRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await api.post(`/period-close/${reopening.year}/${reopening.month}/reopen`, { reason: reason.trim() });
+      toast.success(t('periodClose.reopened'));
+      setReopening(null);
+      fetchYear();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('periodClose.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderStatus = (period: Period) => {
+    if (period.closed) {
+      return <span className="px-2 py-0.5 rounded text-xs bg-gray-800 text-white">{t('periodClose.status.Closed')}</span>;
+    }
+    if (period.reopenedAt) {
+      return (
+        <span className="px-2 py-0.5 rounded text-xs bg-amber-100 text-amber-800">{t('periodClose.status.Reopened')}</span>
+      );
+    }
+    return <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">{t('periodClose.status.Open')}</span>;
+  };
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="page-title">{t('periodClose.title')}</h1>
+          <p className="text-sm text-gray-500 mt-1">{t('periodClose.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setYear(year - 1)} className="btn-secondary">
+            ‹
+          </button>
+          <span className="text-lg font-semibold w-16 text-center">{year}</span>
+          <button onClick={() => setYear(year + 1)} className="btn-secondary">
+            ›
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="card p-6 text-center text-gray-500">{t('common.loading')}</div>
+      ) : (
+        <div className="card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['month', 'status', 'hoursWorked', 'approvedHours', 'plannedHours', 'pendingReview', 'history'].map(
+                    (column) => (
+                      <th key={column} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                        {t(`periodClose.columns.${column}`)}
+                      </th>
+                    ),
+                  )}
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {periods.map((period) => {
+                  const snapshot = figures.get(monthKey(period));
+                  return (
+                    <tr key={period.month} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-3 font-medium text-gray-900 capitalize">{monthName(period)}</td>
+                      <td className="px-4 py-3">{renderStatus(period)}</td>
+                      <td className="px-4 py-3 text-gray-700">{snapshot ? `${snapshot.hoursWorked}h` : '—'}</td>
+                      <td className="px-4 py-3 text-gray-700">{snapshot ? `${snapshot.approvedHours}h` : '—'}</td>
+                      <td className="px-4 py-3 text-gray-700">{snapshot ? `${snapshot.plannedHours}h` : '—'}</td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {snapshot ? (
+                          <span className={snapshot.pendingReview > 0 ? 'text-amber-700' : ''}>
+                            {snapshot.pendingReview}
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-gray-500">
+                        {period.closedAt && (
+                          <div>
+                            {t('periodClose.closedBy', {
+                              date: new Date(period.closedAt).toLocaleString(i18n.language),
+                              name: period.closedBy ? `${period.closedBy.firstName} ${period.closedBy.lastName}` : '—',
+                            })}
+                          </div>
+                        )}
+                        {period.reopenedAt && (
+                          <div className="mt-1">
+                            {t('periodClose.reopenedBy', {
+                              date: new Date(period.reopenedAt).toLocaleString(i18n.language),
+                              name: period.reopenedBy
+                                ? `${period.reopenedBy.firstName} ${period.reopenedBy.lastName}`
+                                : '—',
+                            })}
+                            {period.reopenReason && <div className="italic">{period.reopenReason}</div>}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {period.closed ? (
+                          <button
+                            onClick={() => openReopen(period)}
+                            disabled={isSaving}
+                            className="btn-secondary disabled:opacity-50"
+                          >
+                            {t('periodClose.reopen')}
+                          </button>
+                        ) : (
+                          hasEnded(period) && (
+                            <button
+                              onClick={() => handleClose(period)}
+                              disabled={isSaving}
+                              className="btn-primary disabled:opacity-50"
+                            >
+                              {t('periodClose.close')}
+                            </button>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {reopening && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h2 className="text-lg font-semibold capitalize">
+                {t('periodClose.reopenTitle', { month: monthName(reopening), year: reopening.year })}
+              </h2>
+              <button onClick={() => setReopening(null)} className="text-gray-400 hover:text-gray-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <p className="text-sm text-gray-600">{t('periodClose.reopenHint')}</p>
+              <div>
+                <label className="label">{t('periodClose.reason')}</label>
+                <textarea
+                  value={reason}
+                  maxLength={1000}
+                  rows={3}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="input"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 p-4 border-t">
+              <button onClick={() => setReopening(null)} className="btn-secondary">
+                {t('common.cancel')}
+              </button>
+              <button onClick={handleReopen} disabled={isSaving} className="btn-primary disabled:opacity-50">
+                {t('periodClose.reopen')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/services/auth.service';
+import toast from 'react-hot-toast';
+
+type CalendarDayType = 'Working' | 'Short' | 'NonWorking';
+
+const DAY_TYPES: CalendarDayType[] = ['Working', 'Short', 'NonWorking'];
+
+interface CalendarDay {
+  date: string;
+  type: CalendarDayType;
+  hours: number;
+  name: string | null;
+  isException: boolean;
+}
+
+interface CalendarYear {
+  year: number;
+  imported: boolean;
+  workingDays: number;
+  workingHours: number;
+  months: { month: number; workingDays: number; workingHours: number }[];
+  days: CalendarDay[];
+}
+
+interface ImportResult {
+  year: number;
+  exceptions: number;
+  workingDays: number;
+  workingHours: number;
+}
+
+export default function ProductionCalendarPage() {
+  const { t, i18n } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [calendar, setCalendar] = useState<CalendarYear | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+  const [editingDay, setEditingDay] = useState<CalendarDay | null>(null);
+  const [editForm, setEditForm] = useState<{ type: CalendarDayType; name: string }>({ type: 'Working', name: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchYear();
+  }, [year]);
+
+  const fetchYear = async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get<CalendarYear>(`/production-calendar/years/${year}`);
+      setCalendar(response.data);
+    } catch (error) {
+      console.error('Failed to fetch production calendar:', error);
+      toast.error(t('productionCalendar.loadError'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await api.post<ImportResult[]>('/production-calendar/import', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+
+      toast.success(
+        t('productionCalendar.imported', { years: response.data.map((result) => result.year).join(', ') }),
+      );
+      fetchYear();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('productionCalendar.importError'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const openEdit = (day: CalendarDay) => {
+    setEditingDay(day);
+    setEditForm({ type: day.type, name: day.name || '' });
+  };
+
+  const handleSaveDay = async () => {
+    if (!editingDay) return;
+
+    setIsSaving(true);
+    try {
+      await api.put('/production-calendar/days', {
+        date: editingDay.date,
+        type: editForm.type,
+        name: editForm.name || undefined,
+      });
+      toast.success(t('productionCalendar.daySaved'));
+      setEditingDay(null);
+      fetchYear();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('productionCalendar.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetDay = async () => {
+    if (!editingDay || !confirm(t('productionCalendar.confirmReset'))) return;
+
+    setIsSaving(true);
+    try {
+      await api.delete(`/production-calendar/days/${editingDay.date}`);
+      toast.success(t('productionCalendar.dayReset'));
+      setEditingDay(null);
+      fetchYear();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('productionCalendar.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dayClass = (day: CalendarDay) => {
+    switch (day.type) {
+      case 'NonWorking':
+        return 'bg-red-50 text-red-700';
+      case 'Short':
+        return 'bg-amber-50 text-amber-700';
+      default:
+        return 'text-gray-700';
+    }
+  };
+
+  // Days of the month padded to start on Monday
+  const monthCells = (month: number) => {
+    const days = calendar?.days.filter((day) => Number(day.date.slice(5, 7)) === month) || [];
+    const firstWeekday = (new Date(year, month - 1, 1).getDay() + 6) % 7;
+    return [...Array<CalendarDay | null>(firstWeekday).fill(null), ...days];
+  };
+
+  const weekdayLabels = Array.from({ length: 7 }, (_, i) =>
+    new Date(2024, 0, 1 + i).toLocaleDateString(i18n.language, { weekday: 'short' }),
+  );
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="page-title">{t('productionCalendar.title')}</h1>
+          <p className="text-sm text-gray-500 mt-1">{t('productionCalendar.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setYear(year - 1)} className="btn-secondary">
+            ‹
+          </button>
+          <span className="text-lg font-semibold w-16 text-center">{year}</span>
+          <button onClick={() => setYear(year + 1)} className="btn-secondary">
+            ›
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,.json" onChange={handleImport} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="btn-primary disabled:opacity-50"
+          >
+            {isImporting ? t('productionCalendar.importing') : t('productionCalendar.import')}
+          </button>
+        </div>
+      </div>
+
+      {isLoading || !calendar ? (
+        <div className="card p-6 text-center text-gray-500">{t('common.loading')}</div>
+      ) : (
+        <>
+          <div className="card p-4 mb-6 flex flex-wrap items-center gap-6 text-sm">
+            <span>
+              {t('productionCalendar.workingDays')}: <strong>{calendar.workingDays}</strong>
+            </span>
+            <span>
+              {t('productionCalendar.workingHours')}: <strong>{calendar.workingHours}</strong>
+            </span>
+            {!calendar.imported && (
+              <span className="text-amber-700">{t('productionCalendar.notImported')}</span>
+            )}
+            <div className="flex items-center gap-4 ml-auto">
+              {DAY_TYPES.map((type) => (
+                <span key={type} className="flex items-center gap-1">
+                  <span className={`w-3 h-3 rounded border border-gray-200 ${dayClass({ type } as CalendarDay)}`} />
+                  {t(`productionCalendar.types.${type}`)}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+            {calendar.months.map((month) => (
+              <div key={month.month} className="card p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold capitalize">
+                    {new Date(year, month.month - 1, 1).toLocaleDateString(i18n.language, { month: 'long' })}
+                  </h3>
+                  <span className="text-xs text-gray-500">
+                    {t('productionCalendar.monthSummary', {
+                      days: month.workingDays,
+                      hours: month.workingHours,
+                    })}
+                  </span>
+                </div>
+                <div className="grid grid-cols-7 gap-1 text-center text-xs">
+                  {weekdayLabels.map((label) => (
+                    <div key={label} className="text-gray-400 py-1">
+                      {label}
+                    </div>
+                  ))}
+                  {monthCells(month.month).map((day, index) =>
+                    day ? (
+                      <button
+                        key={day.date}
+                        onClick={() => openEdit(day)}
+                        title={day.name || t(`productionCalendar.types.${day.type}`)}
+                        className={`py-1 rounded hover:ring-2 hover:ring-primary-300 ${dayClass(day)} ${
+                          day.isException ? 'font-semibold' : ''
+                        }`}
+                      >
+                        {Number(day.date.slice(8, 10))}
+                        {day.type === 'Short' && '*'}
+                      </button>
+                    ) : (
+                      <div key={`empty-${index}`} />
+                    ),
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {editingDay && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h2 className="text-lg font-semibold">
+                {new Date(`${editingDay.date}T00:00:00`).toLocaleDateString(i18n.language)}
+              </h2>
+              <button onClick={() => setEditingDay(null)} className="text-gray-400 hover:text-gray-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <div>
+                <label className="label">{t('productionCalendar.dayType')}</label>
+                <select
+                  value={editForm.type}
+                  onChange={(e) => setEditForm({ ...editForm, type: e.target.value as CalendarDayType })}
+                  className="input"
+                >
+                  {DAY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(`productionCalendar.types.${type}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">{t('productionCalendar.dayName')}</label>
+                <input
+                  type="text"
+                  value={editForm.name}
+                  maxLength={200}
+                  onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                  placeholder={t('productionCalendar.dayNamePlaceholder')}
+                  className="input"
+                />
+              </div>
+            </div>
+            <div className="flex justify-between gap-2 p-4 border-t">
+              <div>
+                {editingDay.isException && (
+                  <button onClick={handleResetDay} disabled={isSaving} className="btn-secondary disabled:opacity-50">
+                    {t('productionCalendar.resetDay')}
+                  </button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => setEditingDay(null)} className="btn-secondary">
+                  {t('common.cancel')}
+                </button>
+                <button onClick={handleSaveDay} disabled={isSaving} className="btn-primary disabled:opacity-50">
+                  {t('common.save')}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useAppSelector, useAppDispatch } from '@/store';
 import { api } from '@/services/auth.service';
@@ -6,6 +6,16 @@ import { logout } from '@/store/slices/authSlice';
 import { useNavigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
+interface Session {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  startedAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export default function ProfilePage() {
   const { t } = useTranslation();
   const { user } = useAppSelector((state) => state.auth);
@@ -18,6 +28,44 @@ export default function ProfilePage() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(true);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await api.get<Session[]>('/auth/sessions');
+      setSessions(response.data);
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+      toast.error(t('profile.sessionsLoadFailed'));
+    } finally {
+      setLoadingSessions(false);
+    }
+  };
+
+  const handleRevokeSession = async (session: Session) => {
+    setRevokingSessionId(session.id);
+    try {
+      await api.delete(`/auth/sessions/${session.id}`);
+      // Ending the current session is the same as logging out
+      if (session.current) {
+        dispatch(logout());
+        navigate('/login');
+        return;
+      }
+      toast.success(t('profile.sessionRevoked'));
+      fetchSessions();
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || t('profile.sessionRevokeFailed'));
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
 
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -179,6 +227,48 @@ export default function ProfilePage() {
           </form>
         )}
       </div>
+
+      {/* Active Sessions */}
+      <div className="card p-6 mt-6">
+        <h2 className="text-lg font-semibold mb-1">{t('profile.sessions')}</h2>
+        <p className="text-sm text-gray-500 mb-4">{t('profile.sessionsHint')}</p>
+
+        {loadingSessions ? (
+          <p className="text-gray-500">{t('common.loading')}</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-gray-500">{t('profile.noSessions')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map((session) => (
+              <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {session.userAgent || t('profile.unknownDevice')}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                        {t('profile.currentSession')}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ipAddress && `${session.ipAddress} · `}
+                    {t('profile.sessionStarted')}: {new Date(session.startedAt).toLocaleString()}
+                    {' · '}
+                    {t('profile.sessionLastActive')}: {new Date(session.lastActiveAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevokeSession(session)}
+                  disabled={revokingSessionId === session.id}
+                  className="text-sm text-red-600 hover:text-red-800 font-medium whitespace-nowrap disabled:opacity-50"
+                >
+                  {session.current ? t('auth.logout') : t('profile.revokeSession')}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
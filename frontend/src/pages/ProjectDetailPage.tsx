@@ -15,7 +15,19 @@ interface Document {
     id: string;
     firstName: string;
     lastName: string;
-  };
+  } | null; // The uploader's account was deleted
+}
+
+interface DocumentVersion {
+  id: string;
+  version: number;
+  originalName: string;
+  uploadedAt: string;
+  uploadedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null; // The uploader's account was deleted
 }
 
 interface Construction {
@@ -24,8 +36,15 @@ interface Construction {
   status: string;
 }
 
+type ProjectRole = 'Lead' | 'ChiefEngineer' | 'Designer' | 'Member' | 'Viewer';
+
+const PROJECT_ROLES: ProjectRole[] = ['Lead', 'ChiefEngineer', 'Designer', 'Member', 'Viewer'];
+
+type ProjectPermission = 'ViewTeam' | 'ManageTeam' | 'ManageDocuments' | 'EditConstructions' | 'ViewPayments';
+
 interface TeamMember {
   id: string;
+  role: ProjectRole;
   user: {
     id: string;
     firstName: string;
@@ -60,6 +79,29 @@ interface PaymentSchedule {
   };
 }
 
+interface PaymentValidation {
+  projectCost: number | null;
+  scheduledTotal: number;
+  percentageTotal: number;
+  remaining: number | null;
+  isValid: boolean;
+  issues: string[];
+}
+
+interface AuditLogEntry {
+  id: string;
+  entityType: string;
+  entityId: string;
+  action: 'Create' | 'Update' | 'Delete';
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
 interface WorkloadReport {
   id: string;
   date: string;
@@ -121,9 +163,10 @@ interface Project {
   }[];
   constructions: Construction[];
   documents?: Document[];
+  permissions: ProjectPermission[]; // What the current user may do on this project
 }
 
-type TabType = 'overview' | 'constructions' | 'documents' | 'payments' | 'workload';
+type TabType = 'overview' | 'team' | 'constructions' | 'documents' | 'payments' | 'workload' | 'history';
 
 export default function ProjectDetailPage() {
   const { t } = useTranslation();
@@ -137,7 +180,7 @@ export default function ProjectDetailPage() {
   // Get initial tab from URL hash or default to 'overview'
   const getTabFromHash = (): TabType => {
     const hash = location.hash.replace('#', '');
-    const validTabs: TabType[] = ['overview', 'constructions', 'documents', 'payments', 'workload'];
+    const validTabs: TabType[] = ['overview', 'team', 'constructions', 'documents', 'payments', 'workload', 'history'];
     return validTabs.includes(hash as TabType) ? (hash as TabType) : 'overview';
   };
 
@@ -149,9 +192,13 @@ export default function ProjectDetailPage() {
   const [selectedUserId, setSelectedUserId] = useState<string>('');
   const [loadingTeam, setLoadingTeam] = useState(false);
   const [addingUser, setAddingUser] = useState(false);
+  const [newMemberRole, setNewMemberRole] = useState<ProjectRole>('Member');
 
-  const canManageTeam = user?.role === 'Admin' || user?.role === 'Manager';
-  const canUploadDocs = user?.role === 'Admin' || user?.role === 'Manager';
+  // Rights on this project come from the global role and the user's role on the project
+  const projectPermissions = project?.permissions || [];
+  const canViewTeam = projectPermissions.includes('ViewTeam');
+  const canManageTeam = projectPermissions.includes('ManageTeam');
+  const canUploadDocs = projectPermissions.includes('ManageDocuments');
 
   // Document upload state
   const [showUploadModal, setShowUploadModal] = useState(false);
@@ -167,6 +214,13 @@ export default function ProjectDetailPage() {
   const [replaceFile, setReplaceFile] = useState<File | null>(null);
   const [documentToReplace, setDocumentToReplace] = useState<Document | null>(null);
 
+  // Document version history state
+  const [showVersionsModal, setShowVersionsModal] = useState(false);
+  const [versionsDocument, setVersionsDocument] = useState<Document | null>(null);
+  const [documentVersions, setDocumentVersions] = useState<DocumentVersion[]>([]);
+  const [loadingVersions, setLoadingVersions] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
   // Document filter state
   const [documentTypeFilter, setDocumentTypeFilter] = useState<string>('all');
 
@@ -183,7 +237,16 @@ export default function ProjectDetailPage() {
     description: '',
   });
   const [paymentFormErrors, setPaymentFormErrors] = useState<Record<string, string>>({});
+  const [paymentValidation, setPaymentValidation] = useState<PaymentValidation | null>(null);
+  const [showGenerateScheduleModal, setShowGenerateScheduleModal] = useState(false);
+  const [generatingSchedule, setGeneratingSchedule] = useState(false);
+  const [generateForm, setGenerateForm] = useState({
+    advancePercentage: '30',
+    mainPercentage: '50',
+    finalPercentage: '20',
+  });
   const canManagePayments = user?.role === 'Admin' || user?.role === 'Manager';
+  const canViewPayments = projectPermissions.includes('ViewPayments');
 
   // Construction management state
   const [showAddConstructionModal, setShowAddConstructionModal] = useState(false);
@@ -192,7 +255,7 @@ export default function ProjectDetailPage() {
   const [editingConstruction, setEditingConstruction] = useState<Construction | null>(null);
   const [editConstructionName, setEditConstructionName] = useState('');
   const [savingConstruction, setSavingConstruction] = useState(false);
-  const canManageConstructions = user?.role === 'Admin' || user?.role === 'Manager';
+  const canManageConstructions = projectPermissions.includes('EditConstructions');
 
   // Workload tab state
   const [projectWorkload, setProjectWorkload] = useState<ProjectWorkload | null>(null);
@@ -201,6 +264,11 @@ export default function ProjectDetailPage() {
   const [showEmployeeReportsModal, setShowEmployeeReportsModal] = useState(false);
   const canViewWorkload = user?.role === 'Admin' || user?.role === 'Manager' || user?.role === 'Trial';
 
+  // History tab state (audit log is Admin only)
+  const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+  const [loadingAuditLogs, setLoadingAuditLogs] = useState(false);
+  const canViewHistory = user?.role === 'Admin';
+
   useEffect(() => {
     const fetchProject = async () => {
       try {
@@ -220,7 +288,7 @@ export default function ProjectDetailPage() {
   // Sync active tab with URL hash
   useEffect(() => {
     const hash = location.hash.replace('#', '');
-    const validTabs: TabType[] = ['overview', 'constructions', 'documents', 'payments', 'workload'];
+    const validTabs: TabType[] = ['overview', 'team', 'constructions', 'documents', 'payments', 'workload', 'history'];
     if (validTabs.includes(hash as TabType) && hash !== activeTab) {
       setActiveTab(hash as TabType);
     }
@@ -232,14 +300,22 @@ export default function ProjectDetailPage() {
     navigate(`#${tab}`, { replace: true });
   };
 
+  const refreshPayments = async () => {
+    const [paymentsResponse, validationResponse] = await Promise.all([
+      api.get<PaymentSchedule[]>(`/payment-schedule?projectId=${id}`),
+      api.get<PaymentValidation>(`/payment-schedule/project/${id}/validation`),
+    ]);
+    setPayments(paymentsResponse.data);
+    setPaymentValidation(validationResponse.data);
+  };
+
   // Fetch payments when payments tab is active
   useEffect(() => {
     const fetchPayments = async () => {
-      if (activeTab === 'payments' && id) {
+      if (activeTab === 'payments' && id && canViewPayments) {
         setLoadingPayments(true);
         try {
-          const response = await api.get<PaymentSchedule[]>(`/payment-schedule?projectId=${id}`);
-          setPayments(response.data);
+          await refreshPayments();
         } catch (error) {
           toast.error(t('payments.loadError'));
         } finally {
@@ -248,7 +324,29 @@ export default function ProjectDetailPage() {
       }
     };
     fetchPayments();
-  }, [activeTab, id, t]);
+  }, [activeTab, id, canViewPayments, t]);
+
+  // Fetch team when team tab is active
+  useEffect(() => {
+    const fetchTeam = async () => {
+      if (activeTab === 'team' && id && canViewTeam) {
+        setLoadingTeam(true);
+        try {
+          const [teamResponse, availableResponse] = await Promise.all([
+            api.get<TeamMember[]>(`/project/${id}/users`),
+            canManageTeam ? api.get<AvailableUser[]>(`/project/${id}/available-users`) : null,
+          ]);
+          setTeamMembers(teamResponse.data);
+          setAvailableUsers(availableResponse?.data || []);
+        } catch (error) {
+          toast.error(t('projects.teamLoadError'));
+        } finally {
+          setLoadingTeam(false);
+        }
+      }
+    };
+    fetchTeam();
+  }, [activeTab, id, canViewTeam, canManageTeam, t]);
 
   // Fetch workload when workload tab is active
   useEffect(() => {
@@ -268,6 +366,30 @@ export default function ProjectDetailPage() {
     fetchWorkload();
   }, [activeTab, id, canViewWorkload, t]);
 
+  // Fetch change history when history tab is active
+  useEffect(() => {
+    const fetchAuditLogs = async () => {
+      if (activeTab === 'history' && id && canViewHistory) {
+        setLoadingAuditLogs(true);
+        try {
+          const response = await api.get<AuditLogEntry[]>(`/audit?projectId=${id}`);
+          setAuditLogs(response.data);
+        } catch (error) {
+          toast.error(t('audit.loadError'));
+        } finally {
+          setLoadingAuditLogs(false);
+        }
+      }
+    };
+    fetchAuditLogs();
+  }, [activeTab, id, canViewHistory, t]);
+
+  const formatAuditValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no');
+    return String(value);
+  };
+
   const openEmployeeReportsModal = (employee: EmployeeWorkload) => {
     setSelectedEmployeeWorkload(employee);
     setShowEmployeeReportsModal(true);
@@ -278,7 +400,7 @@ export default function ProjectDetailPage() {
 
     setAddingUser(true);
     try {
-      await api.post(`/project/${id}/users/${selectedUserId}`);
+      await api.post(`/project/${id}/users/${selectedUserId}`, { role: newMemberRole });
       toast.success(t('projects.teamMemberAdded'));
 
       // Refresh team data
@@ -289,6 +411,7 @@ export default function ProjectDetailPage() {
       setTeamMembers(teamResponse.data);
       setAvailableUsers(availableResponse.data);
       setSelectedUserId('');
+      setNewMemberRole('Member');
     } catch (error) {
       toast.error(t('projects.teamMemberAddError'));
     } finally {
@@ -296,6 +419,18 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const handleChangeMemberRole = async (userId: string, role: ProjectRole) => {
+    if (!id) return;
+
+    try {
+      const response = await api.patch<TeamMember>(`/project/${id}/users/${userId}`, { role });
+      setTeamMembers(teamMembers.map((member) => (member.user.id === userId ? response.data : member)));
+      toast.success(t('projects.teamMemberRoleUpdated'));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('projects.teamMemberRoleError'));
+    }
+  };
+
   const handleRemoveTeamMember = async (userId: string) => {
     if (!id) return;
 
@@ -480,6 +615,45 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const openVersionsModal = async (doc: Document) => {
+    setVersionsDocument(doc);
+    setDocumentVersions([]);
+    setShowVersionsModal(true);
+    setLoadingVersions(true);
+    try {
+      const response = await api.get<DocumentVersion[]>(`/document/${doc.id}/versions`);
+      setDocumentVersions(response.data);
+    } catch (error) {
+      toast.error(t('documents.versionsLoadError'));
+    } finally {
+      setLoadingVersions(false);
+    }
+  };
+
+  const handleRestoreVersion = async (version: number) => {
+    if (!versionsDocument || !id) return;
+    if (!confirm(t('documents.restoreConfirm', { version }))) return;
+
+    setRestoringVersion(version);
+    try {
+      const response = await api.post<Document>(`/document/${versionsDocument.id}/versions/${version}/restore`);
+      toast.success(t('documents.restoreSuccess'));
+      setVersionsDocument(response.data);
+
+      // Refresh version list and project documents
+      const [versionsResponse, projectResponse] = await Promise.all([
+        api.get<DocumentVersion[]>(`/document/${versionsDocument.id}/versions`),
+        api.get<Project>(`/project/${id}`),
+      ]);
+      setDocumentVersions(versionsResponse.data);
+      setProject(projectResponse.data);
+    } catch (error) {
+      toast.error(t('documents.restoreError'));
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
   const handleAddPayment = async () => {
     const errors: Record<string, string> = {};
 
@@ -506,17 +680,14 @@ export default function ProjectDetailPage() {
     setSavingPayment(true);
     setPaymentFormErrors({});
     try {
-      // Feature #331: Calculate percentage automatically from project cost or total payments
+      // Feature #331: Percentage is derived on the server from the project cost;
+      // without a cost it is calculated from the sum of all payments + current payment
       const amount = parseFloat(paymentForm.amount);
       let percentage: number | undefined = undefined;
 
-      // If project has a cost, calculate percentage from it
-      if (project?.cost && project.cost > 0) {
-        percentage = (amount / project.cost) * 100;
-      } else {
-        // If no project cost, calculate percentage based on sum of all payments + current payment
+      if (!project?.cost || project.cost <= 0) {
         const totalPayments = payments.reduce((sum, p) => sum + p.amount, 0) + amount;
-        percentage = totalPayments > 0 ? (amount / totalPayments) * 100 : undefined;
+        percentage = totalPayments > 0 ? Math.round((amount / totalPayments) * 10000) / 100 : undefined;
       }
 
       await api.post('/payment-schedule/create', {
@@ -540,10 +711,9 @@ export default function ProjectDetailPage() {
       });
 
       // Refresh payments
-      const response = await api.get<PaymentSchedule[]>(`/payment-schedule?projectId=${id}`);
-      setPayments(response.data);
-    } catch (error) {
-      toast.error(t('payments.addError'));
+      await refreshPayments();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('payments.addError'));
     } finally {
       setSavingPayment(false);
     }
@@ -555,7 +725,7 @@ export default function ProjectDetailPage() {
     try {
       await api.delete(`/payment-schedule/${paymentId}`);
       toast.success(t('payments.deleteSuccess'));
-      setPayments(payments.filter((p) => p.id !== paymentId));
+      await refreshPayments();
     } catch (error) {
       toast.error(t('payments.deleteError'));
     }
@@ -566,13 +736,49 @@ export default function ProjectDetailPage() {
       await api.patch(`/payment-schedule/${paymentId}/mark-paid`, {});
       toast.success(t('payments.markPaidSuccess'));
       // Refresh payments
-      const response = await api.get<PaymentSchedule[]>(`/payment-schedule?projectId=${id}`);
-      setPayments(response.data);
+      await refreshPayments();
     } catch (error) {
       toast.error(t('payments.markPaidError'));
     }
   };
 
+  const handleGenerateSchedule = async () => {
+    if (!id) return;
+
+    const advancePercentage = parseFloat(generateForm.advancePercentage) || 0;
+    const mainPercentage = parseFloat(generateForm.mainPercentage) || 0;
+    const finalPercentage = parseFloat(generateForm.finalPercentage) || 0;
+
+    if (Math.abs(advancePercentage + mainPercentage + finalPercentage - 100) > 0.01) {
+      toast.error(t('payments.generatePercentageSum'));
+      return;
+    }
+
+    // Generating over an existing schedule replaces it, so ask first
+    if (payments.length > 0 && !confirm(t('payments.generateReplaceConfirm'))) return;
+
+    setGeneratingSchedule(true);
+    try {
+      await api.post('/payment-schedule/generate', {
+        projectId: id,
+        advancePercentage,
+        mainPercentage,
+        finalPercentage,
+        advanceName: t('payments.types.advance'),
+        mainName: t('payments.types.mainpayment'),
+        finalName: t('payments.types.finalpayment'),
+        replaceExisting: payments.length > 0,
+      });
+      toast.success(t('payments.generateSuccess'));
+      setShowGenerateScheduleModal(false);
+      await refreshPayments();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('payments.generateError'));
+    } finally {
+      setGeneratingSchedule(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -675,10 +881,14 @@ export default function ProjectDetailPage() {
 
   const tabs: { id: TabType; label: string }[] = [
     { id: 'overview', label: t('projects.overview') },
+    { id: 'team', label: t('projects.teamTab.title') },
     { id: 'constructions', label: `${t('constructions.title')} (${project.constructions?.length || 0})` },
     { id: 'documents', label: `${t('documents.title')} (${project.documents?.length || 0})` },
-    { id: 'payments', label: `${t('payments.title')} (${payments.length})` },
+    ...(canViewPayments
+      ? [{ id: 'payments' as TabType, label: `${t('payments.title')} (${payments.length})` }]
+      : []),
     { id: 'workload', label: t('workload.title') },
+    ...(canViewHistory ? [{ id: 'history' as TabType, label: t('audit.history') }] : []),
   ];
 
   return (
@@ -850,6 +1060,109 @@ export default function ProjectDetailPage() {
         </div>
       )}
 
+      {activeTab === 'team' && (
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold mb-4">{t('projects.teamTab.title')}</h2>
+
+          {canManageTeam && (
+            <div className="flex flex-col md:flex-row gap-2 mb-6">
+              <select
+                value={selectedUserId}
+                onChange={(e) => setSelectedUserId(e.target.value)}
+                className="input md:flex-1"
+                aria-label={t('projects.teamTab.selectUser')}
+              >
+                <option value="">{t('projects.teamTab.selectUser')}</option>
+                {availableUsers.map((availableUser) => (
+                  <option key={availableUser.id} value={availableUser.id}>
+                    {availableUser.lastName} {availableUser.firstName} ({availableUser.email})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={newMemberRole}
+                onChange={(e) => setNewMemberRole(e.target.value as ProjectRole)}
+                className="input md:w-56"
+                aria-label={t('projects.teamTab.role')}
+              >
+                {PROJECT_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {t(`projects.roles.${role}`)}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddTeamMember}
+                disabled={!selectedUserId || addingUser}
+                className="btn-primary disabled:opacity-50"
+              >
+                {t('projects.teamTab.add')}
+              </button>
+            </div>
+          )}
+
+          {loadingTeam ? (
+            <div className="text-center py-8 text-gray-500">{t('common.loading')}</div>
+          ) : teamMembers.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('projects.teamTab.member')}</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('projects.teamTab.email')}</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('projects.teamTab.role')}</th>
+                    {canManageTeam && (
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('common.actions')}</th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {teamMembers.map((member) => (
+                    <tr key={member.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-4 whitespace-nowrap text-gray-900">
+                        {member.user.lastName} {member.user.firstName}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-gray-600">{member.user.email}</td>
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        {canManageTeam ? (
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleChangeMemberRole(member.user.id, e.target.value as ProjectRole)}
+                            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            aria-label={t('projects.teamTab.role')}
+                          >
+                            {PROJECT_ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {t(`projects.roles.${role}`)}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-gray-700">{t(`projects.roles.${member.role}`)}</span>
+                        )}
+                      </td>
+                      {canManageTeam && (
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          <button
+                            onClick={() => handleRemoveTeamMember(member.user.id)}
+                            className="text-red-600 hover:text-red-800 text-sm font-medium"
+                          >
+                            {t('projects.teamTab.remove')}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-4">{t('projects.teamTab.rolesHint')}</p>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-gray-500">{t('projects.teamTab.empty')}</div>
+          )}
+        </div>
+      )}
+
       {activeTab === 'constructions' && (
         <div className="card p-6">
           <div className="flex justify-between items-center mb-4">
@@ -1003,7 +1316,7 @@ export default function ProjectDetailPage() {
                         </span>
                       </td>
                       <td className="px-4 py-4 whitespace-nowrap text-gray-600">
-                        {doc.uploadedBy.firstName} {doc.uploadedBy.lastName}
+                        {doc.uploadedBy ? `${doc.uploadedBy.firstName} ${doc.uploadedBy.lastName}` : '—'}
                       </td>
                       <td className="px-4 py-4 whitespace-nowrap text-gray-600">{formatDate(doc.uploadedAt)}</td>
                       <td className="px-4 py-4 whitespace-nowrap space-x-2">
@@ -1018,6 +1331,12 @@ export default function ProjectDetailPage() {
                           </svg>
                           {t('documents.download')}
                         </a>
+                        <button
+                          onClick={() => openVersionsModal(doc)}
+                          className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+                        >
+                          {t('documents.history')}
+                        </button>
                         {canUploadDocs && (
                           <>
                             <button
@@ -1182,20 +1501,133 @@ export default function ProjectDetailPage() {
         </div>
       )}
 
-      {activeTab === 'payments' && (
+      {/* Document Versions Modal */}
+      {showVersionsModal && versionsDocument && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-4 border-b">
+              <div>
+                <h2 className="text-lg font-semibold">{t('documents.versionHistory')}</h2>
+                <p className="text-sm text-gray-500">{versionsDocument.originalName}</p>
+              </div>
+              <button onClick={() => setShowVersionsModal(false)} className="text-gray-400 hover:text-gray-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto">
+              {loadingVersions ? (
+                <div className="flex justify-center py-8">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+                </div>
+              ) : documentVersions.length > 0 ? (
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('documents.version')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('documents.name')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('documents.uploadedBy')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('documents.uploadDate')}</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">{t('common.actions')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {documentVersions.map((version) => (
+                      <tr key={version.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
+                            v{version.version}
+                          </span>
+                          {version.version === versionsDocument.version && (
+                            <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                              {t('documents.current')}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-900">{version.originalName}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600">
+                          {version.uploadedBy ? `${version.uploadedBy.firstName} ${version.uploadedBy.lastName}` : '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600">{formatDate(version.uploadedAt)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap space-x-2">
+                          <a
+                            href={`${import.meta.env.VITE_API_URL || 'http://localhost:3000'}/api/document/${versionsDocument.id}/versions/${version.version}/download`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary-600 hover:text-primary-800 text-sm font-medium"
+                          >
+                            {t('documents.download')}
+                          </a>
+                          {canUploadDocs && version.version !== versionsDocument.version && (
+                            <button
+                              onClick={() => handleRestoreVersion(version.version)}
+                              disabled={restoringVersion !== null}
+                              className="text-amber-600 hover:text-amber-800 text-sm font-medium disabled:opacity-50"
+                            >
+                              {restoringVersion === version.version ? `${t('documents.restoring')}...` : t('documents.restore')}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-center py-8">{t('documents.noVersions')}</p>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 p-4 border-t">
+              <button onClick={() => setShowVersionsModal(false)} className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg">
+                {t('common.close')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'payments' && canViewPayments && (
         <div className="card p-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-lg font-semibold">{t('payments.schedule')}</h2>
             {canManagePayments && (
-              <button
-                onClick={() => setShowAddPaymentModal(true)}
-                className="btn-primary"
-              >
-                {t('payments.add')}
-              </button>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setShowGenerateScheduleModal(true)}
+                  disabled={!project.cost}
+                  title={!project.cost ? t('payments.generateNoCost') : undefined}
+                  className="px-4 py-2 border border-primary-600 text-primary-600 rounded-lg hover:bg-primary-50 disabled:opacity-50"
+                >
+                  {t('payments.generate')}
+                </button>
+                <button
+                  onClick={() => setShowAddPaymentModal(true)}
+                  className="btn-primary"
+                >
+                  {t('payments.add')}
+                </button>
+              </div>
             )}
           </div>
 
+          {/* Schedule consistency with the project cost */}
+          {!loadingPayments && paymentValidation && payments.length > 0 && (
+            paymentValidation.isValid ? (
+              <div className="mb-4 p-3 rounded-lg bg-green-50 text-green-800 text-sm">
+                {t('payments.validationOk')}
+              </div>
+            ) : (
+              <div className="mb-4 p-3 rounded-lg bg-yellow-50 text-yellow-800 text-sm">
+                <div className="font-medium">{t('payments.validationIssues')}</div>
+                <ul className="list-disc list-inside mt-1">
+                  {paymentValidation.issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              </div>
+            )
+          )}
+
           {loadingPayments ? (
             <div className="flex justify-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
@@ -1302,6 +1734,14 @@ export default function ProjectDetailPage() {
                       {payments.reduce((sum, p) => sum + (p.percentage || 0), 0).toFixed(0)}%
                     </div>
                   </div>
+                  {paymentValidation?.remaining !== null && paymentValidation?.remaining !== undefined && (
+                    <div className="text-right">
+                      <div className="text-sm text-gray-500">{t('payments.remaining')}</div>
+                      <div className={`text-lg font-semibold ${paymentValidation.remaining < 0 ? 'text-red-600' : paymentValidation.remaining > 0.01 ? 'text-amber-600' : 'text-gray-900'}`}>
+                        {formatCurrency(paymentValidation.remaining)}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -1311,6 +1751,65 @@ export default function ProjectDetailPage() {
         </div>
       )}
 
+      {/* History Tab */}
+      {activeTab === 'history' && canViewHistory && (
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold mb-6">{t('audit.history')}</h2>
+
+          {loadingAuditLogs ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : auditLogs.length > 0 ? (
+            <ul className="divide-y divide-gray-200">
+              {auditLogs.map((log) => (
+                <li key={log.id} className="py-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      log.action === 'Create' ? 'bg-green-100 text-green-800' :
+                      log.action === 'Delete' ? 'bg-red-100 text-red-800' :
+                      'bg-blue-100 text-blue-800'
+                    }`}>
+                      {t(`audit.actions.${log.action}`)}
+                    </span>
+                    <span className="font-medium text-gray-900">{t(`audit.entities.${log.entityType}`)}</span>
+                    <span className="text-gray-500 text-sm">
+                      {log.user ? `${log.user.firstName} ${log.user.lastName}` : t('audit.unknownUser')}
+                      {' · '}
+                      {new Date(log.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {Object.keys(log.changes).length > 0 && (
+                    <table className="mt-2 text-sm">
+                      <tbody>
+                        {Object.entries(log.changes).map(([field, change]) => (
+                          <tr key={field}>
+                            <td className="pr-4 py-0.5 text-gray-500">{field}</td>
+                            <td className="py-0.5 text-gray-900">
+                              {log.action === 'Update' ? (
+                                <>
+                                  <span className="line-through text-gray-400">{formatAuditValue(change.from)}</span>
+                                  {' → '}
+                                  {formatAuditValue(change.to)}
+                                </>
+                              ) : (
+                                formatAuditValue(log.action === 'Delete' ? change.from : change.to)
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 text-center py-8">{t('audit.noHistory')}</p>
+          )}
+        </div>
+      )}
+
       {/* Workload Tab */}
       {activeTab === 'workload' && canViewWorkload && (
         <div className="card p-6">
@@ -1481,6 +1980,64 @@ export default function ProjectDetailPage() {
       )}
 
       {/* Add Payment Modal */}
+      {/* Generate Payment Schedule Modal */}
+      {showGenerateScheduleModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h2 className="text-lg font-semibold">{t('payments.generateTitle')}</h2>
+              <button onClick={() => setShowGenerateScheduleModal(false)} className="text-gray-400 hover:text-gray-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <p className="text-sm text-gray-600">{t('payments.generateDescription')}</p>
+              {([
+                ['advancePercentage', 'payments.types.advance'],
+                ['mainPercentage', 'payments.types.mainpayment'],
+                ['finalPercentage', 'payments.types.finalpayment'],
+              ] as const).map(([field, labelKey]) => (
+                <div key={field} className="flex items-center justify-between gap-4">
+                  <label className="text-sm font-medium text-gray-700">{t(labelKey)}</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      value={generateForm[field]}
+                      onChange={(e) => setGenerateForm({ ...generateForm, [field]: e.target.value })}
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    />
+                    <span className="text-gray-500">%</span>
+                    <span className="w-32 text-right text-sm text-gray-600">
+                      {formatCurrency(((project.cost || 0) * (parseFloat(generateForm[field]) || 0)) / 100)}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {payments.length > 0 && (
+                <p className="text-sm text-yellow-700">{t('payments.generateReplaceWarning')}</p>
+              )}
+            </div>
+            <div className="flex justify-end gap-2 p-4 border-t">
+              <button onClick={() => setShowGenerateScheduleModal(false)} className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg">
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleGenerateSchedule}
+                disabled={generatingSchedule}
+                className="btn-primary disabled:opacity-50"
+              >
+                {generatingSchedule ? `${t('common.saving')}...` : t('payments.generate')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showAddPaymentModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
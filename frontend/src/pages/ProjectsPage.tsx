@@ -6,6 +6,8 @@ import { api } from '@/services/auth.service';
 import toast from 'react-hot-toast';
 import { useUnsavedChanges } from '@/hooks/useUnsavedChangesWarning';
 import UnsavedChangesDialog from '@/components/common/UnsavedChangesDialog';
+import Pagination from '@/components/common/Pagination';
+import type { PaginatedResponse } from '@/types';
 
 interface Project {
   id: string;
@@ -91,6 +93,9 @@ export default function ProjectsPage() {
     return false;
   };
   const [projects, setProjects] = useState<Project[]>([]);
+  const [totalProjects, setTotalProjects] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [mainProjects, setMainProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -147,6 +152,7 @@ export default function ProjectsPage() {
   const sortBy = searchParams.get('sortBy') || 'createdAt';
   const sortOrder = searchParams.get('sortOrder') || 'desc';
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
 
   // Track if we've done the initial restore to avoid overwriting sessionStorage
   const hasRestoredRef = useRef(false);
@@ -208,11 +214,21 @@ export default function ProjectsPage() {
   }, [statusFilter, currentPage, sortBy, sortOrder, searchQuery]);
 
   useEffect(() => {
-    fetchProjects();
+    fetchMainProjects();
     fetchCompanies();
     fetchUsers();
   }, []);
 
+  // Wait until the user stops typing before searching on the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [statusFilter, currentPage, sortBy, sortOrder, debouncedSearch]);
+
   const fetchCompanies = async () => {
     try {
       const response = await api.get<Company[]>('/company');
@@ -233,8 +249,20 @@ export default function ProjectsPage() {
 
   const fetchProjects = async () => {
     try {
-      const response = await api.get<Project[]>('/project');
-      setProjects(response.data);
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+        sortBy,
+        sortOrder,
+      });
+      if (statusFilter !== 'All') params.append('status', statusFilter);
+      if (debouncedSearch) params.append('search', debouncedSearch);
+
+      const response = await api.get<PaginatedResponse<Project>>(`/project?${params}`);
+      setProjects(response.data.data);
+      setTotalProjects(response.data.total);
+      setTotalPages(response.data.totalPages);
     } catch (error) {
       toast.error(t('projects.loadError'));
     } finally {
@@ -242,70 +270,15 @@ export default function ProjectsPage() {
     }
   };
 
-  // Filter and sort projects based on status, search query, and sort params
-  const filteredProjects = useMemo(() => {
-    let filtered = projects;
-
-    // Filter by status
-    if (statusFilter !== 'All') {
-      filtered = filtered.filter(project => project.status === statusFilter);
-    }
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(project =>
-        project.name.toLowerCase().includes(query) ||
-        (project.customer?.name || '').toLowerCase().includes(query) ||
-        `${project.manager?.firstName || ''} ${project.manager?.lastName || ''}`.toLowerCase().includes(query)
-      );
+  // Full list of main projects for the "link to main project" select
+  const fetchMainProjects = async () => {
+    try {
+      const response = await api.get<Project[]>('/project?type=main');
+      setMainProjects(response.data);
+    } catch (error) {
+      console.error('Failed to load main projects:', error);
     }
-
-    // Sort projects
-    filtered = [...filtered].sort((a, b) => {
-      let aValue: string | number;
-      let bValue: string | number;
-
-      switch (sortBy) {
-        case 'name':
-          aValue = a.name.toLowerCase();
-          bValue = b.name.toLowerCase();
-          break;
-        case 'customer':
-          aValue = (a.customer?.name || '').toLowerCase();
-          bValue = (b.customer?.name || '').toLowerCase();
-          break;
-        case 'manager':
-          aValue = `${a.manager?.lastName || ''} ${a.manager?.firstName || ''}`.toLowerCase();
-          bValue = `${b.manager?.lastName || ''} ${b.manager?.firstName || ''}`.toLowerCase();
-          break;
-        case 'contractDate':
-          aValue = new Date(a.contractDate).getTime();
-          bValue = new Date(b.contractDate).getTime();
-          break;
-        case 'status':
-          aValue = a.status.toLowerCase();
-          bValue = b.status.toLowerCase();
-          break;
-        default:
-          aValue = new Date(a.contractDate).getTime();
-          bValue = new Date(b.contractDate).getTime();
-      }
-
-      if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
-
-    return filtered;
-  }, [projects, statusFilter, searchQuery, sortBy, sortOrder]);
-
-  // Paginate filtered projects
-  const totalPages = Math.ceil(filteredProjects.length / ITEMS_PER_PAGE);
-  const paginatedProjects = useMemo(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    return filteredProjects.slice(startIndex, startIndex + ITEMS_PER_PAGE);
-  }, [filteredProjects, currentPage]);
+  };
 
   const handleFilterChange = (status: string) => {
     const newParams = new URLSearchParams(searchParams);
@@ -318,6 +291,11 @@ export default function ProjectsPage() {
     setSearchParams(newParams);
   };
 
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    if (currentPage !== 1) handlePageChange(1); // Reset to page 1 when search changes
+  };
+
   const handlePageChange = (page: number) => {
     const newParams = new URLSearchParams(searchParams);
     newParams.set('page', page.toString());
@@ -519,6 +497,7 @@ export default function ProjectsPage() {
       });
       toast.success(t('projects.createSuccess'));
       fetchProjects();
+      fetchMainProjects();
       handleCloseAddModal();
     } catch (error) {
       toast.error(t('projects.createError'));
@@ -534,6 +513,7 @@ export default function ProjectsPage() {
       await api.delete(`/project/${deletingProject.id}`);
       toast.success(t('projects.deleteSuccess'));
       fetchProjects();
+      fetchMainProjects();
       handleCloseDeleteModal();
     } catch (error) {
       toast.error(t('projects.deleteError'));
@@ -556,7 +536,7 @@ export default function ProjectsPage() {
             type="text"
             placeholder={t('projects.searchProjects')}
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            onChange={(e) => handleSearchChange(e.target.value)}
             className="w-64 px-3 py-2 pl-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm"
             aria-label={t('projects.searchProjects')}
           />
@@ -565,7 +545,7 @@ export default function ProjectsPage() {
           </svg>
           {searchQuery && (
             <button
-              onClick={() => setSearchQuery('')}
+              onClick={() => handleSearchChange('')}
               className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
               aria-label={t('projects.clearSearch')}
             >
@@ -588,7 +568,7 @@ export default function ProjectsPage() {
         </select>
         {(statusFilter !== 'All' || searchQuery) && (
           <span className="text-sm text-gray-500">
-            {t('projects.showingProjects', { count: filteredProjects.length })}
+            {t('projects.showingProjects', { count: totalProjects })}
           </span>
         )}
       </div>
@@ -598,7 +578,7 @@ export default function ProjectsPage() {
           <div className="p-6 text-center">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
           </div>
-        ) : paginatedProjects.length === 0 ? (
+        ) : projects.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-gray-500">
               {searchQuery
@@ -609,7 +589,7 @@ export default function ProjectsPage() {
             </p>
             {searchQuery && (
               <button
-                onClick={() => setSearchQuery('')}
+                onClick={() => handleSearchChange('')}
                 className="mt-4 text-primary-600 hover:text-primary-800 text-sm font-medium"
               >
                 {t('projects.clearSearch')}
@@ -655,7 +635,7 @@ export default function ProjectsPage() {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {paginatedProjects.map((project) => (
+                {projects.map((project) => (
                   <tr
                     key={project.id}
                     onClick={() => navigate(`/projects/${project.id}`)}
@@ -705,42 +685,7 @@ export default function ProjectsPage() {
         )}
 
         {/* Pagination */}
-        {totalPages > 1 && (
-          <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
-            <div className="text-sm text-gray-500">
-              {t('projects.pageOf', { current: currentPage, total: totalPages })}
-            </div>
-            <div className="flex gap-2">
-              <button
-                onClick={() => handlePageChange(currentPage - 1)}
-                disabled={currentPage === 1}
-                className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {t('common.previous')}
-              </button>
-              {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => (
-                <button
-                  key={page}
-                  onClick={() => handlePageChange(page)}
-                  className={`px-3 py-1 text-sm border rounded ${
-                    page === currentPage
-                      ? 'bg-primary-600 text-white border-primary-600'
-                      : 'border-gray-300 hover:bg-gray-50'
-                  }`}
-                >
-                  {page}
-                </button>
-              ))}
-              <button
-                onClick={() => handlePageChange(currentPage + 1)}
-                disabled={currentPage === totalPages}
-                className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {t('common.next')}
-              </button>
-            </div>
-          </div>
-        )}
+        <Pagination page={currentPage} totalPages={totalPages} onPageChange={handlePageChange} />
       </div>
 
       {/* Edit Modal */}
@@ -943,7 +888,7 @@ export default function ProjectsPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   >
                     <option value="">{t('projects.selectMainProjectOptional')}</option>
-                    {projects.filter(p => p.type === 'main').map(project => (
+                    {mainProjects.map(project => (
                       <option key={project.id} value={project.id}>{project.name}</option>
                     ))}
                   </select>
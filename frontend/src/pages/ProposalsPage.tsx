@@ -0,0 +1,512 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppSelector } from '@/store';
+import { api } from '@/services/auth.service';
+import toast from 'react-hot-toast';
+
+type ProposalStatus = 'New' | 'UnderReview' | 'Accepted' | 'Rejected' | 'Implemented';
+
+const PROPOSAL_STATUSES: ProposalStatus[] = ['New', 'UnderReview', 'Accepted', 'Rejected', 'Implemented'];
+
+interface User {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface ProposalComment {
+  id: string;
+  content: string | null;
+  status: ProposalStatus | null;
+  createdAt: string;
+  author: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    role: string;
+  };
+}
+
+interface Proposal {
+  id: string;
+  userId: string;
+  proposal: string;
+  status: ProposalStatus;
+  createdAt: string;
+  updatedAt: string;
+  user: User;
+  comments?: ProposalComment[];
+  _count?: {
+    comments: number;
+  };
+}
+
+export default function ProposalsPage() {
+  const { t } = useTranslation();
+  const { user } = useAppSelector((state) => state.auth);
+  const isReviewer = user?.role === 'Admin' || user?.role === 'Manager';
+  const canSubmit = user?.role !== 'Trial';
+
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [users, setUsers] = useState<User[]>([]);
+  const [filterUserId, setFilterUserId] = useState<string>('');
+  const [filterStatus, setFilterStatus] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+
+  // Submit form state
+  const [newProposal, setNewProposal] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Detail modal state
+  const [selectedProposal, setSelectedProposal] = useState<Proposal | null>(null);
+  const [loadingDetails, setLoadingDetails] = useState(false);
+  const [statusForm, setStatusForm] = useState<{ status: ProposalStatus; comment: string }>({
+    status: 'New',
+    comment: '',
+  });
+  const [newComment, setNewComment] = useState('');
+  const [savingReview, setSavingReview] = useState(false);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [filterUserId, filterStatus]);
+
+  useEffect(() => {
+    if (isReviewer) {
+      fetchUsers();
+    }
+  }, [isReviewer]);
+
+  const fetchProposals = async () => {
+    try {
+      setLoading(true);
+      if (!isReviewer) {
+        const response = await api.get<Proposal[]>('/proposal/my');
+        setProposals(response.data);
+        return;
+      }
+
+      const params = new URLSearchParams();
+      if (filterUserId) params.append('userId', filterUserId);
+      if (filterStatus) params.append('status', filterStatus);
+      if (search.trim()) params.append('search', search.trim());
+
+      const response = await api.get<Proposal[]>(`/proposal${params.toString() ? '?' + params.toString() : ''}`);
+      setProposals(response.data);
+    } catch (error) {
+      console.error('Failed to fetch proposals:', error);
+      toast.error(t('proposals.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const response = await api.get('/auth');
+      setUsers(response.data);
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+    }
+  };
+
+  const handleSubmitProposal = async () => {
+    if (!newProposal.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await api.post('/proposal/create', { proposal: newProposal.trim() });
+      toast.success(t('proposals.submitSuccess'));
+      setNewProposal('');
+      fetchProposals();
+    } catch (error) {
+      toast.error(t('proposals.submitError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openProposal = async (proposal: Proposal) => {
+    setSelectedProposal(proposal);
+    setStatusForm({ status: proposal.status, comment: '' });
+    setNewComment('');
+    setLoadingDetails(true);
+    try {
+      const response = await api.get<Proposal>(`/proposal/${proposal.id}`);
+      setSelectedProposal(response.data);
+    } catch (error) {
+      toast.error(t('proposals.loadFailed'));
+    } finally {
+      setLoadingDetails(false);
+    }
+  };
+
+  const handleUpdateStatus = async () => {
+    if (!selectedProposal) return;
+
+    setSavingReview(true);
+    try {
+      const response = await api.patch<Proposal>(`/proposal/${selectedProposal.id}/status`, {
+        status: statusForm.status,
+        comment: statusForm.comment.trim() || undefined,
+      });
+      toast.success(t('proposals.statusUpdated'));
+      setSelectedProposal(response.data);
+      setStatusForm({ status: response.data.status, comment: '' });
+      fetchProposals();
+    } catch (error) {
+      toast.error(t('proposals.statusUpdateError'));
+    } finally {
+      setSavingReview(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!selectedProposal || !newComment.trim()) return;
+
+    setSavingReview(true);
+    try {
+      await api.post(`/proposal/${selectedProposal.id}/comments`, { content: newComment.trim() });
+      toast.success(t('proposals.commentAdded'));
+      setNewComment('');
+      const response = await api.get<Proposal>(`/proposal/${selectedProposal.id}`);
+      setSelectedProposal(response.data);
+      fetchProposals();
+    } catch (error) {
+      toast.error(t('proposals.commentError'));
+    } finally {
+      setSavingReview(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const getStatusBadgeColor = (status: ProposalStatus) => {
+    switch (status) {
+      case 'New':
+        return 'bg-blue-100 text-blue-800';
+      case 'UnderReview':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'Accepted':
+        return 'bg-green-100 text-green-800';
+      case 'Rejected':
+        return 'bg-red-100 text-red-800';
+      case 'Implemented':
+        return 'bg-purple-100 text-purple-800';
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="page-title">{isReviewer ? t('proposals.title') : t('proposals.myProposals')}</h1>
+      </div>
+
+      {/* Submit Proposal */}
+      {canSubmit && (
+        <div className="card p-4 mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {t('proposals.newProposal')}
+          </label>
+          <textarea
+            value={newProposal}
+            onChange={(e) => setNewProposal(e.target.value)}
+            rows={3}
+            placeholder={t('proposals.proposalPlaceholder')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={handleSubmitProposal}
+              disabled={submitting || !newProposal.trim()}
+              className="btn-primary disabled:opacity-50"
+            >
+              {submitting ? `${t('proposals.submitting')}...` : t('proposals.submit')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      {isReviewer && (
+        <div className="card p-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('proposals.filterByUser')}
+              </label>
+              <select
+                value={filterUserId}
+                onChange={(e) => setFilterUserId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">{t('proposals.allUsers')}</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>
+                    {u.firstName} {u.lastName} ({u.email})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('proposals.filterByStatus')}
+              </label>
+              <select
+                value={filterStatus}
+                onChange={(e) => setFilterStatus(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">{t('proposals.allStatuses')}</option>
+                {PROPOSAL_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {t(`proposals.statuses.${status}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('common.search')}
+              </label>
+              <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && fetchProposals()}
+                placeholder={t('proposals.searchPlaceholder')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Proposals List */}
+      <div className="card">
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">{t('common.loading')}</div>
+        ) : proposals.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            {t('proposals.noProposals')}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('proposals.date')}
+                  </th>
+                  {isReviewer && (
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t('proposals.author')}
+                    </th>
+                  )}
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('proposals.proposal')}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('proposals.status')}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('proposals.comments')}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('common.actions')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {proposals.map((proposal) => (
+                  <tr key={proposal.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(proposal.createdAt)}
+                    </td>
+                    {isReviewer && (
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {proposal.user.firstName} {proposal.user.lastName}
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-sm text-gray-500 max-w-xs truncate">
+                      {proposal.proposal}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(proposal.status)}`}>
+                        {t(`proposals.statuses.${proposal.status}`)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {proposal._count?.comments ?? 0}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => openProposal(proposal)}
+                        className="text-primary-600 hover:text-primary-800 font-medium"
+                      >
+                        {t('proposals.viewDetails')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Proposal Detail Modal */}
+      {selectedProposal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">{t('proposals.proposalDetails')}</h2>
+              <button
+                onClick={() => setSelectedProposal(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)]">
+              <div className="space-y-4">
+                <div className="flex gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">{t('proposals.author')}</label>
+                    <p className="text-gray-900">
+                      {selectedProposal.user.firstName} {selectedProposal.user.lastName}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">{t('proposals.date')}</label>
+                    <p className="text-gray-900">{formatDate(selectedProposal.createdAt)}</p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-500">{t('proposals.status')}</label>
+                    <p>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(selectedProposal.status)}`}>
+                        {t(`proposals.statuses.${selectedProposal.status}`)}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-500">{t('proposals.proposal')}</label>
+                  <div className="mt-2 p-4 bg-gray-50 rounded-lg whitespace-pre-wrap text-gray-900">
+                    {selectedProposal.proposal}
+                  </div>
+                </div>
+
+                {/* Review history */}
+                <div>
+                  <label className="text-sm font-medium text-gray-500">{t('proposals.history')}</label>
+                  {loadingDetails ? (
+                    <p className="text-sm text-gray-500 mt-2">{t('common.loading')}</p>
+                  ) : selectedProposal.comments && selectedProposal.comments.length > 0 ? (
+                    <div className="mt-2 space-y-3">
+                      {selectedProposal.comments.map((comment) => (
+                        <div key={comment.id} className="p-3 border border-gray-200 rounded-lg">
+                          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                            <span>
+                              {comment.author.firstName} {comment.author.lastName}
+                            </span>
+                            <span>{formatDate(comment.createdAt)}</span>
+                          </div>
+                          {comment.status && (
+                            <p className="text-sm text-gray-700 mb-1">
+                              {t('proposals.statusChangedTo')}{' '}
+                              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusBadgeColor(comment.status)}`}>
+                                {t(`proposals.statuses.${comment.status}`)}
+                              </span>
+                            </p>
+                          )}
+                          {comment.content && (
+                            <p className="text-sm text-gray-900 whitespace-pre-wrap">{comment.content}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 mt-2">{t('proposals.noHistory')}</p>
+                  )}
+                </div>
+
+                {/* Review actions */}
+                {isReviewer && (
+                  <>
+                    <div className="border-t border-gray-200 pt-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {t('proposals.changeStatus')}
+                      </label>
+                      <div className="flex flex-col md:flex-row gap-2">
+                        <select
+                          value={statusForm.status}
+                          onChange={(e) => setStatusForm({ ...statusForm, status: e.target.value as ProposalStatus })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        >
+                          {PROPOSAL_STATUSES.map((status) => (
+                            <option key={status} value={status}>
+                              {t(`proposals.statuses.${status}`)}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={statusForm.comment}
+                          onChange={(e) => setStatusForm({ ...statusForm, comment: e.target.value })}
+                          placeholder={t('proposals.statusCommentPlaceholder')}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                        />
+                        <button
+                          onClick={handleUpdateStatus}
+                          disabled={savingReview || statusForm.status === selectedProposal.status}
+                          className="btn-primary disabled:opacity-50"
+                        >
+                          {t('common.update')}
+                        </button>
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {t('proposals.addComment')}
+                      </label>
+                      <textarea
+                        value={newComment}
+                        onChange={(e) => setNewComment(e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                      />
+                      <div className="flex justify-end mt-2">
+                        <button
+                          onClick={handleAddComment}
+                          disabled={savingReview || !newComment.trim()}
+                          className="btn-primary disabled:opacity-50"
+                        >
+                          {t('proposals.addComment')}
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="p-4 border-t border-gray-200 flex justify-end">
+              <button
+                onClick={() => setSelectedProposal(null)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+              >
+                {t('common.close')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { Fragment, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/services/auth.service';
+import toast from 'react-hot-toast';
+import Pagination from '@/components/common/Pagination';
+import type { PaginatedResponse } from '@/types';
+
+const ITEMS_PER_PAGE = 20;
+
+type ReminderChannel = 'InApp' | 'Email' | 'Telegram';
+
+const CHANNELS: ReminderChannel[] = ['InApp', 'Email', 'Telegram'];
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+interface ScheduleEntry {
+  weekday: number;
+  time: string;
+  enabled: boolean;
+}
+
+interface ReminderSettings {
+  enabled: boolean;
+  channels: ReminderChannel[];
+  escalateAfterDays: number;
+  lookbackDays: number;
+  schedule: ScheduleEntry[];
+}
+
+interface RunDetail {
+  userId: string;
+  name: string;
+  missedDays: string[];
+  consecutiveMissed: number;
+  channels: ReminderChannel[];
+  escalatedTo: string[];
+}
+
+interface ReminderRun {
+  id: string;
+  trigger: 'Scheduled' | 'Manual';
+  status: 'Running' | 'Succeeded' | 'Failed';
+  checkedUsers: number;
+  remindersSent: number;
+  escalationsSent: number;
+  details: RunDetail[] | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  triggeredBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+export default function RemindersPage() {
+  const { t } = useTranslation();
+
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runs, setRuns] = useState<ReminderRun[]>([]);
+  const [loadingRuns, setLoadingRuns] = useState(true);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [currentPage]);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await api.get<ReminderSettings>('/reminders/settings');
+      setSettings(response.data);
+    } catch (error) {
+      console.error('Failed to fetch reminder settings:', error);
+      toast.error(t('reminders.loadError'));
+    }
+  };
+
+  const fetchRuns = async () => {
+    try {
+      setLoadingRuns(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+      const response = await api.get<PaginatedResponse<ReminderRun>>(`/reminders/runs?${params}`);
+      setRuns(response.data.data);
+      setTotalPages(response.data.totalPages);
+    } catch (error) {
+      console.error('Failed to fetch reminder runs:', error);
+      toast.error(t('reminders.loadError'));
+    } finally {
+      setLoadingRuns(false);
+    }
+  };
+
+  // Weekdays without a schedule row are shown as disabled at 18:00
+  const getScheduleEntry = (weekday: number): ScheduleEntry =>
+    settings?.schedule.find((s) => s.weekday === weekday) ?? { weekday, time: '18:00', enabled: false };
+
+  const updateScheduleEntry = (weekday: number, changes: Partial<ScheduleEntry>) => {
+    if (!settings) return;
+    const schedule = WEEKDAYS.map((day) =>
+      day === weekday ? { ...getScheduleEntry(day), ...changes } : getScheduleEntry(day)
+    );
+    setSettings({ ...settings, schedule });
+  };
+
+  const toggleChannel = (channel: ReminderChannel) => {
+    if (!settings) return;
+    const channels = settings.channels.includes(channel)
+      ? settings.channels.filter((c) => c !== channel)
+      : [...settings.channels, channel];
+    setSettings({ ...settings, channels });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      const response = await api.put<ReminderSettings>('/reminders/settings', {
+        enabled: settings.enabled,
+        channels: settings.channels,
+        escalateAfterDays: settings.escalateAfterDays,
+        lookbackDays: settings.lookbackDays,
+        schedule: WEEKDAYS.map((day) => {
+          const { weekday, time, enabled } = getScheduleEntry(day);
+          return { weekday, time, enabled };
+        }),
+      });
+      setSettings(response.data);
+      toast.success(t('reminders.saveSuccess'));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('reminders.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const response = await api.post<ReminderRun>('/reminders/run');
+      toast.success(t('reminders.runFinished', { count: response.data.remindersSent }));
+      if (currentPage === 1) {
+        fetchRuns();
+      } else {
+        setCurrentPage(1);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('reminders.runError'));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const getStatusBadgeColor = (status: ReminderRun['status']) => {
+    switch (status) {
+      case 'Succeeded':
+        return 'bg-green-100 text-green-800';
+      case 'Failed':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-yellow-100 text-yellow-800';
+    }
+  };
+
+  const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="page-title">{t('reminders.title')}</h1>
+          <p className="text-sm text-gray-500 mt-1">{t('reminders.description')}</p>
+        </div>
+        <button onClick={handleRunNow} disabled={isRunning} className="btn-secondary">
+          {isRunning ? t('reminders.running') : t('reminders.runNow')}
+        </button>
+      </div>
+
+      {/* Settings */}
+      <div className="card p-6 mb-6">
+        {!settings ? (
+          <div className="text-center text-gray-500">{t('common.loading')}</div>
+        ) : (
+          <div className="space-y-6">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => setSettings({ ...settings, enabled: e.target.checked })}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              {t('reminders.enabled')}
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <span className="label">{t('reminders.channels')}</span>
+                <div className="space-y-2">
+                  {CHANNELS.map((channel) => (
+                    <label key={channel} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={settings.channels.includes(channel)}
+                        onChange={() => toggleChannel(channel)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      {t(`reminders.channelNames.${channel}`)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="escalateAfterDays" className="label">
+                  {t('reminders.escalateAfterDays')}
+                </label>
+                <input
+                  id="escalateAfterDays"
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={settings.escalateAfterDays}
+                  onChange={(e) => setSettings({ ...settings, escalateAfterDays: Number(e.target.value) })}
+                  className="input"
+                />
+                <p className="text-xs text-gray-500 mt-1">{t('reminders.escalateAfterDaysHint')}</p>
+              </div>
+              <div>
+                <label htmlFor="lookbackDays" className="label">
+                  {t('reminders.lookbackDays')}
+                </label>
+                <input
+                  id="lookbackDays"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={settings.lookbackDays}
+                  onChange={(e) => setSettings({ ...settings, lookbackDays: Number(e.target.value) })}
+                  className="input"
+                />
+              </div>
+            </div>
+
+            <div>
+              <span className="label">{t('reminders.schedule')}</span>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+                {WEEKDAYS.map((weekday) => {
+                  const entry = getScheduleEntry(weekday);
+                  return (
+                    <div key={weekday} className="flex items-center gap-3 border border-gray-200 rounded-lg px-3 py-2">
+                      <label className="flex items-center gap-2 text-sm text-gray-700 flex-1">
+                        <input
+                          type="checkbox"
+                          checked={entry.enabled}
+                          onChange={(e) => updateScheduleEntry(weekday, { enabled: e.target.checked })}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                        {t(`reminders.weekdays.${weekday}`)}
+                      </label>
+                      <input
+                        type="time"
+                        value={entry.time}
+                        disabled={!entry.enabled}
+                        onChange={(e) => updateScheduleEntry(weekday, { time: e.target.value })}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded disabled:opacity-50"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button onClick={handleSave} disabled={isSaving} className="btn-primary">
+                {isSaving ? t('common.saving') : t('common.save')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Run history */}
+      <div className="card">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">{t('reminders.runHistory')}</h2>
+        </div>
+        {loadingRuns ? (
+          <div className="p-6 text-center text-gray-500">{t('common.loading')}</div>
+        ) : runs.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('reminders.noRuns')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t('reminders.startedAt')}</th>
+                  <th className={headerClass}>{t('reminders.trigger')}</th>
+                  <th className={headerClass}>{t('reminders.status')}</th>
+                  <th className={headerClass}>{t('reminders.checkedUsers')}</th>
+                  <th className={headerClass}>{t('reminders.remindersSent')}</th>
+                  <th className={headerClass}>{t('reminders.escalationsSent')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <tr
+                      onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(run.startedAt)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {run.trigger === 'Manual' && run.triggeredBy
+                          ? `${t('reminders.triggers.Manual')} (${run.triggeredBy.firstName} ${run.triggeredBy.lastName})`
+                          : t(`reminders.triggers.${run.trigger}`)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(run.status)}`}>
+                          {t(`reminders.statuses.${run.status}`)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{run.checkedUsers}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{run.remindersSent}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{run.escalationsSent}</td>
+                    </tr>
+                    {expandedRunId === run.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-4 py-3 text-sm text-gray-700">
+                          {run.error && <p className="text-red-600 mb-2">{run.error}</p>}
+                          {!run.details || run.details.length === 0 ? (
+                            <p className="text-gray-500">{t('reminders.noDetails')}</p>
+                          ) : (
+                            <ul className="space-y-1">
+                              {run.details.map((detail) => (
+                                <li key={detail.userId}>
+                                  <span className="font-medium">{detail.name}</span>
+                                  {' — '}
+                                  {t('reminders.detailMissed', {
+                                    count: detail.missedDays.length,
+                                    streak: detail.consecutiveMissed,
+                                  })}
+                                  {detail.channels.length > 0 &&
+                                    ` · ${detail.channels.map((c) => t(`reminders.channelNames.${c}`)).join(', ')}`}
+                                  {detail.escalatedTo.length > 0 &&
+                                    ` · ${t('reminders.detailEscalated', { count: detail.escalatedTo.length })}`}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Pagination page={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+      </div>
+    </div>
+  );
+}
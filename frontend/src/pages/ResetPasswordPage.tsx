@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+import { authService } from '@/services/auth.service';
+
+const resetSchema = (t: (key: string) => string) =>
+  z
+    .object({
+      newPassword: z.string().min(8, t('profile.passwordMinLength')),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+      message: t('profile.passwordMismatch'),
+      path: ['confirmPassword'],
+    });
+
+type ResetFormData = z.infer<ReturnType<typeof resetSchema>>;
+
+export default function ResetPasswordPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ResetFormData>({
+    resolver: zodResolver(resetSchema(t)),
+  });
+
+  const onSubmit = async (data: ResetFormData) => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      await authService.resetPassword(token, data.newPassword);
+      toast.success(t('auth.passwordResetSuccess'));
+      navigate('/login');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('auth.passwordResetFailed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-600 to-primary-800 px-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900">ProjectDB</h1>
+            <p className="text-gray-600 mt-2">{t('auth.resetPasswordTitle')}</p>
+          </div>
+
+          {!token ? (
+            <p className="text-center text-red-600">{t('auth.resetLinkInvalid')}</p>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <div>
+                <label htmlFor="newPassword" className="label">
+                  {t('profile.newPassword')}
+                </label>
+                <input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  className={`input ${errors.newPassword ? 'input-error' : ''}`}
+                  placeholder={t('profile.enterNewPassword')}
+                  {...register('newPassword')}
+                />
+                {errors.newPassword && (
+                  <p className="error-message">{errors.newPassword.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="label">
+                  {t('profile.confirmPassword')}
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  className={`input ${errors.confirmPassword ? 'input-error' : ''}`}
+                  placeholder={t('profile.confirmNewPassword')}
+                  {...register('confirmPassword')}
+                />
+                {errors.confirmPassword && (
+                  <p className="error-message">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <button type="submit" disabled={isLoading} className="btn-primary w-full py-3">
+                {isLoading ? t('common.loading') : t('profile.updatePassword')}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link to="/login" className="text-sm text-primary-600 hover:text-primary-800">
+              {t('auth.backToLogin')}
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
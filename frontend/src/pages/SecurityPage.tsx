@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/services/auth.service';
+import toast from 'react-hot-toast';
+import Pagination from '@/components/common/Pagination';
+import type { PaginatedResponse } from '@/types';
+
+const ITEMS_PER_PAGE = 50;
+
+type LoginAttemptResult = 'Success' | 'InvalidCredentials' | 'Locked' | 'Throttled';
+
+interface LockedAccount {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: string;
+  lockedUntil: string;
+}
+
+interface LoginAttempt {
+  id: string;
+  email: string;
+  result: LoginAttemptResult;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  user: { id: string; firstName: string; lastName: string } | null;
+}
+
+export default function SecurityPage() {
+  const { t } = useTranslation();
+
+  const [lockedAccounts, setLockedAccounts] = useState<LockedAccount[]>([]);
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<LoginAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filterResult, setFilterResult] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+
+  useEffect(() => {
+    fetchLockedAccounts();
+  }, []);
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [filterResult, currentPage]);
+
+  const fetchLockedAccounts = async () => {
+    try {
+      const response = await api.get<LockedAccount[]>('/auth/lockouts');
+      setLockedAccounts(response.data);
+    } catch (error) {
+      console.error('Failed to fetch locked accounts:', error);
+      toast.error(t('security.loadError'));
+    }
+  };
+
+  const fetchAttempts = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: ITEMS_PER_PAGE.toString(),
+      });
+      if (filterResult) params.append('result', filterResult);
+      if (search.trim()) params.append('search', search.trim());
+
+      const response = await api.get<PaginatedResponse<LoginAttempt>>(`/auth/login-attempts?${params}`);
+      setAttempts(response.data.data);
+      setTotalPages(response.data.totalPages);
+    } catch (error) {
+      console.error('Failed to fetch login attempts:', error);
+      toast.error(t('security.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlock = async (account: LockedAccount) => {
+    setUnlockingId(account.id);
+    try {
+      await api.delete(`/auth/lockouts/${account.id}`);
+      toast.success(t('security.unlockSuccess', { email: account.email }));
+      fetchLockedAccounts();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('security.unlockError'));
+    } finally {
+      setUnlockingId(null);
+    }
+  };
+
+  const handleSearch = () => {
+    if (currentPage === 1) {
+      fetchAttempts();
+    } else {
+      setCurrentPage(1);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const getResultBadgeColor = (result: LoginAttemptResult) => {
+    switch (result) {
+      case 'Success':
+        return 'bg-green-100 text-green-800';
+      case 'InvalidCredentials':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-red-100 text-red-800';
+    }
+  };
+
+  const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="mb-6">
+        <h1 className="page-title">{t('security.title')}</h1>
+        <p className="text-sm text-gray-500 mt-1">{t('security.description')}</p>
+      </div>
+
+      {/* Locked accounts */}
+      <div className="card mb-6">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">
+            {t('security.lockedAccounts')} ({lockedAccounts.length})
+          </h2>
+        </div>
+        {lockedAccounts.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('security.noLockedAccounts')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t('security.user')}</th>
+                  <th className={headerClass}>{t('security.email')}</th>
+                  <th className={headerClass}>{t('security.lockedUntil')}</th>
+                  <th className={headerClass}>{t('common.actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {lockedAccounts.map((account) => (
+                  <tr key={account.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {account.firstName} {account.lastName}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{account.email}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(account.lockedUntil)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => handleUnlock(account)}
+                        disabled={unlockingId === account.id}
+                        className="text-primary-600 hover:text-primary-800 font-medium disabled:opacity-50"
+                      >
+                        {t('security.unlock')}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Login attempts */}
+      <div className="card">
+        <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <h2 className="text-lg font-semibold">{t('security.loginAttempts')}</h2>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <select
+              value={filterResult}
+              onChange={(e) => {
+                setFilterResult(e.target.value);
+                setCurrentPage(1);
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">{t('security.allResults')}</option>
+              <option value="Success">{t('security.results.Success')}</option>
+              <option value="InvalidCredentials">{t('security.results.InvalidCredentials')}</option>
+              <option value="Locked">{t('security.results.Locked')}</option>
+              <option value="Throttled">{t('security.results.Throttled')}</option>
+            </select>
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              placeholder={t('security.searchPlaceholder')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+        </div>
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">{t('common.loading')}</div>
+        ) : attempts.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('security.noAttempts')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t('security.date')}</th>
+                  <th className={headerClass}>{t('security.email')}</th>
+                  <th className={headerClass}>{t('security.result')}</th>
+                  <th className={headerClass}>{t('security.ipAddress')}</th>
+                  <th className={headerClass}>{t('security.device')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {attempts.map((attempt) => (
+                  <tr key={attempt.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(attempt.createdAt)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {attempt.email}
+                      {!attempt.user && (
+                        <span className="ml-2 text-xs text-gray-400">{t('security.unknownUser')}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${getResultBadgeColor(attempt.result)}`}>
+                        {t(`security.results.${attempt.result}`)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {attempt.ipAddress || '-'}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 max-w-xs truncate" title={attempt.userAgent || ''}>
+                      {attempt.userAgent || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Pagination page={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+      </div>
+    </div>
+  );
+}
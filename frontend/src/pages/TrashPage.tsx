@@ -0,0 +1,273 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '@/services/auth.service';
+import toast from 'react-hot-toast';
+
+type TrashSection = 'projects' | 'companies' | 'documents';
+
+interface DeletedProject {
+  id: string;
+  name: string;
+  deletedAt: string;
+  customer: { id: string; name: string } | null;
+  manager: { id: string; firstName: string; lastName: string } | null;
+  _count: {
+    constructions: number;
+    documents: number;
+  };
+}
+
+interface DeletedCompany {
+  id: string;
+  name: string;
+  type: string;
+  deletedAt: string;
+  _count: {
+    projects: number;
+  };
+}
+
+interface DeletedDocument {
+  id: string;
+  originalName: string;
+  version: number;
+  deletedAt: string;
+  uploadedBy: { id: string; firstName: string; lastName: string } | null;
+  project: { id: string; name: string; deletedAt: string | null };
+}
+
+interface TrashContents {
+  projects: DeletedProject[];
+  companies: DeletedCompany[];
+  documents: DeletedDocument[];
+}
+
+export default function TrashPage() {
+  const { t } = useTranslation();
+
+  const [trash, setTrash] = useState<TrashContents>({ projects: [], companies: [], documents: [] });
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get<TrashContents>('/trash');
+      setTrash(response.data);
+    } catch (error) {
+      console.error('Failed to fetch trash:', error);
+      toast.error(t('trash.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (section: TrashSection, id: string) => {
+    setProcessingId(id);
+    try {
+      await api.patch(`/trash/${section}/${id}/restore`);
+      toast.success(t('trash.restoreSuccess'));
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('trash.restoreError'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handlePurge = async (section: TrashSection, id: string) => {
+    if (!confirm(t('trash.purgeConfirm'))) return;
+
+    setProcessingId(id);
+    try {
+      await api.delete(`/trash/${section}/${id}`);
+      toast.success(t('trash.purgeSuccess'));
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('trash.purgeError'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const renderActions = (section: TrashSection, id: string) => (
+    <td className="px-4 py-3 whitespace-nowrap text-sm">
+      <div className="flex gap-3">
+        <button
+          onClick={() => handleRestore(section, id)}
+          disabled={processingId === id}
+          className="text-primary-600 hover:text-primary-800 font-medium disabled:opacity-50"
+        >
+          {t('trash.restore')}
+        </button>
+        <button
+          onClick={() => handlePurge(section, id)}
+          disabled={processingId === id}
+          className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+        >
+          {t('trash.purge')}
+        </button>
+      </div>
+    </td>
+  );
+
+  const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  if (loading) {
+    return (
+      <div className="p-4 md:p-6">
+        <h1 className="page-title mb-6">{t('trash.title')}</h1>
+        <div className="card p-6 text-center text-gray-500">{t('common.loading')}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="mb-6">
+        <h1 className="page-title">{t('trash.title')}</h1>
+        <p className="text-sm text-gray-500 mt-1">{t('trash.description')}</p>
+      </div>
+
+      {/* Projects */}
+      <div className="card mb-6">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">
+            {t('trash.projects')} ({trash.projects.length})
+          </h2>
+        </div>
+        {trash.projects.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('trash.empty')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t('trash.name')}</th>
+                  <th className={headerClass}>{t('projects.customer')}</th>
+                  <th className={headerClass}>{t('trash.contents')}</th>
+                  <th className={headerClass}>{t('trash.deletedAt')}</th>
+                  <th className={headerClass}>{t('common.actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {trash.projects.map((project) => (
+                  <tr key={project.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{project.name}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {project.customer?.name || '-'}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {t('trash.projectContents', {
+                        constructions: project._count.constructions,
+                        documents: project._count.documents,
+                      })}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(project.deletedAt)}
+                    </td>
+                    {renderActions('projects', project.id)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Companies */}
+      <div className="card mb-6">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">
+            {t('trash.companies')} ({trash.companies.length})
+          </h2>
+        </div>
+        {trash.companies.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('trash.empty')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t('trash.name')}</th>
+                  <th className={headerClass}>{t('trash.contents')}</th>
+                  <th className={headerClass}>{t('trash.deletedAt')}</th>
+                  <th className={headerClass}>{t('common.actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {trash.companies.map((company) => (
+                  <tr key={company.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{company.name}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {t('trash.companyContents', { projects: company._count.projects })}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(company.deletedAt)}
+                    </td>
+                    {renderActions('companies', company.id)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Documents */}
+      <div className="card">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold">
+            {t('trash.documents')} ({trash.documents.length})
+          </h2>
+        </div>
+        {trash.documents.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">{t('trash.empty')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t('trash.name')}</th>
+                  <th className={headerClass}>{t('trash.project')}</th>
+                  <th className={headerClass}>{t('trash.deletedAt')}</th>
+                  <th className={headerClass}>{t('common.actions')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {trash.documents.map((document) => (
+                  <tr key={document.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {document.originalName}
+                      <span className="ml-2 text-xs text-gray-400">v{document.version}</span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {document.project.name}
+                      {document.project.deletedAt && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                          {t('trash.projectInTrash')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(document.deletedAt)}
+                    </td>
+                    {renderActions('documents', document.id)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { api } from '@/services/auth.service';
+import { api, fetchAllPages } from '@/services/auth.service';
 import { useAppSelector } from '@/store';
 import toast from 'react-hot-toast';
+import BulkPlanModal from '@/components/workload/BulkPlanModal';
+import ReconciliationView from '@/components/workload/ReconciliationView';
+import TimesheetInbox from '@/components/workload/TimesheetInbox';
 
 // Custom hook for responsive breakpoints
 function useResponsiveView() {
@@ -41,24 +44,38 @@ interface Employee {
   role: string;
 }
 
+// One project allocation of an employee's day
 interface WorkloadPlanEntry {
   id: string;
   user: { id: string; firstName: string; lastName: string };
   project: { id: string; name: string };
+  hours: number;
   manager: { id: string; firstName: string; lastName: string };
 }
 
+type TimesheetStatus = 'Draft' | 'Submitted' | 'Approved' | 'Rejected';
+
+const TIMESHEET_STATUS_CLASSES: Record<TimesheetStatus, string> = {
+  Draft: 'bg-gray-100 text-gray-700',
+  Submitted: 'bg-blue-100 text-blue-800',
+  Approved: 'bg-green-200 text-green-900',
+  Rejected: 'bg-red-100 text-red-800',
+};
+
 interface WorkloadActualEntry {
   id: string;
   date: string;
   hoursWorked: number;
   userText?: string;
+  status: TimesheetStatus;
   distributions?: {
     id: string;
     projectId: string;
     project: { id: string; name: string };
     hours: number;
     description?: string;
+    status: TimesheetStatus;
+    reviewComment?: string | null;
   }[];
 }
 
@@ -79,6 +96,28 @@ interface WorkloadActualEntryWithUser extends WorkloadActualEntry {
   user: { id: string; firstName: string; lastName: string };
 }
 
+interface AbsenceEntry {
+  id: string;
+  type: 'Vacation' | 'SickLeave' | 'BusinessTrip' | 'DayOff';
+  status: 'Pending' | 'Approved' | 'Rejected';
+  startDate: string;
+  endDate: string;
+  user: { id: string; firstName: string; lastName: string };
+}
+
+// Absences of the month grouped by every day they cover
+interface AbsenceCalendarData {
+  [date: string]: AbsenceEntry[];
+}
+
+// Production calendar day, weekends and holidays have 0 hours
+interface ProductionCalendarDay {
+  date: string;
+  type: 'Working' | 'Short' | 'NonWorking';
+  hours: number;
+  name: string | null;
+}
+
 export default function WorkloadPage() {
   const { t } = useTranslation();
   const { user } = useAppSelector((state) => state.auth);
@@ -121,7 +160,9 @@ export default function WorkloadPage() {
   });
 
   // Tab state: 'plan' for managers, 'actual' for employees logging hours
-  const [activeTab, setActiveTab] = useState<'plan' | 'actual'>(isEmployee ? 'actual' : 'plan');
+  const [activeTab, setActiveTab] = useState<'plan' | 'actual' | 'reconciliation' | 'approvals'>(
+    isEmployee ? 'actual' : 'plan',
+  );
 
   // Actual workload data
   const [actualCalendarData, setActualCalendarData] = useState<ActualCalendarData>({});
@@ -129,13 +170,21 @@ export default function WorkloadPage() {
   // All employees' actual workload data (for "All Employees" mode)
   const [allEmployeesActualData, setAllEmployeesActualData] = useState<AllEmployeesActualData>({});
 
+  // Approved and pending absences shown on the plan calendar
+  const [absenceData, setAbsenceData] = useState<AbsenceCalendarData>({});
+  const [productionCalendar, setProductionCalendar] = useState<Record<string, ProductionCalendarDay>>({});
+
   // Add workload modal state
   const [showAddModal, setShowAddModal] = useState(false);
   const [selectedDate, setSelectedDate] = useState<string>('');
   const [newPlanEmployee, setNewPlanEmployee] = useState<string>('');
   const [newPlanProject, setNewPlanProject] = useState<string>('');
+  const [newPlanHours, setNewPlanHours] = useState<string>(''); // empty - the free hours of the day
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Bulk planning modal (assign a range, copy a period, clear a range)
+  const [showBulkModal, setShowBulkModal] = useState(false);
+
   // Modal to show employees with work on a specific date (All Employees mode)
   const [showDateEmployeesModal, setShowDateEmployeesModal] = useState(false);
   const [dateEmployeesModalDate, setDateEmployeesModalDate] = useState<string>('');
@@ -145,13 +194,21 @@ export default function WorkloadPage() {
   const [editingPlan, setEditingPlan] = useState<WorkloadPlanEntry | null>(null);
   const [editingPlanDate, setEditingPlanDate] = useState<string>('');
   const [editPlanProject, setEditPlanProject] = useState<string>('');
+  const [editPlanHours, setEditPlanHours] = useState<string>('');
 
   // Add actual hours modal state
   const [showAddActualModal, setShowAddActualModal] = useState(false);
   const [actualDate, setActualDate] = useState<string>('');
   const [actualHours, setActualHours] = useState<string>('8');
   const [actualNotes, setActualNotes] = useState<string>('');
-  const [actualDistributions, setActualDistributions] = useState<{ projectId: string; hours: string; description: string }[]>([]);
+  // Approved hours are locked: the manager's sign-off stays with them when the day is edited
+  const [actualDistributions, setActualDistributions] = useState<
+    { projectId: string; hours: string; description: string; locked?: boolean }[]
+  >([]);
+  // The modal rewrites an existing report of the day instead of creating one
+  const [isEditingActual, setIsEditingActual] = useState(false);
+  // Closed months (YYYY-MM) of the shown year, their reports are read-only
+  const [closedMonths, setClosedMonths] = useState<Set<string>>(new Set());
 
   // Filter projects based on user role: Managers see only their managed projects, Admins see all
   const projectsForDropdown = isOnlyManager ? managedProjects : projects;
@@ -166,10 +223,13 @@ export default function WorkloadPage() {
       fetchCalendarData();
       fetchActualCalendarData(); // Also fetch actual data to show green backgrounds
       fetchAllEmployeesActualData(); // Fetch all employees' actual data for "All Employees" mode
-    } else {
+      fetchAbsences();
+      fetchProductionCalendar();
+    } else if (activeTab === 'actual') {
       // Feature #335: Also fetch plan data in "My Hours" tab to show planned workload for current/future dates
       fetchCalendarData();
       fetchActualCalendarData();
+      fetchClosedMonths();
     }
   }, [currentMonth, selectedProject, selectedEmployee, activeTab]);
 
@@ -271,15 +331,13 @@ export default function WorkloadPage() {
       const startDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
       const endDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
 
-      const params = new URLSearchParams({
+      const entries = await fetchAllPages<WorkloadActualEntryWithUser>('/workload-actual', {
         startDate: startDate.toISOString(),
         endDate: endDate.toISOString(),
       });
-
-      const response = await api.get(`/workload-actual?${params}`);
       // Group by date
       const groupedData: AllEmployeesActualData = {};
-      response.data.forEach((entry: WorkloadActualEntryWithUser) => {
+      entries.forEach((entry) => {
         const d = new Date(entry.date);
         const dateKey = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
         if (!groupedData[dateKey]) {
@@ -293,6 +351,74 @@ export default function WorkloadPage() {
     }
   };
 
+  const fetchAbsences = async () => {
+    try {
+      const startDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+      const endDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+
+      const params = new URLSearchParams({
+        startDate: formatDateKey(startDate),
+        endDate: formatDateKey(endDate),
+      });
+      if (selectedEmployee && isManager) params.append('userId', selectedEmployee);
+
+      const response = await api.get<AbsenceEntry[]>(`/absence?${params}`);
+      const groupedData: AbsenceCalendarData = {};
+      response.data
+        .filter((absence) => absence.status !== 'Rejected')
+        .forEach((absence) => {
+          const endKey = absence.endDate.slice(0, 10);
+          for (
+            const d = new Date(`${absence.startDate.slice(0, 10)}T00:00:00`);
+            formatDateKey(d) <= endKey;
+            d.setDate(d.getDate() + 1)
+          ) {
+            const dateKey = formatDateKey(d);
+            if (!groupedData[dateKey]) {
+              groupedData[dateKey] = [];
+            }
+            groupedData[dateKey].push(absence);
+          }
+        });
+      setAbsenceData(groupedData);
+    } catch (error) {
+      console.error('Failed to fetch absences:', error);
+    }
+  };
+
+  const fetchProductionCalendar = async () => {
+    try {
+      // A week on both sides covers the days of neighbouring months shown in the grid
+      const startDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), -6);
+      const endDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 7);
+
+      const params = new URLSearchParams({
+        startDate: formatDateKey(startDate),
+        endDate: formatDateKey(endDate),
+      });
+      const response = await api.get<ProductionCalendarDay[]>(`/production-calendar?${params}`);
+      setProductionCalendar(Object.fromEntries(response.data.map((day) => [day.date, day])));
+    } catch (error) {
+      console.error('Failed to fetch production calendar:', error);
+    }
+  };
+
+  const fetchClosedMonths = async () => {
+    try {
+      const year = currentMonth.getFullYear();
+      const response = await api.get<{ month: number; closed: boolean }[]>(`/period-close?year=${year}`);
+      setClosedMonths(
+        new Set(
+          response.data
+            .filter((period) => period.closed)
+            .map((period) => `${year}-${String(period.month).padStart(2, '0')}`),
+        ),
+      );
+    } catch (error) {
+      console.error('Failed to fetch closed periods:', error);
+    }
+  };
+
   const handlePrevMonth = () => {
     setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1));
   };
@@ -409,6 +535,7 @@ export default function WorkloadPage() {
     }
     setSelectedDate(date);
     setNewPlanEmployee('');
+    setNewPlanHours('');
     // If a specific project is selected in the filter, pre-select it in the modal
     setNewPlanProject(selectedProject || '');
     setShowAddModal(true);
@@ -426,6 +553,7 @@ export default function WorkloadPage() {
         userId: newPlanEmployee,
         projectId: newPlanProject,
         date: selectedDate,
+        hours: newPlanHours ? Number(newPlanHours) : undefined,
       });
       toast.success(t('workload.workloadSaved'));
       setShowAddModal(false);
@@ -475,6 +603,7 @@ export default function WorkloadPage() {
     setEditingPlan(plan);
     setEditingPlanDate(dateKey);
     setEditPlanProject(plan.project.id);
+    setEditPlanHours(String(plan.hours));
     setShowEditModal(true);
   };
 
@@ -488,6 +617,7 @@ export default function WorkloadPage() {
     try {
       await api.patch(`/workload-plan/${editingPlan.id}`, {
         projectId: editPlanProject,
+        hours: editPlanHours ? Number(editPlanHours) : undefined,
       });
       toast.success(t('workload.workloadSaved'));
       setShowEditModal(false);
@@ -525,6 +655,27 @@ export default function WorkloadPage() {
     setActualHours('8');
     setActualNotes('');
     setActualDistributions([{ projectId: '', hours: '8', description: '' }]);
+    setIsEditingActual(false);
+    setShowAddActualModal(true);
+  };
+
+  const handleOpenEditActualModal = (entry: WorkloadActualEntry) => {
+    const d = new Date(entry.date);
+    setActualDate(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`);
+    setActualHours(String(entry.hoursWorked));
+    setActualNotes(entry.userText || '');
+    setActualDistributions(
+      entry.distributions && entry.distributions.length > 0
+        ? entry.distributions.map((dist) => ({
+            projectId: dist.projectId,
+            hours: String(dist.hours),
+            description: dist.description || '',
+            locked: dist.status === 'Approved',
+          }))
+        : [{ projectId: '', hours: '', description: '' }],
+    );
+    setIsEditingActual(true);
+    setShowViewActualModal(false);
     setShowAddActualModal(true);
   };
 
@@ -538,6 +689,26 @@ export default function WorkloadPage() {
     setShowViewActualModal(true);
   };
 
+  const renderTimesheetStatus = (status: TimesheetStatus) => (
+    <span className={`inline-flex px-1.5 py-0.5 text-xs font-medium rounded ${TIMESHEET_STATUS_CLASSES[status]}`}>
+      {t(`workload.timesheetStatus.${status}`)}
+    </span>
+  );
+
+  const handleSubmitActualEntry = async (entry: WorkloadActualEntry) => {
+    setIsSubmitting(true);
+    try {
+      await api.post(`/workload-actual/${entry.id}/submit`);
+      toast.success(t('workload.approvals.submitted'));
+      setShowViewActualModal(false);
+      fetchActualCalendarData();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || t('workload.approvals.submitFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleAddDistribution = () => {
     setActualDistributions([...actualDistributions, { projectId: '', hours: '', description: '' }]);
   };
@@ -552,7 +723,8 @@ export default function WorkloadPage() {
     setActualDistributions(updated);
   };
 
-  const handleCreateActualHours = async () => {
+  // With submit the saved report is sent for approval right away
+  const handleCreateActualHours = async (submit = false) => {
     if (!actualDate || !actualHours) {
       toast.error(t('workload.enterHoursRequired'));
       return;
@@ -571,8 +743,9 @@ export default function WorkloadPage() {
       return;
     }
 
-    if (totalDistHours > totalHours) {
-      toast.error(t('workload.distributionExceedsTotal'));
+    // Every hour worked must be assigned to a project
+    if (Math.abs(totalDistHours - totalHours) > 0.01) {
+      toast.error(t('workload.distributionMustMatchTotal', { distributed: totalDistHours, total: totalHours }));
       return;
     }
 
@@ -586,14 +759,27 @@ export default function WorkloadPage() {
           description: d.description || undefined,
         }));
 
-      await api.post('/workload-actual/create', {
-        date: actualDate,
-        hoursWorked: totalHours,
-        userText: actualNotes || undefined,
-        distributions: distributions.length > 0 ? distributions : undefined,
-      });
-
-      toast.success(t('workload.hoursLoggedSuccess'));
+      const response = isEditingActual
+        ? await api.put<WorkloadActualEntry>(`/workload-actual/day/${actualDate}`, {
+            hoursWorked: totalHours,
+            userText: actualNotes || undefined,
+            distributions,
+          })
+        : await api.post<WorkloadActualEntry>('/workload-actual/create', {
+            date: actualDate,
+            hoursWorked: totalHours,
+            userText: actualNotes || undefined,
+            distributions: distributions.length > 0 ? distributions : undefined,
+          });
+
+      // The report exists from here on, a retry after a failed submit must not create it again
+      setIsEditingActual(true);
+      if (submit) {
+        await api.post(`/workload-actual/${response.data.id}/submit`);
+        toast.success(t('workload.approvals.submitted'));
+      } else {
+        toast.success(isEditingActual ? t('workload.reportUpdated') : t('workload.hoursLoggedSuccess'));
+      }
       setShowAddActualModal(false);
       fetchActualCalendarData();
     } catch (error: any) {
@@ -764,17 +950,60 @@ export default function WorkloadPage() {
     return reportsForProject.length;
   };
 
-  // Get employees who are busy on a specific date (have work assigned)
-  const getBusyEmployeeIdsForDate = useCallback((dateKey: string) => {
-    const plans = calendarData[dateKey] || [];
-    return plans.map(plan => plan.user.id);
-  }, [calendarData]);
+  // Working hours of the day by the production calendar, a regular day until it is loaded
+  const getDailyCap = useCallback((dateKey: string) => productionCalendar[dateKey]?.hours || 8, [productionCalendar]);
 
-  // Get available employees (not busy) for a specific date
+  // Hours still free for the employee on a specific date
+  const getFreeHours = useCallback((dateKey: string, userId: string) => {
+    const planned = (calendarData[dateKey] || [])
+      .filter((plan) => plan.user.id === userId)
+      .reduce((sum, plan) => sum + plan.hours, 0);
+    return Math.max(getDailyCap(dateKey) - planned, 0);
+  }, [calendarData, getDailyCap]);
+
+  // Get available employees (with free hours and not absent) for a specific date
   const getAvailableEmployeesForDate = useCallback((dateKey: string) => {
-    const busyIds = getBusyEmployeeIdsForDate(dateKey);
-    return employees.filter(emp => !busyIds.includes(emp.id));
-  }, [employees, getBusyEmployeeIdsForDate]);
+    const absentIds = (absenceData[dateKey] || [])
+      .filter((absence) => absence.status === 'Approved')
+      .map((absence) => absence.user.id);
+    return employees.filter(emp => getFreeHours(dateKey, emp.id) > 0 && !absentIds.includes(emp.id));
+  }, [employees, getFreeHours, absenceData]);
+
+  const isNonWorkingDay = (dateKey: string) => productionCalendar[dateKey]?.type === 'NonWorking';
+
+  // Holiday name or shortened day mark next to the day number
+  const renderCalendarMark = (dateKey: string) => {
+    const day = productionCalendar[dateKey];
+    if (!day || (day.type === 'NonWorking' && !day.name) || day.type === 'Working') return null;
+
+    return (
+      <span
+        className={`ml-1 text-xs font-normal ${day.type === 'Short' ? 'text-amber-600' : 'text-red-500'}`}
+        title={day.name || t(`productionCalendar.types.${day.type}`)}
+      >
+        {day.type === 'Short' ? t('workload.shortDayMark') : '•'}
+      </span>
+    );
+  };
+
+  // Absence badges of a calendar day; pending requests are shown with a dashed border
+  const renderAbsences = (dateKey: string, size: 'xs' | 'sm' = 'xs') => {
+    const dayAbsences = absenceData[dateKey] || [];
+    if (dayAbsences.length === 0) return null;
+
+    return dayAbsences.map((absence) => (
+      <div
+        key={absence.id}
+        className={`${size === 'sm' ? 'text-sm' : 'text-xs'} bg-amber-50 text-amber-800 p-1 rounded truncate border ${
+          absence.status === 'Pending' ? 'border-dashed border-amber-400' : 'border-amber-200'
+        }`}
+        title={`${absence.user.firstName} ${absence.user.lastName} - ${t(`absences.types.${absence.type}`)} (${t(`absences.statuses.${absence.status}`)})`}
+      >
+        <span className="font-medium">{absence.user.firstName}</span>
+        <span> - {t(`absences.types.${absence.type}`)}</span>
+      </div>
+    ));
+  };
 
   // Export workload data to CSV
   const handleExportWorkload = () => {
@@ -821,15 +1050,26 @@ export default function WorkloadPage() {
       <div className="flex items-center justify-between mb-6">
         <h1 className="page-title">{t('workload.title')}</h1>
         {isManager && activeTab === 'plan' && (
-          <button
-            onClick={handleExportWorkload}
-            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
-          >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-            </svg>
-            {t('common.export')}
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowBulkModal(true)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+              </svg>
+              {t('workload.bulk.open')}
+            </button>
+            <button
+              onClick={handleExportWorkload}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+              </svg>
+              {t('common.export')}
+            </button>
+          </div>
         )}
       </div>
 
@@ -855,8 +1095,36 @@ export default function WorkloadPage() {
         >
           {t('workload.myHours')}
         </button>
+        {isManager && (
+          <button
+            onClick={() => setActiveTab('reconciliation')}
+            className={`px-4 py-2 text-sm font-medium border-b-2 ${
+              activeTab === 'reconciliation'
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            {t('workload.reconciliation.tab')}
+          </button>
+        )}
+        {isManager && (
+          <button
+            onClick={() => setActiveTab('approvals')}
+            className={`px-4 py-2 text-sm font-medium border-b-2 ${
+              activeTab === 'approvals'
+                ? 'border-primary-600 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            {t('workload.approvals.tab')}
+          </button>
+        )}
       </div>
 
+      {activeTab === 'reconciliation' && <ReconciliationView employees={employees} projects={projects} />}
+
+      {activeTab === 'approvals' && <TimesheetInbox />}
+
       {/* Filters - only show for Plan tab */}
       {activeTab === 'plan' && (
       <div className="card p-4 mb-6">
@@ -1012,12 +1280,13 @@ export default function WorkloadPage() {
                 const shouldHighlightGreen = dayIsFuture && dayPlans.length > 0;
 
                 return (
-                  <div className={`p-4 border rounded-lg ${shouldHighlightGreen ? 'bg-green-50' : 'bg-white'} ${dayIsToday ? 'border-primary-500 border-2' : 'border-gray-200'}`}>
+                  <div className={`p-4 border rounded-lg ${shouldHighlightGreen ? 'bg-green-50' : isNonWorkingDay(dateKey) ? 'bg-red-50' : 'bg-white'} ${dayIsToday ? 'border-primary-500 border-2' : 'border-gray-200'}`}>
                     <div className="flex items-center justify-between mb-4">
                       <span className={`text-xl font-semibold ${dayIsToday ? 'text-primary-600' : 'text-gray-900'}`}>
                         {currentDay.getDate()}
+                        {renderCalendarMark(dateKey)}
                       </span>
-                      {isOnlyManager && dayIsFuture && (
+                      {isOnlyManager && dayIsFuture && !isNonWorkingDay(dateKey) && (
                         <button
                           onClick={() => handleOpenAddModal(dateKey)}
                           className="btn-primary text-sm"
@@ -1027,6 +1296,9 @@ export default function WorkloadPage() {
                         </button>
                       )}
                     </div>
+                    {absenceData[dateKey] && (
+                      <div className="space-y-2 mb-3">{renderAbsences(dateKey, 'sm')}</div>
+                    )}
                     {dayPlans.length === 0 ? (
                       <div className="text-gray-500 text-center py-8">{t('workload.noWorkload')}</div>
                     ) : (
@@ -1047,7 +1319,9 @@ export default function WorkloadPage() {
                             }}
                           >
                             <div className="font-medium text-lg">{plan.user.firstName} {plan.user.lastName}</div>
-                            <div className="text-primary-600">{plan.project.name}</div>
+                            <div className="text-primary-600">
+                              {plan.project.name} · {t('workload.hoursShort', { hours: plan.hours })}
+                            </div>
                             {canModify && !isAllEmployeesMode && dayIsFuture && (
                               <button
                                 onClick={(e) => {
@@ -1105,7 +1379,7 @@ export default function WorkloadPage() {
                   return (
                     <div
                       key={index}
-                      className={`min-h-32 p-2 border rounded-lg ${shouldHighlightGreen ? 'bg-green-50' : 'bg-white'} ${dayIsToday ? 'border-primary-500 border-2' : 'border-gray-200'} ${
+                      className={`min-h-32 p-2 border rounded-lg ${shouldHighlightGreen ? 'bg-green-50' : isNonWorkingDay(dateKey) ? 'bg-red-50' : 'bg-white'} ${dayIsToday ? 'border-primary-500 border-2' : 'border-gray-200'} ${
                         isAllEmployeesMode && dayPlans.length > 0 ? 'cursor-pointer hover:bg-gray-50' : ''
                       }`}
                       onClick={(e) => {
@@ -1125,8 +1399,9 @@ export default function WorkloadPage() {
                           }}
                         >
                           {day.getDate()}
+                          {renderCalendarMark(dateKey)}
                         </span>
-                        {isOnlyManager && dayIsFuture && (
+                        {isOnlyManager && dayIsFuture && !isNonWorkingDay(dateKey) && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -1150,13 +1425,14 @@ export default function WorkloadPage() {
                           }
                         }}
                       >
+                        {renderAbsences(dateKey)}
                         {dayPlans.map((plan) => {
                           const canModify = canModifyPlan(plan);
                           return (
                           <div
                             key={plan.id}
                             className={`text-xs bg-primary-100 text-primary-800 p-1 rounded truncate group relative ${canModify && !isAllEmployeesMode ? 'cursor-pointer hover:bg-primary-200' : ''}`}
-                            title={`${plan.user.firstName} ${plan.user.lastName} - ${plan.project.name}${canModify && !isAllEmployeesMode ? ` (${t('common.clickToEdit')})` : ''}`}
+                            title={`${plan.user.firstName} ${plan.user.lastName} - ${plan.project.name} (${t('workload.hoursShort', { hours: plan.hours })})${canModify && !isAllEmployeesMode ? ` (${t('common.clickToEdit')})` : ''}`}
                             onClick={(e) => {
                               e.stopPropagation();
                               if (canModify && !isAllEmployeesMode) {
@@ -1168,6 +1444,7 @@ export default function WorkloadPage() {
                           >
                             <span className="font-medium">{plan.user.firstName}</span>
                             <span className="text-primary-600"> - {plan.project.name}</span>
+                            <span className="text-primary-500"> · {t('workload.hoursShort', { hours: plan.hours })}</span>
                           </div>
                         );})}
                       </div>
@@ -1212,7 +1489,13 @@ export default function WorkloadPage() {
                     <div
                       key={index}
                       className={`min-h-24 p-2 border rounded-lg ${
-                        day.isCurrentMonth ? (shouldHighlightGreen ? 'bg-green-50' : 'bg-white') : 'bg-gray-50'
+                        day.isCurrentMonth
+                          ? shouldHighlightGreen
+                            ? 'bg-green-50'
+                            : isNonWorkingDay(dateKey)
+                              ? 'bg-red-50'
+                              : 'bg-white'
+                          : 'bg-gray-50'
                       } ${dayIsToday ? 'border-primary-500 border-2' : 'border-gray-200'} ${
                         (isAllEmployeesMode || isSingleEmployeeMode || isSingleEmployeeAllProjectsMode) && (dayPlans.length > 0 || actualReportsCount > 0 || dayActual) && day.isCurrentMonth ? 'cursor-pointer hover:bg-gray-50' : ''
                       }`}
@@ -1242,8 +1525,9 @@ export default function WorkloadPage() {
                           }}
                         >
                           {day.date.getDate()}
+                          {day.isCurrentMonth && renderCalendarMark(dateKey)}
                         </span>
-                        {isOnlyManager && day.isCurrentMonth && dayIsFuture && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode && (
+                        {isOnlyManager && day.isCurrentMonth && dayIsFuture && !isNonWorkingDay(dateKey) && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -1258,7 +1542,7 @@ export default function WorkloadPage() {
                           </button>
                         )}
                         {/* In single employee mode or single employee all projects mode, show + button only if employee is NOT busy on that date */}
-                        {isOnlyManager && day.isCurrentMonth && dayIsFuture && (isSingleEmployeeMode || isSingleEmployeeAllProjectsMode) && dayPlans.length === 0 && (
+                        {isOnlyManager && day.isCurrentMonth && dayIsFuture && !isNonWorkingDay(dateKey) && (isSingleEmployeeMode || isSingleEmployeeAllProjectsMode) && getFreeHours(dateKey, selectedEmployee) > 0 && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -1295,6 +1579,7 @@ export default function WorkloadPage() {
                           </div>
                         ) : (
                           <>
+                            {day.isCurrentMonth && renderAbsences(dateKey)}
                             {/* Show plan entries */}
                             {dayPlans.map((plan) => {
                               const canModify = canModifyPlan(plan);
@@ -1302,7 +1587,7 @@ export default function WorkloadPage() {
                           <div
                             key={plan.id}
                             className={`text-xs bg-primary-100 text-primary-800 p-1 rounded truncate group relative ${canModify && !isAllEmployeesMode && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode ? 'cursor-pointer hover:bg-primary-200' : ''}`}
-                            title={`${plan.user.firstName} ${plan.user.lastName} - ${plan.project.name}${canModify && !isAllEmployeesMode && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode ? ` (${t('common.clickToEdit')})` : ''}`}
+                            title={`${plan.user.firstName} ${plan.user.lastName} - ${plan.project.name} (${t('workload.hoursShort', { hours: plan.hours })})${canModify && !isAllEmployeesMode && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode ? ` (${t('common.clickToEdit')})` : ''}`}
                             onClick={(e) => {
                               e.stopPropagation();
                               if (canModify && !isAllEmployeesMode && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode) {
@@ -1316,6 +1601,7 @@ export default function WorkloadPage() {
                           >
                             <span className="font-medium">{plan.user.firstName}</span>
                             <span className="text-primary-600"> - {plan.project.name}</span>
+                            <span className="text-primary-500"> · {t('workload.hoursShort', { hours: plan.hours })}</span>
                             {canModify && !isAllEmployeesMode && !isSingleEmployeeMode && !isSingleEmployeeAllProjectsMode && dayIsFuture && (
                               <button
                                 onClick={(e) => {
@@ -1362,6 +1648,10 @@ export default function WorkloadPage() {
       </div>
       )}
 
+      {activeTab === 'actual' && closedMonths.has(formatDateKey(currentMonth).slice(0, 7)) && (
+        <div className="mb-4 p-3 rounded-lg bg-gray-100 text-sm text-gray-700">{t('workload.periodClosed')}</div>
+      )}
+
       {/* Actual Hours Calendar */}
       {activeTab === 'actual' && (
       <div
@@ -1492,7 +1782,10 @@ export default function WorkloadPage() {
                         onClick={() => handleViewActualEntry(dayActual)}
                         title={t('common.clickToViewDetails')}
                       >
-                        <div className="font-medium text-lg">{dayActual.hoursWorked}{t('workload.hoursWorked')}</div>
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="font-medium text-lg">{dayActual.hoursWorked}{t('workload.hoursWorked')}</div>
+                          {renderTimesheetStatus(dayActual.status)}
+                        </div>
                         {dayActual.userText && <div className="text-green-600 mt-2">{dayActual.userText}</div>}
                         {dayActual.distributions && dayActual.distributions.length > 0 && (
                           <div className="text-green-600 mt-2 space-y-1">
@@ -1518,7 +1811,9 @@ export default function WorkloadPage() {
                                 onClick={() => handleOpenDateEmployeesModal(dateKey)}
                                 title={t('common.clickToViewDetails')}
                               >
-                                <div className="font-medium">{plan.project.name}</div>
+                                <div className="font-medium">
+                                  {plan.project.name} · {t('workload.hoursShort', { hours: plan.hours })}
+                                </div>
                                 <div className="text-sm text-blue-600 mt-1">
                                   {plan.manager.firstName} {plan.manager.lastName}
                                 </div>
@@ -1615,6 +1910,7 @@ export default function WorkloadPage() {
                           title={t('common.clickToViewDetails')}
                         >
                           <div className="font-medium">{dayActual.hoursWorked}{t('workload.hours')}</div>
+                          {renderTimesheetStatus(dayActual.status)}
                         </div>
                       )}
                       {/* Feature #335: Display planned workload for current and future dates (when no actual data) */}
@@ -1628,7 +1924,7 @@ export default function WorkloadPage() {
                                 e.stopPropagation();
                                 handleOpenDateEmployeesModal(dateKey);
                               }}
-                              title={`${t('workload.planned')}: ${plan.project.name} - ${t('common.clickToViewDetails')}`}
+                              title={`${t('workload.planned')}: ${plan.project.name} (${t('workload.hoursShort', { hours: plan.hours })}) - ${t('common.clickToViewDetails')}`}
                             >
                               <span className="font-medium text-[10px]">{t('workload.planned')}</span>
                               <span className="text-blue-600 text-[10px]"> - {plan.project.name}</span>
@@ -1726,7 +2022,10 @@ export default function WorkloadPage() {
                           }}
                           title={t('common.clickToViewDetails')}
                         >
-                          <div className="font-medium">{dayActual.hoursWorked}{t('workload.hoursWorked')}</div>
+                          <div className="flex items-center justify-between gap-1">
+                            <div className="font-medium">{dayActual.hoursWorked}{t('workload.hoursWorked')}</div>
+                            {renderTimesheetStatus(dayActual.status)}
+                          </div>
                           {dayActual.distributions && dayActual.distributions.length > 0 && (
                             <div className="text-green-600 mt-1">
                               {dayActual.distributions.map((d, i) => (
@@ -1749,7 +2048,7 @@ export default function WorkloadPage() {
                                 e.stopPropagation();
                                 handleOpenDateEmployeesModal(dateKey);
                               }}
-                              title={`${t('workload.planned')}: ${plan.project.name} - ${t('common.clickToViewDetails')}`}
+                              title={`${t('workload.planned')}: ${plan.project.name} (${t('workload.hoursShort', { hours: plan.hours })}) - ${t('common.clickToViewDetails')}`}
                             >
                               <span className="font-medium">{t('workload.planned')}</span>
                               <span className="text-blue-600"> - {plan.project.name}</span>
@@ -1767,6 +2066,16 @@ export default function WorkloadPage() {
       </div>
       )}
 
+      {/* Bulk Planning Modal */}
+      {showBulkModal && (
+        <BulkPlanModal
+          employees={employees}
+          projects={projectsForDropdown}
+          onClose={() => setShowBulkModal(false)}
+          onApplied={fetchCalendarData}
+        />
+      )}
+
       {/* Add Workload Plan Modal */}
       {showAddModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1806,7 +2115,7 @@ export default function WorkloadPage() {
                   <option value="">{t('workload.selectEmployee')}</option>
                   {getAvailableEmployeesForDate(selectedDate).map((employee) => (
                     <option key={employee.id} value={employee.id}>
-                      {employee.firstName} {employee.lastName}
+                      {employee.firstName} {employee.lastName} ({t('workload.freeHours', { hours: getFreeHours(selectedDate, employee.id) })})
                     </option>
                   ))}
                 </select>
@@ -1855,6 +2164,25 @@ export default function WorkloadPage() {
                   />
                 </div>
               )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('workload.plannedHours')}
+                </label>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={getDailyCap(selectedDate)}
+                  step={0.5}
+                  value={newPlanHours}
+                  onChange={(e) => setNewPlanHours(e.target.value)}
+                  placeholder={
+                    newPlanEmployee
+                      ? t('workload.freeHours', { hours: getFreeHours(selectedDate, newPlanEmployee) })
+                      : t('workload.fullDay')
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
             </div>
             <div className="flex justify-end gap-2 p-4 border-t">
               <button
@@ -1930,6 +2258,20 @@ export default function WorkloadPage() {
                   ))}
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('workload.plannedHours')}
+                </label>
+                <input
+                  type="number"
+                  min={0.5}
+                  max={getDailyCap(editingPlanDate)}
+                  step={0.5}
+                  value={editPlanHours}
+                  onChange={(e) => setEditPlanHours(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
             </div>
             <div className="flex justify-end gap-2 p-4 border-t">
               <button
@@ -1955,7 +2297,9 @@ export default function WorkloadPage() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
             <div className="flex items-center justify-between p-4 border-b">
-              <h2 className="text-lg font-semibold">{t('workload.logHours')}</h2>
+              <h2 className="text-lg font-semibold">
+                {isEditingActual ? t('workload.editReport') : t('workload.logHours')}
+              </h2>
               <button
                 onClick={() => setShowAddActualModal(false)}
                 className="text-gray-400 hover:text-gray-600"
@@ -2023,7 +2367,9 @@ export default function WorkloadPage() {
                     <div key={index} className="border border-gray-200 rounded-lg p-3">
                       <div className="flex items-center justify-between mb-2">
                         <span className="text-sm font-medium text-gray-600">{t('workload.project')} {index + 1}</span>
-                        {actualDistributions.length > 1 && (
+                        {dist.locked ? (
+                          <span className="text-xs">{renderTimesheetStatus('Approved')}</span>
+                        ) : actualDistributions.length > 1 && (
                           <button
                             type="button"
                             onClick={() => handleRemoveDistribution(index)}
@@ -2036,6 +2382,7 @@ export default function WorkloadPage() {
                       <div className="grid grid-cols-2 gap-2">
                         <select
                           value={dist.projectId}
+                          disabled={dist.locked}
                           onChange={(e) => handleDistributionChange(index, 'projectId', e.target.value)}
                           className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                         >
@@ -2052,6 +2399,7 @@ export default function WorkloadPage() {
                           step="0.5"
                           placeholder={t('workload.hours')}
                           value={dist.hours}
+                          disabled={dist.locked}
                           onChange={(e) => handleDistributionChange(index, 'hours', e.target.value)}
                           className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                         />
@@ -2060,6 +2408,7 @@ export default function WorkloadPage() {
                         type="text"
                         placeholder={t('workload.descriptionOptional')}
                         value={dist.description}
+                        disabled={dist.locked}
                         onChange={(e) => handleDistributionChange(index, 'description', e.target.value)}
                         className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
                       />
@@ -2076,11 +2425,18 @@ export default function WorkloadPage() {
                 {t('common.cancel')}
               </button>
               <button
-                onClick={handleCreateActualHours}
+                onClick={() => handleCreateActualHours()}
+                disabled={isSubmitting}
+                className="btn-secondary"
+              >
+                {isSubmitting ? t('common.saving') : isEditingActual ? t('common.save') : t('workload.logHours')}
+              </button>
+              <button
+                onClick={() => handleCreateActualHours(true)}
                 disabled={isSubmitting}
                 className="btn-primary"
               >
-                {isSubmitting ? t('common.saving') : t('workload.logHours')}
+                {t('workload.approvals.saveAndSubmit')}
               </button>
             </div>
           </div>
@@ -2200,7 +2556,7 @@ export default function WorkloadPage() {
                                 {plan.user.firstName} {plan.user.lastName}
                               </div>
                               <div className="text-sm text-primary-600">
-                                {plan.project.name}
+                                {plan.project.name} · {t('workload.hoursShort', { hours: plan.hours })}
                               </div>
                             </div>
                             {canModify && isFutureDateString(dateEmployeesModalDate) && (
@@ -2275,7 +2631,10 @@ export default function WorkloadPage() {
             <div className="p-4">
               {/* Total Hours */}
               <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
-                <div className="text-sm text-green-600 mb-1">{t('workload.totalHoursWorked')}</div>
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-green-600 mb-1">{t('workload.totalHoursWorked')}</div>
+                  {renderTimesheetStatus(viewingActualEntry.status)}
+                </div>
                 <div className="text-3xl font-bold text-green-800">{viewingActualEntry.hoursWorked}{t('workload.hours')}</div>
               </div>
 
@@ -2301,11 +2660,19 @@ export default function WorkloadPage() {
                       >
                         <div className="flex items-center justify-between">
                           <div className="font-medium text-gray-900">{dist.project.name}</div>
-                          <div className="text-primary-700 font-semibold">{dist.hours}{t('workload.hours')}</div>
+                          <div className="flex items-center gap-2">
+                            {dist.status !== viewingActualEntry.status && renderTimesheetStatus(dist.status)}
+                            <div className="text-primary-700 font-semibold">{dist.hours}{t('workload.hours')}</div>
+                          </div>
                         </div>
                         {dist.description && (
                           <div className="text-sm text-gray-500 mt-1">{dist.description}</div>
                         )}
+                        {dist.reviewComment && (
+                          <div className="text-sm text-red-700 mt-1">
+                            {t('workload.approvals.reviewComment')}: {dist.reviewComment}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -2319,7 +2686,22 @@ export default function WorkloadPage() {
                 </div>
               )}
             </div>
-            <div className="flex justify-end p-4 border-t">
+            <div className="flex justify-end gap-2 p-4 border-t">
+              {(!selectedEmployee || selectedEmployee === user?.id) && viewingActualEntry.status !== 'Approved' && (
+                <button onClick={() => handleOpenEditActualModal(viewingActualEntry)} className="btn-secondary">
+                  {t('common.edit')}
+                </button>
+              )}
+              {(!selectedEmployee || selectedEmployee === user?.id) &&
+                (viewingActualEntry.status === 'Draft' || viewingActualEntry.status === 'Rejected') && (
+                  <button
+                    onClick={() => handleSubmitActualEntry(viewingActualEntry)}
+                    disabled={isSubmitting}
+                    className="btn-primary"
+                  >
+                    {t('workload.approvals.submit')}
+                  </button>
+                )}
               <button
                 onClick={() => setShowViewActualModal(false)}
                 className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
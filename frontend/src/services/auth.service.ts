@@ -1,5 +1,6 @@
 import axios from 'axios';
 import type { User } from '@/store/slices/authSlice';
+import type { PaginatedResponse } from '@/types';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 
@@ -11,6 +12,7 @@ interface LoginResponse {
 
 interface RefreshResponse {
   accessToken: string;
+  refreshToken: string;
 }
 
 const api = axios.create({
@@ -30,6 +32,33 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Refresh tokens are single-use, so parallel 401s must share one refresh request:
+// presenting the same token twice is treated as theft and ends the session
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) {
+        throw new Error('No refresh token');
+      }
+
+      const response = await axios.post<RefreshResponse>(
+        `${API_URL}/api/auth/refresh`,
+        { refreshToken }
+      );
+
+      localStorage.setItem('accessToken', response.data.accessToken);
+      localStorage.setItem('refreshToken', response.data.refreshToken);
+      return response.data.accessToken;
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Add response interceptor for token refresh
 api.interceptors.response.use(
   (response) => response,
@@ -44,18 +73,7 @@ api.interceptors.response.use(
       originalRequest._retry = true;
 
       try {
-        const refreshToken = localStorage.getItem('refreshToken');
-        if (!refreshToken) {
-          throw new Error('No refresh token');
-        }
-
-        const response = await axios.post<RefreshResponse>(
-          `${API_URL}/api/auth/refresh`,
-          { refreshToken }
-        );
-
-        const { accessToken } = response.data;
-        localStorage.setItem('accessToken', accessToken);
+        const accessToken = await refreshAccessToken();
         originalRequest.headers.Authorization = `Bearer ${accessToken}`;
 
         return api(originalRequest);
@@ -124,10 +142,45 @@ export const authService = {
     });
   },
 
+  async forgotPassword(email: string): Promise<void> {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    await api.post('/auth/reset-password', { token, newPassword });
+  },
+
   async logout(): Promise<void> {
-    localStorage.removeItem('accessToken');
-    localStorage.removeItem('refreshToken');
+    try {
+      // End the session on the server so its refresh token can no longer be used
+      await api.post('/auth/logout');
+    } catch {
+      // Clearing local tokens is still enough to log out of this browser
+    } finally {
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+    }
   },
 };
 
+// The server's largest page
+const MAX_PAGE_SIZE = 100;
+
+// Loads every page of a list endpoint. Unpaged lists are refused by the server past a limit,
+// so views that need a whole list (a month for all employees) go page by page
+export async function fetchAllPages<T>(url: string, params: Record<string, string>): Promise<T[]> {
+  const rows: T[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const response = await api.get<PaginatedResponse<T>>(url, {
+      params: { ...params, page, limit: MAX_PAGE_SIZE },
+    });
+    rows.push(...response.data.data);
+    totalPages = response.data.totalPages;
+    page++;
+  } while (page <= totalPages);
+  return rows;
+}
+
 export { api };
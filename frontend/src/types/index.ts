@@ -85,10 +85,24 @@ export interface Document {
   hashName: string;
   originalName: string;
   uploadedAt: string;
-  uploadedById: string;
+  uploadedById: string | null;
   projectId: string;
   constructionId?: string;
-  uploadedBy?: User;
+  uploadedBy?: User | null;
+  versions?: DocumentVersion[];
+}
+
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  version: number;
+  path: string;
+  mimeType: string;
+  hashName: string;
+  originalName: string;
+  uploadedAt: string;
+  uploadedById: string | null;
+  uploadedBy?: User | null;
 }
 
 // Workload types
@@ -159,6 +173,30 @@ export interface LenconnectChatLog {
   createdAt: string;
 }
 
+// Proposal types
+export type ProposalStatus = 'New' | 'UnderReview' | 'Accepted' | 'Rejected' | 'Implemented';
+
+export interface ProposalComment {
+  id: string;
+  proposalId: string;
+  authorId: string;
+  content?: string;
+  status?: ProposalStatus;
+  author?: User;
+  createdAt: string;
+}
+
+export interface EmployeeProposal {
+  id: string;
+  userId: string;
+  proposal: string;
+  status: ProposalStatus;
+  user?: User;
+  comments?: ProposalComment[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 // API response types
 export interface PaginatedResponse<T> {
   data: T[];